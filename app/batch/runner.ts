@@ -0,0 +1,120 @@
+// SPDX-License-Identifier: MIT
+
+/**
+ * バッチタスクの実行
+ *
+ * スケジュールによる定期実行と、管理画面からの手動実行の両方で使用します。
+ * 同じタスクが同時に実行されないようにジョブのロックを取得し、実行ごとに実行記録（JobRun）を保存します。
+ * 実行中のタスクは、シャットダウン時に終了を待つ対象として登録します。
+ *
+ * @module runner
+ */
+
+import createCsvAndImportToYahoo from "./tasks/createCsvAndImportToYahoo";
+import checkUploadResults from "./tasks/checkUploadResults";
+import deleteExpiredRecords from "./tasks/deleteExpiredRecords";
+import generatePublicKey from "./tasks/generatePublicKey";
+import cleanUpPixelNonce from "./tasks/cleanUpPixelNonce";
+import { getInstalledShops } from "../models/Session.server";
+import { withJobLock } from "../utils/job_lock.server";
+import { recordJobRun, type JobRunResult } from "../utils/job_run.server";
+import { isShuttingDown, stopReason, trackRunningTask } from "../utils/shutdown.server";
+import type { TaskName } from "../constants";
+
+/**
+ * ショップごとに順番にタスクを実行し、ショップごとの実行記録を保存する
+ *
+ * 1つのショップで失敗しても、他のショップの処理は継続します。
+ * シャットダウン中やジョブのロックを失った場合は、残りのショップを次回の実行に持ち越します。
+ *
+ * @param name - タスク名（ログ出力と実行記録用）
+ * @param shops - 実行するショップのドメイン
+ * @param task - ショップのドメインと、実行を中断するシグナルを受け取るタスク
+ * @param signal - 実行を中断するシグナル（ジョブのロックを失った場合に中断される）
+ */
+async function forEachShop(
+  name: string,
+  shops: string[],
+  task: (shop: string, signal: AbortSignal) => Promise<JobRunResult>,
+  signal: AbortSignal,
+) {
+  for (const shop of shops) {
+    const stop = stopReason(signal);
+    if (stop) {
+      console.log(`${name} stopped for ${stop}, remaining shops are left for the next run`);
+      return;
+    }
+    try {
+      await recordJobRun(name, shop, () => task(shop, signal));
+    } catch (e) {
+      console.error(`${name} error: ${shop}`, e);
+    }
+  }
+}
+
+/**
+ * タスクごとの処理（実行するショップのドメインを受け取る）
+ */
+const TASKS: Record<TaskName, (shops: string[], signal: AbortSignal) => Promise<void>> = {
+  generatePublicKey:         (shops, signal) => forEachShop("generatePublicKey", shops, generatePublicKey, signal),
+  createCsvAndImportToYahoo: (shops, signal) => forEachShop("createCsvAndImportToYahoo", shops, createCsvAndImportToYahoo, signal),
+  checkUploadResults:        (shops, signal) => forEachShop("checkUploadResults", shops, checkUploadResults, signal),
+  // ショップに依存しないメンテナンス
+  maintenance: async (_shops, signal) => {
+    await recordJobRun("deleteExpiredRecords", null, deleteExpiredRecords);
+    if (stopReason(signal)) return;
+    await recordJobRun("cleanUpPixelNonce", null, cleanUpPixelNonce);
+  },
+};
+
+/**
+ * ジョブのロックを取得してタスクを実行する
+ *
+ * @param name - タスク名
+ * @param shop - 実行するショップのドメイン（省略時はインストール済みの全ショップ。メンテナンスでは使用しない）
+ * @param onStarted - ロックを取得してタスクを開始した時に呼び出す関数
+ * @returns タスクを実行した場合はtrue、他の実行中のためロックを取得できなかった場合やシャットダウン中の場合はfalse
+ *
+ * @example
+ * ```typescript
+ * // 管理画面から、ショップのコンバージョンをすぐに送信する
+ * const ran = await runTask("createCsvAndImportToYahoo", session.shop);
+ * ```
+ */
+export async function runTask(name: TaskName, shop?: string, onStarted?: () => void): Promise<boolean> {
+  if (isShuttingDown()) {
+    console.log(`${name} skipped for shutdown`);
+    return false;
+  }
+  // シャットダウン時は、ロックを解放するまで終了を待つ
+  return trackRunningTask(name, () => withJobLock(name, async signal => {
+    onStarted?.();
+    await TASKS[name](shop ? [shop] : await getInstalledShops(), signal);
+  }));
+}
+
+/**
+ * ジョブのロックを取得してタスクを開始し、終了を待たずに返す
+ *
+ * 管理画面から実行する場合に使用します。アップロードの再試行などで時間がかかっても
+ * リクエストを待たせないように、ロックを取得できた時点で返し、結果は実行記録（JobRun）に保存します。
+ *
+ * @param name - タスク名
+ * @param shop - 実行するショップのドメイン
+ * @returns タスクを開始した場合はtrue、他の実行中のためロックを取得できなかった場合やシャットダウン中の場合はfalse
+ *
+ * @example
+ * ```typescript
+ * const started = await startTask("createCsvAndImportToYahoo", session.shop);
+ * ```
+ */
+export function startTask(name: TaskName, shop?: string): Promise<boolean> {
+  return new Promise(resolve => {
+    runTask(name, shop, () => resolve(true))
+      .then(ran => { if (!ran) resolve(false); })
+      .catch(error => {
+        console.error(`${name} error:`, error);
+        resolve(false);
+      });
+  });
+}
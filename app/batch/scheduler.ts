@@ -2,85 +2,179 @@
 
 /**
  * バッチタスクスケジューラー
- * 
+ *
  * このモジュールは、定期的に実行されるバッチタスクを管理します。
  * node-cronを使用してスケジュールされたタスクを実行し、
- * 重複実行を防ぐためにグローバルフラグを使用します。
- * 
+ * 重複実行を防ぐためにグローバルフラグを使用し、
+ * 複数のプロセスで同じタスクが同時に実行されないようにデータベースのロックを使用します。
+ * タスクの実行ごとに、実行結果・処理件数・エラーを実行記録（JobRun）として保存します。
+ *
+ * タスクのスケジュールはデータベース（TaskSchedule）に保存され、管理画面から変更できます。
+ * 変更は再起動せずに反映されます（変更したプロセスでは保存時に、他のプロセスでは1分以内に反映）。
+ *
+ * 終了シグナル（SIGTERM・SIGINT）を受け取った場合は、新しい実行を開始せずに、実行中のタスクの終了を一定時間待ってから終了します。
+ *
  * @module scheduler
  */
 
-import cron from "node-cron";
-import createCsvAndImportToYahoo from "./tasks/createCsvAndImportToYahoo";
-import deleteExpiredRecords from "./tasks/deleteExpiredRecords";
-import generatePublicKey from "./tasks/generatePublicKey";
-import cleanUpPixelNonce from "./tasks/cleanUpPixelNonce";
+import cron, { type ScheduledTask } from "node-cron";
 import prisma from "../../app/db.server";
+import { runTask } from "./runner";
+import { getTaskSchedules } from "../utils/task_schedule.server";
+import { drainRunningTasks, isShuttingDown } from "../utils/shutdown.server";
+import { markRunningJobRunsInterrupted } from "../utils/job_run.server";
+import { TASK_SCHEDULE, type TaskName } from "../constants";
 
 /**
  * グローバル変数の型定義
- * スケジューラーの重複起動を防ぐためのフラグ
+ * スケジューラーの重複起動を防ぐためのフラグと、登録中のタスク
  */
 declare global {
   var __CRON_STARTED__: boolean | undefined;
+  var __CRON_TASKS__: Map<TaskName, { cronExpression: string, task: ScheduledTask }> | undefined;
+  var __CRON_SYNC_TASK__: ScheduledTask | undefined;
 }
 
+/** 登録中のタスク（タスク名ごと） */
+const registeredTasks = global.__CRON_TASKS__ ??= new Map();
+
+/** 実行中のスケジュールの反映（同時に反映しないように順番に実行する） */
+let syncing: Promise<void> = Promise.resolve();
+
 /**
- * スケジューラーの初期化とタスクの登録
- * 
- * グローバルフラグを使用して重複実行を防ぎ、
- * 以下のタスクをスケジュールします：
- * - 公開鍵生成（10分間隔）
- * - CSV作成とYahoo広告へのインポート（20分間隔）
- * - 期限切れレコードの削除とピクセルノンスのクリーンアップ（毎日4:00 JST）
+ * スケジュールに従ってタスクを実行する
+ *
+ * 他のプロセスが同じタスクを実行中の場合は、実行しません。
  */
-if (!global.__CRON_STARTED__) {
-  global.__CRON_STARTED__ = true;
+async function runScheduledTask(name: TaskName) {
+  try {
+    await runTask(name);
+  } catch (e) {
+    console.error(`${name} error`, e);
+  }
+}
 
-  /**
-   * 公開鍵生成タスク
-   * 10分間隔で実行され、セキュリティキーの更新を行います
-   */
-  cron.schedule("*/10 * * * *", async () => {
-    try {
-      await generatePublicKey();
-    } catch (e) {
-      console.error("generatePublicKey error", e);
+/**
+ * データベースに保存されたスケジュールを、登録中のタスクに反映する
+ *
+ * スケジュールが変更されたタスクは登録し直し、無効にされたタスクは登録を解除します。
+ * スケジュールが変わっていないタスクはそのままにします（実行中のタスクは中断しません）。
+ *
+ * @example
+ * ```typescript
+ * await db.taskSchedule.upsert({ ... });
+ * await syncTaskSchedules();
+ * ```
+ */
+export function syncTaskSchedules(): Promise<void> {
+  syncing = syncing.then(async () => {
+    // シャットダウン中は登録し直さない
+    if (isShuttingDown()) return;
+
+    for (const schedule of await getTaskSchedules()) {
+      const registered = registeredTasks.get(schedule.name);
+      if (schedule.enabled && registered?.cronExpression === schedule.cronExpression) continue;
+
+      if (registered) {
+        await registered.task.destroy();
+        registeredTasks.delete(schedule.name);
+      }
+      if (!schedule.enabled) {
+        console.log(`[cron] ${schedule.name} disabled`);
+        continue;
+      }
+
+      const task = cron.schedule(schedule.cronExpression, () => runScheduledTask(schedule.name), {
+        name:     schedule.name,
+        timezone: TASK_SCHEDULE.TIMEZONE,
+      });
+      registeredTasks.set(schedule.name, { cronExpression: schedule.cronExpression, task });
+      console.log(`[cron] ${schedule.name} scheduled: ${schedule.cronExpression}`);
     }
+  }).catch(e => {
+    console.error("syncTaskSchedules error", e);
   });
+  return syncing;
+}
 
-  /**
-   * CSV作成とYahoo広告へのインポートタスク
-   * 20分間隔で実行され、コンバージョンデータをYahoo広告に送信します
-   */
-  cron.schedule("*/20 * * * *", async () => {
-    try {
-      await createCsvAndImportToYahoo();
-    } catch (e) {
-      console.error("createCsvAndImportToYahoo error", e);
+/**
+ * タスクの次回の実行日時を取得する
+ *
+ * @param name - タスク名
+ * @returns 次回の実行日時（定期実行していない場合はnull）
+ */
+export function getNextRun(name: TaskName): Date | null {
+  return registeredTasks.get(name)?.task.getNextRun() ?? null;
+}
+
+/**
+ * 終了シグナルを受け取った時に、実行中のタスクを終えてからプロセスを終了する
+ *
+ * 以下の順に処理します：
+ * 1. スケジュールの確認と全タスクの登録を解除し、新しい実行を開始しない
+ * 2. 実行中のタスクの終了をTASK_SCHEDULE.SHUTDOWN_TIMEOUT_MSまで待つ
+ *    （タスクは区切りごとにシャットダウン中かを確認し、残りを次回の実行に持ち越して終了する。
+ *    Yahoo広告APIの再試行は行わず、実行中の呼び出しはTASK_SCHEDULE.SHUTDOWN_ABORT_REQUESTS_MSで打ち切る）
+ * 3. 待ちきれなかったタスクの実行記録を、中断されたものとして失敗にする
+ *    （アップロード中のまま残った送信対象は、次回の実行で復旧する。ロックは有効期限が切れると取得し直せる）
+ * 4. データベース接続を切断して終了する
+ *
+ * @param signal - 受け取ったシグナル
+ */
+async function shutdown(signal: NodeJS.Signals) {
+  console.log(`[cron] ${signal} received, waiting for running tasks`);
+
+  await global.__CRON_SYNC_TASK__?.destroy();
+  for (const [name, { task }] of registeredTasks) {
+    await task.destroy();
+    registeredTasks.delete(name);
+  }
+
+  try {
+    const unfinished = await drainRunningTasks(TASK_SCHEDULE.SHUTDOWN_TIMEOUT_MS, TASK_SCHEDULE.SHUTDOWN_ABORT_REQUESTS_MS);
+    if (unfinished.length) {
+      console.error(`[cron] shutdown timed out, interrupting: ${unfinished.join(", ")}`);
+      await markRunningJobRunsInterrupted(`Interrupted by ${signal}`);
+    } else {
+      console.log("[cron] running tasks finished");
     }
-  });
+    await prisma.$disconnect();
+  } catch (e) {
+    console.error("shutdown error", e);
+  }
+  process.exit(0);
+}
+
+/**
+ * スケジューラーの初期化とタスクの登録
+ *
+ * グローバルフラグを使用して重複登録を防ぎ、
+ * データベースに保存されたスケジュール（未設定の場合は既定のスケジュール）で以下のタスクを登録します
+ * （公開鍵生成・インポート・処理結果の確認はショップごとに実行）。
+ * 各タスクは、ジョブのロックを取得できた場合のみ実行します：
+ * - 公開鍵生成（既定は10分間隔）
+ * - CSV作成とYahoo広告へのインポート（既定は20分間隔）
+ * - Yahoo広告での処理結果の確認（既定は20分間隔、インポートの10分後）
+ * - 期限切れレコードの削除とピクセルノンスのクリーンアップ（既定は毎日4:00 JST）
+ */
+if (!global.__CRON_STARTED__) {
+  global.__CRON_STARTED__ = true;
+
+  syncTaskSchedules().then(() => console.log("[cron] jobs scheduled"));
 
   /**
-   * メンテナンスタスク
-   * 毎日4:00 JSTに実行され、以下の処理を行います：
-   * - 期限切れレコードの削除
-   * - ピクセルノンスのクリーンアップ
+   * スケジュールの変更の確認
+   * 他のプロセス（管理画面を操作したマシン）で変更されたスケジュールを反映します
    */
-  cron.schedule("00 4 * * *", async () => {
-    await deleteExpiredRecords();
-    await cleanUpPixelNonce();
-  }, {
-    timezone: "Asia/Tokyo",
-  });
+  global.__CRON_SYNC_TASK__ = cron.schedule(TASK_SCHEDULE.SYNC_CRON, () => syncTaskSchedules());
 
   /**
    * プロセス終了時のクリーンアップ処理
-   * データベース接続を適切に切断します
+   * 終了シグナルでは実行中のタスクを待ってから、データベース接続を適切に切断します
    */
+  process.once("SIGTERM", shutdown);
+  process.once("SIGINT", shutdown);
   process.on("beforeExit", async () => {
     await prisma.$disconnect();
   });
-
-  console.log("[cron] jobs scheduled");
-}
\ No newline at end of file
+}
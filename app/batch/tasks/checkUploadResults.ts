@@ -0,0 +1,257 @@
+// SPDX-License-Identifier: MIT
+
+import db from "../../db.server";
+import iconv from 'iconv-lite';
+import { parse } from 'csv-parse/sync';
+import { API, type EndpointKey, CONVERSION_STATUS, UPLOAD_PROCESS_STATUS, JOB_RUN_STATUS } from "../../constants";
+import { getValidYahooAdToken } from "../../utils/get_yahoo_ad_token.server";
+import { getYahooAdApplication } from "../../models/YahooAdApplication.server";
+import { recordYahooApiError } from "../../utils/yahoo_connection.server";
+import { requestYahoo, YahooApiError } from "../../utils/yahoo_http_client.server";
+import { stopReason } from "../../utils/shutdown.server";
+import { toJobRunResult, type JobRunResult } from "../../utils/job_run.server";
+
+/** 処理結果を確認する対象期間（日数） */
+const CHECK_PERIOD_DAYS = 7;
+
+/**
+ * Yahoo広告APIのリクエストヘッダーを構築する
+ * @param baseAccountId - x-z-base-account-idに指定するアカウントID
+ * @param accessToken - アクセストークン
+ * @returns リクエストヘッダー
+ */
+function buildHeaders(baseAccountId: string, accessToken: string) {
+  return {
+    "Content-Type": "application/json",
+    "x-z-base-account-id": baseAccountId,
+    "Authorization": "Bearer " + accessToken
+  };
+}
+
+/**
+ * アップロードエラーファイルを解析し、YCLIDごとのエラー理由を取得する
+ *
+ * エラーファイルはShift_JISのCSVで、アップロードしたCSVの列に加えて
+ * エラー内容の列が付与されています。列名に「YCLID」「エラー」を含む列を使用します。
+ *
+ * @param content - エラーファイルの内容
+ * @returns YCLIDをキー、エラー理由を値とするMap
+ */
+function parseUploadErrorFile(content: Uint8Array): Map<string, string> {
+  const csvUtf8 = iconv.decode(Buffer.from(content), 'Shift_JIS');
+  const rows: Record<string, string>[] = parse(csvUtf8, { columns: true, skip_empty_lines: true, bom: true });
+
+  const reasons = new Map<string, string>();
+  for (const row of rows) {
+    const yclidKey = Object.keys(row).find(key => key.includes("YCLID"));
+    if (!yclidKey || !row[yclidKey]) continue;
+    const reason = Object.keys(row)
+      .filter(key => key.includes("エラー") && row[key])
+      .map(key => row[key])
+      .join(" / ");
+    reasons.set(row[yclidKey], reason || "unknown error");
+  }
+  return reasons;
+}
+
+/**
+ * アップロードジョブに紐付くコンバージョンと価値の調整のステータスを更新するクエリを生成する
+ *
+ * CSVの行はコンバージョンと価値の調整のどちらにも対応するため、両方に同じ条件で反映します。
+ *
+ * @param uploadJobId - アップロードジョブID
+ * @param where - 更新対象の条件（uploadJobIdに加えて指定する）
+ * @param data - 更新内容
+ * @returns トランザクションで実行するクエリ
+ */
+function updateJobRows(
+  uploadJobId: number,
+  where: { yclid?: string, status?: string },
+  data: { status: string, statusReason: string | null },
+) {
+  const { yclid, ...rest } = where;
+  return [
+    db.yahooConversion.updateMany({ where: { uploadJobId, yclid, ...rest }, data }),
+    // 価値の調整のYCLIDは元のコンバージョンのもの
+    db.conversionAdjustment.updateMany({ where: { uploadJobId, conversion: yclid ? { yclid } : undefined, ...rest }, data }),
+  ];
+}
+
+/**
+ * ショップがYahoo広告にアップロードしたCSVの処理結果を確認し、コンバージョンごとのステータスに反映する
+ *
+ * この関数は以下の処理を実行します：
+ * 1. ショップの直近のアップロードジョブのうち、処理結果が未確定のものを取得
+ * 2. OfflineConversionService/getでYahoo広告側の処理ステータスを取得
+ * 3. 処理ステータスに応じて、ジョブに紐付くコンバージョンと価値の調整を更新：
+ *    - COMPLETED：全行をacceptedに更新
+ *    - COMPLETED_WITH_ERROR / ERROR：エラーファイルを取得し、該当行をrejectedに更新
+ *    - SYSTEM_ERROR：全行をpendingに戻し、次回のアップロードで再送
+ *    処理が確定したステータスは行の更新と同時に保存し、エラーファイルの取得などに失敗した場合は次回の実行で確認し直す
+ *
+ * @param shop - ショップのドメイン
+ * @param signal - 実行を中断するシグナル（ジョブのロックを失った場合に中断される）
+ * @returns {Promise<JobRunResult>} 実行結果（確認したジョブ数・処理が完了したジョブ数・拒否された行数）
+ *
+ * @example
+ * ```typescript
+ * await checkUploadResults(shop);
+ * ```
+ */
+export default async function checkUploadResults(shop: string, signal?: AbortSignal): Promise<JobRunResult> {
+  const counts = { checkedJobs: 0, completedJobs: 0, rejectedRows: 0 };
+  const errors: string[] = [];
+  try {
+    // Yahoo広告アプリケーションの設定を取得
+    const yahooAdApplication = await getYahooAdApplication(shop);
+    if(!yahooAdApplication) return { status: JOB_RUN_STATUS.SKIPPED, error: "Yahoo Ads application is not configured" };
+
+    // 処理結果が未確定のアップロードジョブを取得
+    const since = new Date(Date.now() - CHECK_PERIOD_DAYS * 24 * 60 * 60 * 1000);
+    const uploadJobs = await db.uploadJob.findMany({
+      where: {
+        shop:      shop,
+        uploadId:  { not: null },
+        createdAt: { gte: since },
+        OR: [
+          { processStatus: null },
+          { processStatus: UPLOAD_PROCESS_STATUS.IN_PROGRESS },
+        ],
+      },
+      include: { yahooAdAccount: true },
+      orderBy: { createdAt: 'asc' },
+    });
+    if(!uploadJobs.length) {
+      console.log("No upload jobs to check");
+      return toJobRunResult(counts, errors);
+    }
+
+    // アクセストークンを取得（有効期限が近い場合のみ更新。接続切れの場合は処理しない）
+    const accessToken = await getValidYahooAdToken(yahooAdApplication);
+    if(!accessToken) return { status: JOB_RUN_STATUS.FAILED, error: "Yahoo Ads is not connected" };
+
+    for(const uploadJob of uploadJobs) {
+      // シャットダウン中やロックを失った場合は、残りのジョブを次回の実行で確認する
+      const stop = stopReason(signal);
+      if(stop) {
+        errors.push(`Stopped for ${stop}, the remaining jobs are left for the next run`);
+        break;
+      }
+      // アカウント設定が削除されたジョブは確認できないためスキップ
+      if(!uploadJob.yahooAdAccount) continue;
+
+      const type = uploadJob.type as EndpointKey;
+      const headers = buildHeaders(uploadJob.yahooAdAccount.accountId, accessToken);
+
+      try {
+        // Yahoo広告側の処理ステータスを取得
+        const res = await requestYahoo(API.ENDPOINT[type] + API.VERSION + API.CSV_GET_PATH, {
+          method: "POST",
+          headers: headers,
+          body: JSON.stringify({
+            accountId: Number(uploadJob.childAccountId),
+            uploadIds: [Number(uploadJob.uploadId)],
+          }),
+        }, { path: API.CSV_GET_PATH, idempotent: true });
+        const body = await res.json();
+        if (body?.errors?.length) {
+          console.error(`checkUploadResults error: [${res.status}] ${JSON.stringify(body?.errors ?? body)}`);
+          await recordYahooApiError(shop, `${API.CSV_GET_PATH} [${res.status}] ${JSON.stringify(body?.errors ?? body)}`);
+          errors.push(`${API.CSV_GET_PATH} [${res.status}] ${uploadJob.fileName}`);
+          continue;
+        }
+
+        const processStatus: string | undefined = body?.rval?.values?.[0]?.offlineConversion?.processStatus;
+        if (!processStatus) continue;
+        counts.checkedJobs++;
+
+        // 処理中の場合は、確認した日時のみ記録して次回の実行で確認し直す
+        const updateJob = db.uploadJob.update({
+          where: { id: uploadJob.id },
+          data:  { processStatus: processStatus, checkedAt: new Date() },
+        });
+        if (processStatus === UPLOAD_PROCESS_STATUS.IN_PROGRESS) {
+          await updateJob;
+          continue;
+        }
+
+        // 処理が確定したステータスは、行への反映と同じトランザクションで保存する
+        // （エラーファイルの取得に失敗した場合は、ステータスを保存せずに次回の実行で確認し直す）
+
+        // 全行が取り込まれた
+        if (processStatus === UPLOAD_PROCESS_STATUS.COMPLETED) {
+          await db.$transaction([
+            updateJob,
+            ...updateJobRows(uploadJob.id,
+              { status: CONVERSION_STATUS.UPLOADED },
+              { status: CONVERSION_STATUS.ACCEPTED, statusReason: null },
+            ),
+          ]);
+          counts.completedJobs++;
+          console.log(`Upload accepted by Yahoo Ads: ${uploadJob.fileName}`);
+          continue;
+        }
+
+        // Yahoo広告側のシステムエラーは再送対象に戻す
+        if (processStatus === UPLOAD_PROCESS_STATUS.SYSTEM_ERROR) {
+          await db.$transaction([
+            updateJob,
+            ...updateJobRows(uploadJob.id,
+              { status: CONVERSION_STATUS.UPLOADED },
+              { status: CONVERSION_STATUS.PENDING, statusReason: processStatus },
+            ),
+          ]);
+          counts.completedJobs++;
+          console.error(`checkUploadResults error: ${uploadJob.fileName} was not processed (${processStatus})`);
+          errors.push(`${uploadJob.fileName} was not processed (${processStatus})`);
+          continue;
+        }
+
+        // エラーファイルを取得し、行ごとのエラーを反映
+        const errorFileRes = await requestYahoo(API.ENDPOINT[type] + API.VERSION + API.CSV_UPLOAD_ERROR_FILE_PATH, {
+          method: "POST",
+          headers: headers,
+          body: JSON.stringify({
+            accountId: Number(uploadJob.childAccountId),
+            uploadId:  Number(uploadJob.uploadId),
+          }),
+        }, { path: API.CSV_UPLOAD_ERROR_FILE_PATH, idempotent: true });
+        const reasons = parseUploadErrorFile(new Uint8Array(await errorFileRes.arrayBuffer()));
+
+        await db.$transaction([
+          updateJob,
+          ...[...reasons].flatMap(([yclid, reason]) =>
+            updateJobRows(uploadJob.id,
+              { yclid: yclid },
+              { status: CONVERSION_STATUS.REJECTED, statusReason: reason },
+            )
+          ),
+          // ファイル全体がエラーで行ごとの理由が得られない場合は、全行を拒否扱いにする
+          ...updateJobRows(uploadJob.id,
+            { status: CONVERSION_STATUS.UPLOADED },
+            processStatus === UPLOAD_PROCESS_STATUS.ERROR && !reasons.size ?
+              { status: CONVERSION_STATUS.REJECTED, statusReason: processStatus } :
+              { status: CONVERSION_STATUS.ACCEPTED, statusReason: null },
+          ),
+        ]);
+        counts.completedJobs++;
+        console.error(`checkUploadResults error: ${reasons.size} rows rejected by Yahoo Ads in ${uploadJob.fileName}`);
+        counts.rejectedRows += reasons.size;
+      } catch (error) {
+        console.error('checkUploadResults error:', error);
+        if (error instanceof YahooApiError) {
+          // 再試行しても失敗したジョブは、次回の実行で確認し直す
+          await recordYahooApiError(shop, error.message);
+          errors.push(`${error.path} [${error.status}] ${uploadJob.fileName}`);
+          continue;
+        }
+        // エラーファイルを解析できなかった場合なども、ステータスを保存していないため次回の実行で確認し直す
+        errors.push(`${String(error)}: ${uploadJob.fileName}`);
+      }
+    }
+  } catch (error) {
+    console.error('checkUploadResults error:', error);
+    errors.push(String(error));
+  }
+  return toJobRunResult(counts, errors);
+}
@@ -1,6 +1,7 @@
 // SPDX-License-Identifier: MIT
 
 import db from "../../db.server";
+import { toJobRunResult, type JobRunResult } from "../../utils/job_run.server";
 
 /**
  * 1日以上経過したpixel nonceレコードをデータベースから削除する
@@ -8,7 +9,7 @@ import db from "../../db.server";
  * この関数は、セキュリティ上の理由で古いnonceレコードを定期的にクリーンアップするために使用されます。
  * nonceは一度使用されると無効になるため、1日以上経過したレコードは不要です。
  * 
- * @returns Promise<void> - 処理完了時に解決されるPromise
+ * @returns Promise<JobRunResult> - 実行結果（削除したnonceの件数）
  * 
  * @example
  * ```typescript
@@ -16,9 +17,11 @@ import db from "../../db.server";
  * await cleanUpPixelNonce();
  * ```
  */
-export default async function cleanUpPixelNonce() {
+export default async function cleanUpPixelNonce(): Promise<JobRunResult> {
   const now = new Date();
   const expiredAt = new Date(now.getTime() - 1 * 24 * 60 * 60 * 1000);
+  const counts = { nonces: 0 };
+  const errors: string[] = [];
 
   try {
     const deletedRecords = await db.pixelNonce.deleteMany({
@@ -28,6 +31,7 @@ export default async function cleanUpPixelNonce() {
         }
       }
     });
+    counts.nonces = deletedRecords.count;
     if(deletedRecords?.count) {
       console.log("Cleared old Web Pixel nounces");
     } else {
@@ -35,7 +39,8 @@ export default async function cleanUpPixelNonce() {
     }
   } catch(error) {
     console.error("cleanUpPixelNonce error:", error);
+    errors.push(String(error));
   }
 
-  return;
+  return toJobRunResult(counts, errors);
 }
\ No newline at end of file
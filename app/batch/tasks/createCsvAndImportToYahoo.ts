@@ -1,180 +1,427 @@
 // SPDX-License-Identifier: MIT
 
 import db from "../../db.server";
-import { stringify } from 'csv-stringify/sync';
-import iconv from 'iconv-lite';
-import { formatInTimeZone } from "date-fns-tz";
-import { API, type EndpointKey, YCLID_PREFIX } from "../../constants";
-import { getYahooAdToken } from "../../utils/get_yahoo_ad_token.server";
-import { CSV_FORMAT } from "../../constants";
+import { API, type EndpointKey, CONVERSION_STATUS, JOB_RUN_STATUS, UPLOAD_RECOVERY } from "../../constants";
+import { getValidYahooAdToken } from "../../utils/get_yahoo_ad_token.server";
+import { excludeRecheckedOrders } from "../../utils/order_recheck.server";
+import { routePendingConversions } from "../../utils/conversion_routing.server";
+import { excludeOrphanedAdjustments } from "../../utils/conversion_adjustment.server";
+import { recordYahooApiError } from "../../utils/yahoo_connection.server";
+import { requestYahoo, YahooApiError, isUnprocessedYahooApiError } from "../../utils/yahoo_http_client.server";
+import { getUploadPause, recordUploadFailure, recordUploadSuccess } from "../../utils/yahoo_circuit_breaker.server";
+import { getOfflineConversionUploads } from "../../utils/yahoo_ads_api.server";
+import { stopReason } from "../../utils/shutdown.server";
+import { toJobRunResult, type JobRunResult } from "../../utils/job_run.server";
+import {
+  findPendingCsvItems,
+  splitConversionsIntoChunks,
+  toConversionCsvRows,
+  encodeConversionCsv,
+  createCsvFileName,
+  type ConversionCsvItem,
+} from "../../utils/yahoo_conversion_csv.server";
 import { getYahooAdAccounts } from "../../models/YahooAdAccount.server";
 import { getYahooAdApplication } from "../../models/YahooAdApplication.server";
+import type { YahooAdAccount } from "@prisma/client";
 
 /**
- * Yahoo広告アカウントのコンバージョンデータをCSVファイルに変換してYahoo広告APIにアップロードする
+ * アップロードジョブに紐付くコンバージョンと価値の調整のステータスを更新するクエリを生成する
+ *
+ * @param uploadJobId - アップロードジョブID
+ * @param status - 更新対象のステータス（省略時は全て）
+ * @param data - 更新内容
+ * @returns トランザクションで実行するクエリ
+ */
+function updateJobRows(uploadJobId: number, status: string | undefined, data: { status: string, statusReason?: string | null }) {
+  return [
+    db.yahooConversion.updateMany({ where: { uploadJobId, status }, data }),
+    db.conversionAdjustment.updateMany({ where: { uploadJobId, status }, data }),
+  ];
+}
+
+/**
+ * アカウントへのアップロードのうち、途中でプロセスが終了して結果が記録されなかったものを復旧する
+ *
+ * アップロード中のまま残ったジョブについて、Yahoo広告が受け付けたかをファイル名で確認し、
+ * 受け付けていた場合は送信済み（処理結果はcheckUploadResultsで確認）に、
+ * 受け付けていなかった場合は未送信に戻して、次のアップロードで送信します。
+ * 同じ行を二重に送信しないように、確認できなかった場合や、ファイルが見つからなくても
+ * アップロードからUPLOAD_RECOVERY.NOT_FOUND_GRACE_MINUTESが経過していない場合（一覧への反映の遅れ）は、
+ * アップロード中のまま次回の実行で確認し直します。
+ *
+ * @param yahooAdAccount - アップロード先のYahoo広告アカウント
+ * @param accessToken - アクセストークン
+ * @returns 復旧できなかった場合はその理由、復旧した（または復旧の必要がない）場合はnull
+ */
+async function recoverInterruptedUploads(yahooAdAccount: YahooAdAccount, accessToken: string): Promise<string | null> {
+  // ジョブのロックにより、同じタスクの他の実行がアップロード中のジョブはない
+  const uploadJobs = await db.uploadJob.findMany({
+    where:   { yahooAdAccountId: yahooAdAccount.id, finishedAt: null },
+    orderBy: { createdAt: 'asc' },
+  });
+  if (!uploadJobs.length) return null;
+
+  let uploads: Awaited<ReturnType<typeof getOfflineConversionUploads>>;
+  try {
+    uploads = await getOfflineConversionUploads(
+      yahooAdAccount.shop, yahooAdAccount.type as EndpointKey, yahooAdAccount.accountId, yahooAdAccount.childAccountId, accessToken,
+    );
+  } catch (error) {
+    console.error('createCsvAndImportToYahoo error: failed to check interrupted uploads:', error);
+    return `Failed to check ${uploadJobs.length} interrupted uploads: ${yahooAdAccount.type}: ${String(error)}`;
+  }
+
+  const notFoundBefore = new Date(Date.now() - UPLOAD_RECOVERY.NOT_FOUND_GRACE_MINUTES * 60 * 1000);
+  for (const uploadJob of uploadJobs) {
+    const upload = uploads.find(u => u.uploadFileName === uploadJob.fileName);
+    if (!upload && uploadJob.createdAt > notFoundBefore) {
+      console.log(`Interrupted upload is not listed yet, checking again in the next run: ${uploadJob.fileName}`);
+      continue;
+    }
+    await db.$transaction([
+      db.uploadJob.update({
+        where: { id: uploadJob.id },
+        data:  upload ?
+          { uploadId: upload.uploadId, finishedAt: new Date() } :
+          { errors: "interrupted before the upload was accepted", finishedAt: new Date() },
+      }),
+      ...updateJobRows(uploadJob.id, CONVERSION_STATUS.UPLOADING, {
+        status: upload ? CONVERSION_STATUS.UPLOADED : CONVERSION_STATUS.PENDING,
+      }),
+    ]);
+    console.log(`Recovered interrupted upload (${upload ? "accepted" : "not accepted"}): ${uploadJob.fileName}`);
+  }
+  return null;
+}
+
+/**
+ * アカウントが削除された、またはジョブが削除されたために、アップロード中のまま復旧できなくなった送信対象を未送信に戻す
+ *
+ * recoverInterruptedUploadsはアカウントごとに復旧するため、アカウントが削除された場合（ジョブのアカウントはnullになる）や、
+ * 有効期限切れでジョブが削除された場合は、送信対象がアップロード中のまま残ります。
+ * アカウントがないとYahoo広告が受け付けたかを確認できないため、振り分けを解除して未送信に戻し、現在の設定で送信し直します。
+ *
+ * @param shop - ショップのドメイン
+ */
+async function recoverOrphanedUploads(shop: string): Promise<void> {
+  // ジョブのロックにより、同じタスクの他の実行がアップロード中のジョブはない
+  const uploadJobs = await db.uploadJob.findMany({
+    where:  { shop: shop, yahooAdAccountId: null, finishedAt: null },
+    select: { id: true },
+  });
+  const uploadJobIds = uploadJobs.map(uploadJob => uploadJob.id);
+
+  // ジョブが削除された送信対象（uploadJobIdがnull）も対象にする
+  const orphaned = { OR: [{ uploadJobId: { in: uploadJobIds } }, { uploadJobId: null }], status: CONVERSION_STATUS.UPLOADING };
+  const [, conversions, adjustments] = await db.$transaction([
+    db.uploadJob.updateMany({
+      where: { id: { in: uploadJobIds } },
+      data:  { errors: "ad account was deleted before the upload was recovered", finishedAt: new Date() },
+    }),
+    db.yahooConversion.updateMany({
+      where: { shop: shop, ...orphaned },
+      data:  { status: CONVERSION_STATUS.PENDING, yahooAdAccountId: null, conversionTitle: null },
+    }),
+    db.conversionAdjustment.updateMany({
+      where: { conversion: { shop: shop }, ...orphaned },
+      data:  { status: CONVERSION_STATUS.PENDING },
+    }),
+  ]);
+  if (conversions.count || adjustments.count) {
+    console.log(`Reset ${conversions.count} conversions and ${adjustments.count} adjustments of orphaned uploads to pending`);
+  }
+}
+
+/**
+ * 送信対象（コンバージョンと価値の調整）をCSVファイルにしてYahoo広告APIにアップロードする
+ *
+ * 送信内容をアップロードジョブとして保存し、アップロード結果をジョブに記録します。
+ * アップロード中は対象のコンバージョンと価値の調整をアップロード中ステータスにし、
+ * 成功した場合は送信済みステータスに、受け付けられていないことが確実な失敗の場合は未送信ステータスに戻します。
+ * 受け付けられたかどうか分からない失敗の場合や、アップロード中にプロセスが終了した場合は、
+ * 次回の実行でrecoverInterruptedUploadsが復旧します。
+ *
+ * @param yahooAdAccount - アップロード先のYahoo広告アカウント
+ * @param accessToken - アクセストークン
+ * @param records - アップロードする送信対象
+ * @param csvFileName - アップロードするCSVファイル名
+ * @param chunk - 分割したファイルのうち何番目か（1始まり）と分割数
+ * @returns アップロードに失敗した場合はその理由、成功した場合はnull
+ */
+async function uploadCsvToYahoo(
+  yahooAdAccount: YahooAdAccount,
+  accessToken: string,
+  records: ConversionCsvItem[],
+  csvFileName: string,
+  chunk = { index: 1, count: 1 }
+): Promise<string | null> {
+  const type = yahooAdAccount.type as EndpointKey;
+
+  // コンバージョンデータをCSVファイル（Shift_JISエンコーディング）に変換
+  const rows    = toConversionCsvRows(yahooAdAccount, records);
+  const csv     = encodeConversionCsv(rows);
+  const csvBlob = new Blob([csv], { type: 'text/csv' });
+
+  // FormDataを作成してCSVファイルを添付
+  const formData = new FormData();
+  formData.append('file', csvBlob, csvFileName);
+
+  // 送信内容をアップロードジョブとして保存し、送信対象を紐付けてアップロード中にする
+  const uploadJob = await db.uploadJob.create({
+    data: {
+      shop:             yahooAdAccount.shop,
+      yahooAdAccountId: yahooAdAccount.id,
+      type:             type,
+      childAccountId:   yahooAdAccount.childAccountId,
+      fileName:         csvFileName,
+      chunkIndex:       chunk.index,
+      chunkCount:       chunk.count,
+      rowCount:         rows.length,
+      content:          csv,
+    }
+  });
+  const conversionIds = records.flatMap(r => r.kind === "conversion" ? [r.id] : []);
+  const adjustmentIds = records.flatMap(r => r.kind === "adjustment" ? [r.id] : []);
+  await db.$transaction([
+    db.yahooConversion.updateMany({
+      where: { id: { in: conversionIds } },
+      data:  { uploadJobId: uploadJob.id, status: CONVERSION_STATUS.UPLOADING },
+    }),
+    db.conversionAdjustment.updateMany({
+      where: { id: { in: adjustmentIds } },
+      data:  { uploadJobId: uploadJob.id, status: CONVERSION_STATUS.UPLOADING },
+    }),
+  ]);
+
+  // Yahoo広告APIのリクエストURLとパラメータを構築
+  const request_query = new URLSearchParams({
+    accountId: yahooAdAccount.childAccountId,
+    uploadType: "NEW",
+    uploadFileName: csvFileName
+  });
+
+  const request_url =
+    API.ENDPOINT[type] +
+    API.VERSION + 
+    API.CSV_UPLOAD_PATH +
+    "?" +
+    request_query.toString();
+
+  // リクエストヘッダーを設定
+  const request_headers = {
+    "x-z-base-account-id": yahooAdAccount.accountId,
+    "Authorization": "Bearer " + accessToken
+  }
+
+  const request_option = {
+      method: "POST", 
+      headers: request_headers,
+      body: formData
+  };
+
+  // Yahoo広告APIにCSVファイルをアップロード
+  // 処理されたかどうか分からない失敗で再送すると二重計上になるため、再送するのは429と503のみ
+  try {
+    const res = await requestYahoo(request_url, request_option, { path: API.CSV_UPLOAD_PATH, idempotent: false });
+
+    const isJson = (res.headers.get("content-type") || "").includes("application/json");
+    const body = isJson ? await res.json() : await res.text();
+
+    const uploadId = isJson && body?.rval?.values?.[0]?.offlineConversion?.uploadId != null ?
+                     String(body.rval.values[0].offlineConversion.uploadId) : null;
+    const errors   = isJson && body?.errors?.length ? JSON.stringify(body.errors) : null;
+
+    if (errors) {
+      await recordYahooApiError(yahooAdAccount.shop, `${API.CSV_UPLOAD_PATH} [${res.status}] ${errors}`);
+      body.errors.forEach((err : any ) => {
+        console.error(`createCsvAndImportToYahoo error: [${err.code}] ${err.message}`);
+        err.details?.forEach((d : any) => {
+          console.error(`createCsvAndImportToYahoo error: [${d.requestKey}] ${d.requestValue}`);
+        });
+      });
+    }
+
+    // アップロードIDがない場合は、処理結果を確認できないため送信済みにしない
+    if (!uploadId) {
+      const message = `${API.CSV_UPLOAD_PATH} [${res.status}] ${errors ?? "no uploadId in the response"}`;
+      console.error(`createCsvAndImportToYahoo error: ${message}`);
+
+      if (errors) {
+        // エラーが返された場合は受け付けられていないため、理由を付けて拒否扱いにする（同じ内容で再送しても受け付けられない）
+        const reason = body.errors.map((err: any) => `[${err.code}] ${err.message}`).join(" / ");
+        await db.$transaction([
+          db.uploadJob.update({
+            where: { id: uploadJob.id },
+            data:  { httpStatus: res.status, errors: errors, finishedAt: new Date() },
+          }),
+          ...updateJobRows(uploadJob.id, CONVERSION_STATUS.UPLOADING, { status: CONVERSION_STATUS.REJECTED, statusReason: reason }),
+        ]);
+      } else {
+        // 受け付けられたかどうか分からないため、アップロード中のまま次回の実行でアップロードの一覧と照合する
+        await db.uploadJob.update({ where: { id: uploadJob.id }, data: { httpStatus: res.status } });
+      }
+      return message;
+    }
+
+    // アップロード結果をジョブに記録し、送信済みステータスに更新（取り込み結果はcheckUploadResultsで反映）
+    await db.$transaction([
+      db.uploadJob.update({
+        where: { id: uploadJob.id },
+        data:  { httpStatus: res.status, uploadId: uploadId, errors: errors, finishedAt: new Date() },
+      }),
+      ...updateJobRows(uploadJob.id, CONVERSION_STATUS.UPLOADING, { status: CONVERSION_STATUS.UPLOADED }),
+    ]);
+  } catch (error) {
+    console.error('createCsvAndImportToYahoo error:', error);
+    const message = error instanceof YahooApiError ? error.message : `${API.CSV_UPLOAD_PATH} ${String(error)}`;
+    await recordYahooApiError(yahooAdAccount.shop, message);
+    const data = {
+      httpStatus: error instanceof YahooApiError && error.status ? error.status : null,
+      errors:     error instanceof YahooApiError ? error.body : String(error),
+    };
+
+    // 受け付けられていないことが確実な場合のみ、行を未送信に戻して次回の実行で再送する
+    if (error instanceof YahooApiError && isUnprocessedYahooApiError(error)) {
+      await db.$transaction([
+        db.uploadJob.update({ where: { id: uploadJob.id }, data: { ...data, finishedAt: new Date() } }),
+        ...updateJobRows(uploadJob.id, CONVERSION_STATUS.UPLOADING, { status: CONVERSION_STATUS.PENDING }),
+      ]);
+      return message;
+    }
+
+    // タイムアウトや5xxなど、受け付けられたかどうか分からない場合は、アップロード中のまま残し、
+    // 次回の実行でrecoverInterruptedUploadsがアップロードの一覧と照合する
+    await db.uploadJob.update({ where: { id: uploadJob.id }, data: data });
+    return message;
+  }
+
+  console.log(`CSV uploaded to Yahoo Ads: ${csvFileName}`);
+  return null;
+}
+
+/**
+ * ショップのYahoo広告アカウントのコンバージョンデータをCSVファイルに変換してYahoo広告APIにアップロードする
  * 
  * この関数は以下の処理を実行します：
- * 1. Yahoo広告アプリケーションの設定を取得
- * 2. アクセストークンを更新（必要に応じて）
- * 3. 各Yahoo広告アカウントに対して：
- *    - 未処理のコンバージョンレコードを取得
- *    - コンバージョンデータをCSV形式に変換
- *    - Yahoo広告APIにCSVファイルをアップロード
- *    - 処理済みフラグを更新
+ * 1. ショップのYahoo広告アプリケーションの設定を取得
+ * 2. アカウントやジョブが削除されて、アップロード中のまま復旧できなくなった送信対象を未送信に戻す
+ * 3. 有効なアクセストークンを取得（有効期限が近い場合のみ更新し、接続切れの場合は処理しない）
+ * 4. 振り分け先が決まっていない未送信のコンバージョンを、振り分けルールに従ってアカウントとコンバージョン名に振り分け、
+ *    元のコンバージョンが送信対象外・拒否・送信不可になった未送信の価値の調整を送信対象外にする
+ * 5. 各Yahoo広告アカウントに対して：
+ *    - アカウントに振り分けられた未送信のコンバージョンと価値の調整（キャンセル・返金による減額）を古い順に取得
+ *      （前回以前の実行で送信できなかったものも、有効期間内であれば対象とする）
+ *    - 保留期間が設定されている場合は、保留期間を過ぎたコンバージョンの注文を再確認し、
+ *      キャンセル・全額返金・テスト注文を送信対象外にする
+ *    - 1ファイルあたりの行数・バイト数の上限に収まるように分割し、古いものから順にアップロード
+ *    - 分割したファイルごとに成否を記録し、失敗したファイルの行のみを次回の実行に持ち越す
+ *    - 連続してアップロードに失敗したアカウントは、一時停止して理由を保存し、一時停止中はアップロードしない
+ *    - 前回の実行でアップロード中に中断されたファイルは、Yahoo広告が受け付けたかを確認して復旧する
  * 
- * @returns {Promise<void>} 処理完了時に解決されるPromise
+ * シャットダウン中やジョブのロックを失った場合は、次のファイルをアップロードせずに終了します（残りの行は次回の実行で送信）。
+ * 
+ * @param shop - ショップのドメイン
+ * @param signal - 実行を中断するシグナル（ジョブのロックを失った場合に中断される）
+ * @returns {Promise<JobRunResult>} 実行結果（アップロードしたファイル数・行数と、失敗したファイル数）
  * 
  * @example
  * ```typescript
- * await createCsvAndImportToYahoo();
+ * await createCsvAndImportToYahoo(shop);
  * ```
  */
-export default async function createCsvAndImportToYahoo() {
+export default async function createCsvAndImportToYahoo(shop: string, signal?: AbortSignal): Promise<JobRunResult> {
+  const counts = { uploadedFiles: 0, uploadedRows: 0, failedFiles: 0 };
+  const errors: string[] = [];
   try {
     // Yahoo広告アプリケーションの設定を取得
-    const yahooAdApplication = await getYahooAdApplication();
-    if(!yahooAdApplication) return;
+    const yahooAdApplication = await getYahooAdApplication(shop);
+    if(!yahooAdApplication) return { status: JOB_RUN_STATUS.SKIPPED, error: "Yahoo Ads application is not configured" };
+
+    // アカウントが削除されたアップロードの送信対象を未送信に戻す（全てのアカウントが削除された場合も戻す）
+    await recoverOrphanedUploads(shop);
     
-    // 全てのYahoo広告アカウントを取得
-    const yahooAdAccounts = await getYahooAdAccounts();
-    if(!yahooAdAccounts) return;
+    // ショップの全てのYahoo広告アカウントを取得
+    const yahooAdAccounts = await getYahooAdAccounts(shop);
+    if(!yahooAdAccounts) return { status: JOB_RUN_STATUS.SKIPPED, error: "Yahoo Ads accounts are not configured" };
         
-    // アクセストークンを更新（必要に応じて）
-    const accessToken = await getYahooAdToken(yahooAdApplication, true);
-    if(!accessToken) return;
+    // アクセストークンを取得（有効期限が近い場合のみ更新。接続切れの場合は処理しない）
+    const accessToken = await getValidYahooAdToken(yahooAdApplication);
+    if(!accessToken) return { status: JOB_RUN_STATUS.FAILED, error: "Yahoo Ads is not connected" };
 
-    await db.yahooAdApplication.update({
-      where: { clientId: yahooAdApplication.clientId },
-      data:  { accessToken: accessToken },
-    });
+    // 未送信のコンバージョンをアカウントとコンバージョン名に振り分け
+    await routePendingConversions(shop);
+
+    // 元のコンバージョンが送信されない価値の調整を、送信対象外にする
+    await excludeOrphanedAdjustments(shop);
 
     // 各Yahoo広告アカウントに対して処理を実行
     for(const yahooAdAccount of yahooAdAccounts){
+      const stop = stopReason(signal);
+      if(stop) {
+        errors.push(`Stopped for ${stop}, the remaining accounts are left for the next run`);
+        break;
+      }
       if(!yahooAdAccount.type || !yahooAdAccount.accountId || !yahooAdAccount.childAccountId || !yahooAdAccount.conversionTitle) continue;
 
       const type = yahooAdAccount.type as EndpointKey;
-      const now = new Date();
-      // 有効期限を計算（duration日分）
-      const expiredAt = new Date(now.getTime() - yahooAdAccount.duration * 24 * 60 * 60 * 1000);
-      // 1時間前の時刻を計算
-      const oneHourAgo = new Date(now.getTime() - 1 * 60 * 60 * 1000);
-
-      // 未処理のコンバージョンレコードを取得
-      const records = await db.yahooConversion.findMany({
-        where: {
-          yclid: {
-            startsWith: YCLID_PREFIX[type]
-          },
-          visitedAt: {
-            gte: expiredAt,          
-            lt : now
-          },
-          isProcessed: {
-            equals: false
-          },
-          conversionedAt: {
-            gte: oneHourAgo,
-            lt : now
-          }
-        }
-      });
-      if(!records?.length) {
-        console.log(`No records to upload to Yahoo Ads: ${yahooAdAccount.type}`);
+
+      // 失敗が続いているアカウントは、一時停止が明けるまでアップロードしない
+      const pause = getUploadPause(yahooAdAccount);
+      if(pause) {
+        const message = `Uploads paused until ${pause.until.toISOString()}: ${yahooAdAccount.type}: ${pause.reason}`;
+        console.error(`createCsvAndImportToYahoo error: ${message}`);
+        errors.push(message);
         continue;
       }
 
-      const conversionTitle = yahooAdAccount?.conversionTitle;
-
-      // コンバージョンデータをCSV形式に変換
-      const rows = type === "search" ? 
-      records.map(record => ({
-        "YCLID":                  record.yclid,
-        "コンバージョン名":          conversionTitle,
-        "コンバージョン発生日時":     formatInTimeZone(new Date(record.conversionedAt), 'Asia/Tokyo' , "yyyyMMdd HHmmss"),
-        "1コンバージョンあたりの価値": record.amount,
-        "通貨コード":               CSV_FORMAT.CURRENCY
-      }))
-      :
-      records.map(record => ({
-        "YCLID":                  record.yclid,
-        "コンバージョン名":          conversionTitle,
-        "コンバージョン発生日時":     formatInTimeZone(new Date(record.conversionedAt), 'Asia/Tokyo' , "yyyyMMdd HHmmss"),
-        "1コンバージョンあたりの価値": record.amount
-      }));
-
-      // CSVファイルを生成（Shift_JISエンコーディング）
-      const csvUtf8 = stringify(rows, { header: true });
-      const csv     = iconv.encode(csvUtf8, 'Shift_JIS');
-      const csvBlob = new Blob([csv], { type: 'text/csv' });
-
-      // FormDataを作成してCSVファイルを添付
-      const formData = new FormData();
-      const csvFileName = 
-        "shopify_cv_" + type + "_" +
-        formatInTimeZone(new Date(), 'Asia/Tokyo' , "yyyyMMdd_HHmmss") +
-        ".csv"
-      formData.append('file', csvBlob, csvFileName);
-
-      // Yahoo広告APIのリクエストURLとパラメータを構築
-      const request_query = new URLSearchParams({
-        accountId: yahooAdAccount.childAccountId,
-        uploadType: "NEW",
-        uploadFileName: csvFileName
-      });
+      // 前回の実行で中断されたアップロードを復旧する（中断されたファイルの行は、復旧するまで送信しない）
+      const recoveryError = await recoverInterruptedUploads(yahooAdAccount, accessToken);
+      if(recoveryError) errors.push(recoveryError);
 
-      const request_url =
-        API.ENDPOINT[type] +
-        API.VERSION + 
-        API.CSV_UPLOAD_PATH +
-        "?" +
-        request_query.toString();
-
-      // リクエストヘッダーを設定
-      const request_headers = {
-        "x-z-base-account-id": yahooAdAccount.accountId,
-        "Authorization": "Bearer " + yahooAdApplication.accessToken
+      // 未送信のコンバージョンと価値の調整を古い順に取得し、
+      // 保留期間後の注文の再確認で送信すべきでない注文を取り除く
+      const { records, error: recheckError } = await excludeRecheckedOrders(yahooAdAccount, await findPendingCsvItems(yahooAdAccount));
+      if(recheckError) errors.push(recheckError);
+      if(!records?.length) {
+        console.log(`No records to upload to Yahoo Ads: ${yahooAdAccount.type}`);
+        continue;
       }
 
-      const request_option = {
-          method: "POST", 
-          headers: request_headers,
-          body: formData
-      };
-
-      // Yahoo広告APIにCSVファイルをアップロード
-      try {
-        const res = await fetch(request_url, request_option);
-
-        const isJson = (res.headers.get("content-type") || "").includes("application/json");
-        const body = isJson ? await res.json() : await res.text();
-
-        if (!res.ok) {
-          console.error(`createCsvAndImportToYahoo error: [${res.status}] ${res.statusText}\n${body}`);
+      // 行数・バイト数の上限に収まるように分割してアップロード
+      // 失敗したファイルの行は未送信のまま残り、次回の実行で先頭から再送される
+      const chunks = splitConversionsIntoChunks(yahooAdAccount, records);
+      const now    = new Date();
+      let failedCount = 0;
+      for(const [i, chunk] of chunks.entries()) {
+        // シャットダウン中は、残りのファイルの行を未送信のまま次回の実行に持ち越す
+        const stop = stopReason(signal);
+        if(stop) {
+          errors.push(`Stopped for ${stop}, ${chunks.length - i}/${chunks.length} files are left for the next run: ${yahooAdAccount.type}`);
+          break;
+        }
+        const csvFileName = createCsvFileName(type, now, chunks.length > 1 ? String(i + 1) : "");
+        const chunkInfo   = { index: i + 1, count: chunks.length };
+        const uploadError = await uploadCsvToYahoo(yahooAdAccount, accessToken, chunk, csvFileName, chunkInfo);
+        if(!uploadError) {
+          counts.uploadedFiles++;
+          counts.uploadedRows += chunk.length;
+          await recordUploadSuccess(yahooAdAccount.id);
           continue;
-        } else {
-          if (isJson && body?.errors?.length) {
-            body.errors.forEach((err : any ) => {
-              console.error(`createCsvAndImportToYahoo error: [${err.code}] ${err.message}`);
-              err.details?.forEach((d : any) => {
-                console.error(`createCsvAndImportToYahoo error: [${d.requestKey}] ${d.requestValue}`);
-              });
-            });
-          }
         }
-      } catch (error) {
-        console.error('createCsvAndImportToYahoo error:', error);
-        continue;
+        failedCount++;
+        // 連続して失敗した場合は、残りのファイルもアップロードせずに一時停止する
+        if(await recordUploadFailure(yahooAdAccount, uploadError)) break;
+      }
+      if(failedCount) {
+        const message = `${failedCount}/${chunks.length} files failed to upload: ${yahooAdAccount.type}`;
+        console.error(`createCsvAndImportToYahoo error: ${message}`);
+        counts.failedFiles += failedCount;
+        errors.push(message);
       }
-
-      // 処理済みフラグを更新
-      await db.yahooConversion.updateMany({
-        where: { yclid: { in: records.map(r => r.yclid) } },
-        data:  { isProcessed: true },
-      });
-      console.log(`CSV uploaded to Yahoo Ads: ${csvFileName}`);
     }
   } catch (error) {
     console.error('createCsvAndImportToYahoo error:', error);
+    errors.push(String(error));
   }
-  return;
-}
\ No newline at end of file
+  return toJobRunResult(counts, errors);
+}
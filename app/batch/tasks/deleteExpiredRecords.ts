@@ -1,15 +1,17 @@
 // SPDX-License-Identifier: MIT
 
 import db from "../../db.server";
+import { toJobRunResult, type JobRunResult } from "../../utils/job_run.server";
 
 /**
  * 90日を経過したYahooコンバージョンデータを削除する関数
  * 
- * この関数は、visitedAtが90日前より古いYahooコンバージョンレコードを
- * データベースから削除します。データの古いレコードを定期的にクリーンアップし、
+ * この関数は、visitedAtが90日前より古いYahooコンバージョンレコードと、
+ * 作成から90日を経過したアップロードジョブ（送信したCSVファイルを含む）とバッチタスクの実行記録、
+ * 有効期限が切れたYahoo広告の認可リクエストをデータベースから削除します。データの古いレコードを定期的にクリーンアップし、
  * データベースの容量を管理するために使用されます。
  * 
- * @returns {Promise<void>} 削除処理の完了を表すPromise
+ * @returns {Promise<JobRunResult>} 実行結果（種類ごとの削除件数）
  * 
  * @example
  * ```typescript
@@ -18,11 +20,13 @@ import db from "../../db.server";
  * ```
  * 
  * @throws {Error} データベース操作中にエラーが発生した場合
- * エラーはコンソールにログ出力され、関数は正常に終了します
+ * エラーはコンソールにログ出力され、失敗として実行結果に含めます
  */
-export default async function deleteExpiredRecords(): Promise<void> {
+export default async function deleteExpiredRecords(): Promise<JobRunResult> {
   const now = new Date();
   const expiredAt = new Date(now.getTime() - 90 * 24 * 60 * 60 * 1000);
+  const counts = { conversions: 0, uploadJobs: 0, authorizations: 0, jobRuns: 0 };
+  const errors: string[] = [];
 
   try {
     const deletedRecords = await db.yahooConversion.deleteMany({
@@ -32,13 +36,51 @@ export default async function deleteExpiredRecords(): Promise<void> {
         }
       }
     });
+    counts.conversions = deletedRecords.count;
     if(deletedRecords?.count) {
       console.log("Deleted expired yahoo cv records");
     } else {
       console.log("There was nothing to delete expired yahoo cv records");
     }
+
+    const deletedUploadJobs = await db.uploadJob.deleteMany({
+      where: {
+        createdAt: {
+          lt : expiredAt
+        }
+      }
+    });
+    counts.uploadJobs = deletedUploadJobs.count;
+    if(deletedUploadJobs?.count) {
+      console.log("Deleted expired upload jobs");
+    }
+
+    const deletedAuthorizations = await db.yahooAuthorization.deleteMany({
+      where: {
+        expiresAt: {
+          lt : now
+        }
+      }
+    });
+    counts.authorizations = deletedAuthorizations.count;
+    if(deletedAuthorizations?.count) {
+      console.log("Deleted expired yahoo authorizations");
+    }
+
+    const deletedJobRuns = await db.jobRun.deleteMany({
+      where: {
+        startedAt: {
+          lt : expiredAt
+        }
+      }
+    });
+    counts.jobRuns = deletedJobRuns.count;
+    if(deletedJobRuns?.count) {
+      console.log("Deleted expired job runs");
+    }
   } catch(error) {
     console.error("deleteExpiredRecords error:", error);
+    errors.push(String(error));
   }
-  return;
+  return toJobRunResult(counts, errors);
 }
\ No newline at end of file
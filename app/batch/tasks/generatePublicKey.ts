@@ -3,34 +3,36 @@
 import { generateKeyPair, exportJWK, exportPKCS8 } from 'jose';
 import db from "../../db.server";
 import { apiVersion } from "../../shopify.server";
+import { getOfflineSession } from "../../models/Session.server";
 import { createAdminApiClient } from "@shopify/admin-api-client";
 import crypto from "node:crypto";
+import { JOB_RUN_STATUS } from "../../constants";
+import type { JobRunResult } from "../../utils/job_run.server";
 
 /**
  * 新しいRSA鍵ペアを生成し、Web Pixelの設定を更新する
  * 
  * この関数は以下の処理を実行します：
  * 1. RSA-OAEP-256アルゴリズムで2048ビットの鍵ペアを生成
- * 2. 公開鍵をJWK形式でエクスポートし、データベースに保存
- * 3. 古い鍵ペアを削除（最大3つまで保持）
+ * 2. 公開鍵をJWK形式でエクスポートし、ショップの鍵ペアとしてデータベースに保存
+ * 3. ショップの古い鍵ペアを削除（最大3つまで保持）
  * 4. Shopify Web Pixelの設定を更新して新しいJWKを設定
  * 
- * @returns {Promise<boolean>} 処理が成功した場合はtrue、失敗した場合はfalse
- * @throws {Error} Web Pixelが存在しない場合、またはPixel更新に失敗した場合
+ * 鍵ペアはショップごとに管理し、コンバージョンの受信時はキーIDからショップを特定します。
+ * 
+ * @param shop - ショップのドメイン
+ * @returns {Promise<JobRunResult>} 実行結果（作成・削除した鍵ペアの数）。
+ *   Web Pixelが存在しない場合やPixel更新に失敗した場合は、失敗の理由を含む
  * 
  * @example
  * ```typescript
- * try {
- *   const success = await generatePublicKey();
- *   if (success) {
- *     console.log('鍵ペアの生成とPixel更新が完了しました');
- *   }
- * } catch (error) {
- *   console.error('鍵ペア生成に失敗しました:', error);
+ * const result = await generatePublicKey(shop);
+ * if (result.status === JOB_RUN_STATUS.SUCCEEDED) {
+ *   console.log('鍵ペアの生成とPixel更新が完了しました');
  * }
  * ```
  */
-export default async function generatePublicKey(): Promise<boolean> {
+export default async function generatePublicKey(shop: string): Promise<JobRunResult> {
   // RSA-OAEP-256アルゴリズムで2048ビットの鍵ペアを生成
   const { publicKey, privateKey } = await generateKeyPair(
     'RSA-OAEP-256',
@@ -51,6 +53,7 @@ export default async function generatePublicKey(): Promise<boolean> {
   // データベースに保存する鍵ペア情報を構築
   const apiKeyPair = {
     kid:        kid,
+    shop:       shop,
     publicKey:  jwk,
     privateKey: await exportPKCS8(privateKey),
     createdAt:  new Date()
@@ -62,25 +65,28 @@ export default async function generatePublicKey(): Promise<boolean> {
 
     // 最新の鍵ペアを取得（作成日時順）
     const apiKeyPairs = await db.apiKeyPair.findMany({
+      where: { shop: shop },
       orderBy: [{ createdAt: 'desc' }],
       take: 3
     });
 
     // 最新の3つ以外の鍵ペアを削除
-    await db.apiKeyPair.deleteMany({
+    const deleted = await db.apiKeyPair.deleteMany({
       where: {
+        shop: shop,
         kid: { notIn: apiKeyPairs.map(akp => akp.kid) }
       }
     });
 
     // セッション情報を取得
-    const session = await db.session.findFirst();
+    const session = await getOfflineSession(shop);
+    if (!session) throw new Error(`Session not found: ${shop}`);
 
     // Shopify Admin APIクライアントを作成
     const admin = createAdminApiClient({
-      storeDomain: session!.shop,
+      storeDomain: session.shop,
       apiVersion,
-      accessToken: session!.accessToken,
+      accessToken: session.accessToken,
     });
 
     // Web PixelのIDを取得
@@ -115,9 +121,9 @@ export default async function generatePublicKey(): Promise<boolean> {
     }
 
     console.log("Web Pixel updated successfully");
+    return { status: JOB_RUN_STATUS.SUCCEEDED, counts: { createdKeys: 1, deletedKeys: deleted.count } };
   } catch(error) {
     console.error("generatePublicKey error:", error);
-    return false;
+    return { status: JOB_RUN_STATUS.FAILED, error: String(error) };
   }
-  return true;
 }
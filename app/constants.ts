@@ -1,13 +1,25 @@
 // SPDX-License-Identifier: MIT
 
+/**
+ * 環境変数で上書きされた設定値を取得する
+ * ローカルのYahoo広告APIシミュレーター（simulator/）に接続する場合などに使用します
+ *
+ * @param name - 環境変数名
+ * @param defaultValue - 環境変数が未設定の場合の値
+ * @returns 設定値
+ */
+function fromEnv(name: string, defaultValue: string): string {
+  return (typeof process !== "undefined" && process.env[name]) || defaultValue;
+}
+
 /**
  * Yahoo Ads OAuth認証に関する定数
  */
 export const AUTH = {
   /** APIバージョン */
   VERSION: "v1",
-  /** OAuth認証エンドポイント */
-  ENDPOINT: "https://biz-oauth.yahoo.co.jp/oauth/",
+  /** OAuth認証エンドポイント（YAHOO_AUTH_ENDPOINTで上書き可能） */
+  ENDPOINT: fromEnv("YAHOO_AUTH_ENDPOINT", "https://biz-oauth.yahoo.co.jp/oauth/"),
   /** 認可エンドポイントパス */
   AUTHORIZE_PATH: "/authorize",
   /** トークン取得エンドポイントパス */
@@ -21,9 +33,48 @@ export const AUTH = {
   /** リフレッシュトークングラントタイプ */
   REFRESH_GRANT_TYPE: "refresh_token",
   /** リダイレクトURI */
-  REDIRECT_URI: "/receive/code"
+  REDIRECT_URI: "/receive/code",
+  /** 認可リクエスト（state）の有効期間（分） */
+  STATE_EXPIRES_MINUTES: 10,
+  /** PKCEを使用するかどうか（YAHOO_OAUTH_PKCE=trueで有効） */
+  PKCE: fromEnv("YAHOO_OAUTH_PKCE", "false") === "true",
+  /** PKCEのコードチャレンジ方式 */
+  CODE_CHALLENGE_METHOD: "S256",
 } as const;
 
+/**
+ * Yahoo広告の認可に失敗した理由
+ * 認可後にアプリへ戻るときのクエリパラメータ（authorization_error）の値
+ */
+export const AUTHORIZATION_ERROR = {
+  /** 認可リクエストが見つからない */
+  NOT_FOUND: "not_found",
+  /** 認可リクエストの有効期限が切れている */
+  EXPIRED: "expired",
+  /** 認可リクエストが使用済み */
+  USED: "used",
+  /** 認可を開始したユーザーと異なる */
+  USER_MISMATCH: "user_mismatch",
+  /** Yahoo!ビジネスIDで認可されなかった */
+  DENIED: "denied",
+  /** アクセストークンを取得できなかった */
+  TOKEN_FAILED: "token_failed",
+} as const
+
+export type AuthorizationError = typeof AUTHORIZATION_ERROR[keyof typeof AUTHORIZATION_ERROR];
+
+/**
+ * Yahoo広告APIとの接続状態
+ */
+export const CONNECTION_STATUS = {
+  /** 未認可 */
+  NOT_CONNECTED: "not_connected",
+  /** 接続中 */
+  CONNECTED: "connected",
+  /** 接続切れ（リフレッシュトークンの失効などにより、再認可が必要） */
+  BROKEN: "broken",
+} as const
+
 /**
  * Yahoo Ads APIに関する定数
  */
@@ -32,13 +83,28 @@ export const API = {
   VERSION: "v17",
   /** APIエンドポイント */
   ENDPOINT: {
-    /** 検索広告APIエンドポイント */
-    search : "https://ads-search.yahooapis.jp/api/",
-    /** ディスプレイ広告APIエンドポイント */
-    display: "https://ads-display.yahooapis.jp/api/",
+    /** 検索広告APIエンドポイント（YAHOO_ADS_SEARCH_ENDPOINTで上書き可能） */
+    search : fromEnv("YAHOO_ADS_SEARCH_ENDPOINT", "https://ads-search.yahooapis.jp/api/"),
+    /** ディスプレイ広告APIエンドポイント（YAHOO_ADS_DISPLAY_ENDPOINTで上書き可能） */
+    display: fromEnv("YAHOO_ADS_DISPLAY_ENDPOINT", "https://ads-display.yahooapis.jp/api/"),
   } as const,
   /** CSVアップロードパス */
   CSV_UPLOAD_PATH: "/OfflineConversionService/upload",
+  /** アップロード状況取得パス */
+  CSV_GET_PATH: "/OfflineConversionService/get",
+  /** アップロードエラーファイル取得パス */
+  CSV_UPLOAD_ERROR_FILE_PATH: "/OfflineConversionService/getUploadErrorFile",
+  /** 配下のアカウント取得パス */
+  ACCOUNT_LINK_GET_PATH: "/AccountLinkService/get",
+  /** コンバージョン設定取得パス */
+  CONVERSION_TRACKER_GET_PATH: "/ConversionTrackerService/get",
+  /** 1回のget（一覧取得）で取得する最大件数 */
+  GET_PAGE_SIZE: 500,
+  /** オフラインコンバージョンのコンバージョン設定の種別（conversionTrackerType） */
+  OFFLINE_CONVERSION_TRACKER_TYPE: {
+    search : "IMPORT",
+    display: "OFFLINE_CONVERSION",
+  } as const,
 } as const;
 
 /**
@@ -46,6 +112,59 @@ export const API = {
  */
 export type EndpointKey = keyof typeof API.ENDPOINT;
 
+/**
+ * Yahoo広告APIの呼び出しに失敗した理由の分類
+ */
+export const YAHOO_API_ERROR_KIND = {
+  /** 認証エラー（アクセストークンやリフレッシュトークンの失効など。再試行しない） */
+  AUTH: "auth",
+  /** リクエスト数の上限（Retry-Afterの秒数またはバックオフの後に再試行） */
+  RATE_LIMIT: "rate_limit",
+  /** 一時的なエラー（5xx・タイムアウト・ネットワークエラー。バックオフの後に再試行） */
+  TRANSIENT: "transient",
+  /** 恒久的なエラー（リクエストの内容の誤りなど。再試行しない） */
+  PERMANENT: "permanent",
+} as const
+
+export type YahooApiErrorKind = typeof YAHOO_API_ERROR_KIND[keyof typeof YAHOO_API_ERROR_KIND];
+
+/**
+ * Yahoo広告APIの再試行に関する定数
+ */
+export const API_RETRY = {
+  /** 最大試行回数（初回を含む。YAHOO_API_MAX_ATTEMPTSで上書き可能） */
+  MAX_ATTEMPTS: Number(fromEnv("YAHOO_API_MAX_ATTEMPTS", "3")),
+  /** バックオフの基準の待ち時間（ミリ秒。YAHOO_API_RETRY_BASE_MSで上書き可能） */
+  BASE_DELAY_MS: Number(fromEnv("YAHOO_API_RETRY_BASE_MS", "1000")),
+  /** バックオフの最大の待ち時間（ミリ秒） */
+  MAX_DELAY_MS: 20_000,
+  /** 再試行するRetry-Afterの最大秒数（これより長い場合は次回の実行に持ち越す） */
+  MAX_RETRY_AFTER_SECONDS: 30,
+  /** 1回のリクエストのタイムアウト（ミリ秒） */
+  TIMEOUT_MS: 120_000,
+} as const
+
+/**
+ * アカウントごとのアップロードのサーキットブレーカーに関する定数
+ */
+export const UPLOAD_CIRCUIT_BREAKER = {
+  /** アップロードを一時停止する連続失敗回数 */
+  FAILURE_THRESHOLD: 3,
+  /** アップロードを一時停止する時間（分） */
+  PAUSE_MINUTES: 60,
+} as const
+
+/**
+ * 途中で中断されたアップロードの復旧に関する定数
+ */
+export const UPLOAD_RECOVERY = {
+  /**
+   * アップロードの一覧にファイルが見つからない場合に、受け付けられなかったとみなすまでの時間（分）
+   * 一覧への反映が遅れている場合に二重に送信しないように、経過するまではアップロード中のままにする
+   */
+  NOT_FOUND_GRACE_MINUTES: 60,
+} as const
+
 /**
  * YCLIDプレフィックス定数
  * YCLIDはYahoo広告のクリックIDを表す
@@ -64,3 +183,172 @@ export const CSV_FORMAT = {
   /** 通貨コード */
   CURRENCY: "JPY",
 } as const
+
+/**
+ * CSVアップロードに関する定数
+ */
+export const UPLOAD = {
+  /** Yahoo広告がコンバージョンを受け付ける期間（クリックからの日数） */
+  ACCEPTABLE_DAYS: 90,
+  /** 1ファイルあたりの最大行数（YAHOO_UPLOAD_MAX_ROWSで上書き可能） */
+  MAX_ROWS_PER_FILE: Number(fromEnv("YAHOO_UPLOAD_MAX_ROWS", "5000")),
+  /** 1ファイルあたりの最大バイト数（YAHOO_UPLOAD_MAX_BYTESで上書き可能） */
+  MAX_BYTES_PER_FILE: Number(fromEnv("YAHOO_UPLOAD_MAX_BYTES", String(5 * 1024 * 1024))),
+} as const
+
+/**
+ * Yahoo広告側のアップロード処理ステータス
+ * OfflineConversionService/getで返却されるprocessStatusの値
+ */
+export const UPLOAD_PROCESS_STATUS = {
+  /** 処理中 */
+  IN_PROGRESS: "IN_PROGRESS",
+  /** 全行の取り込みに成功 */
+  COMPLETED: "COMPLETED",
+  /** 一部の行でエラーが発生 */
+  COMPLETED_WITH_ERROR: "COMPLETED_WITH_ERROR",
+  /** ファイル全体が取り込めなかった */
+  ERROR: "ERROR",
+  /** Yahoo広告側のシステムエラー */
+  SYSTEM_ERROR: "SYSTEM_ERROR",
+} as const
+
+/**
+ * コンバージョンごとの送信ステータス
+ */
+export const CONVERSION_STATUS = {
+  /** 未送信 */
+  PENDING: "pending",
+  /** アップロード中（中断された場合は、次回の実行でYahoo広告が受け付けたかを確認して復旧する） */
+  UPLOADING: "uploading",
+  /** 送信済み（Yahoo広告側の処理結果待ち） */
+  UPLOADED: "uploaded",
+  /** Yahoo広告に取り込まれた */
+  ACCEPTED: "accepted",
+  /** Yahoo広告に拒否された（理由はstatusReasonに保持） */
+  REJECTED: "rejected",
+  /** 保留期間後の注文の再確認で送信対象外になった（理由はstatusReasonに保持） */
+  EXCLUDED: "excluded",
+  /** クリックに対応する広告アカウントがなく、送信先を決められない（理由はstatusReasonに保持） */
+  UNROUTABLE: "unroutable",
+} as const
+
+/**
+ * コンバージョンの価値として送信する金額の基準
+ */
+export const VALUE_BASIS = {
+  /** 注文の合計金額（税・送料を含む） */
+  TOTAL: "total",
+  /** 商品の小計（割引前） */
+  SUBTOTAL: "subtotal",
+  /** 商品の小計から割引を差し引いた金額 */
+  SUBTOTAL_MINUS_DISCOUNTS: "subtotal_minus_discounts",
+  /** 注文の合計金額から税と送料を差し引いた金額 */
+  EXCLUDING_TAX_SHIPPING: "excluding_tax_shipping",
+} as const
+
+export type ValueBasis = typeof VALUE_BASIS[keyof typeof VALUE_BASIS];
+
+/**
+ * 広告のクリックが複数ある場合のアトリビューションモデル
+ */
+export const ATTRIBUTION_MODEL = {
+  /** 最後のクリックのみをコンバージョンとする */
+  LAST_CLICK: "last_click",
+  /** 最初のクリックのみをコンバージョンとする */
+  FIRST_CLICK: "first_click",
+  /** 広告タイプ（検索広告・ディスプレイ広告）ごとに最後のクリックをコンバージョンとする */
+  ALL_PLATFORMS: "all_platforms",
+} as const
+
+export type AttributionModel = typeof ATTRIBUTION_MODEL[keyof typeof ATTRIBUTION_MODEL];
+
+/**
+ * 振り分けルールの顧客区分
+ */
+export const CUSTOMER_TYPE = {
+  /** すべての顧客 */
+  ANY: "any",
+  /** 初回購入の顧客 */
+  FIRST: "first",
+  /** リピート購入の顧客 */
+  REPEAT: "repeat",
+} as const
+
+/**
+ * 送信対象外（excluded）にする理由
+ */
+export const EXCLUSION_REASON = {
+  /** 注文がキャンセルされた */
+  CANCELLED: "order_cancelled",
+  /** 注文が全額返金された */
+  REFUNDED: "order_refunded",
+  /** テスト注文 */
+  TEST: "test_order",
+  /** 注文が見つからない */
+  NOT_FOUND: "order_not_found",
+  /** 元のコンバージョンが送信されない（送信対象外・拒否・送信不可）ため、価値の調整を送信しない */
+  CONVERSION_NOT_UPLOADED: "conversion_not_uploaded",
+} as const
+
+/**
+ * コンバージョンの価値の調整種別
+ */
+export const ADJUSTMENT_KIND = {
+  /** 注文のキャンセル（残額の全額を減額） */
+  CANCEL: "cancel",
+  /** 返金（返金額を減額） */
+  REFUND: "refund",
+} as const
+
+export type AdjustmentKind = typeof ADJUSTMENT_KIND[keyof typeof ADJUSTMENT_KIND];
+
+/**
+ * バッチタスクの実行結果
+ */
+export const JOB_RUN_STATUS = {
+  /** 実行中 */
+  RUNNING: "running",
+  /** 成功 */
+  SUCCEEDED: "succeeded",
+  /** 失敗（一部の処理の失敗を含む） */
+  FAILED: "failed",
+  /** 設定がないため実行しなかった */
+  SKIPPED: "skipped",
+} as const
+
+export type JobRunStatus = typeof JOB_RUN_STATUS[keyof typeof JOB_RUN_STATUS];
+
+/**
+ * バッチタスクの実行スケジュール
+ */
+export const TASK_SCHEDULE = {
+  /** スケジュール（cron式）のタイムゾーン */
+  TIMEZONE: "Asia/Tokyo",
+  /** スケジュールの変更を確認する間隔（cron式） */
+  SYNC_CRON: "* * * * *",
+  /** スケジュールを設定できるタスクと、既定のスケジュール（cron式） */
+  DEFAULTS: {
+    /** 公開鍵生成（10分間隔） */
+    generatePublicKey: "*/10 * * * *",
+    /** CSV作成とYahoo広告へのインポート（20分間隔） */
+    createCsvAndImportToYahoo: "*/20 * * * *",
+    /** Yahoo広告での処理結果の確認（20分間隔、インポートの10分後） */
+    checkUploadResults: "10,30,50 * * * *",
+    /** 期限切れレコードの削除とピクセルノンスのクリーンアップ（毎日4:00） */
+    maintenance: "00 4 * * *",
+  } as const,
+  /**
+   * 終了シグナル（SIGTERM・SIGINT）を受け取ってから、実行中のタスクの終了を待つ最大時間（ミリ秒）
+   * 実行記録の更新と切断を終えられるように、fly.tomlのkill_timeout（30秒）より短くする
+   * （待ちきれなかったタスクは、次回の実行で復旧する）
+   */
+  SHUTDOWN_TIMEOUT_MS: 25_000,
+  /**
+   * 終了シグナルを受け取ってから、実行中のYahoo広告APIの呼び出しを打ち切るまでの時間（ミリ秒）
+   * API_RETRY.TIMEOUT_MSはSHUTDOWN_TIMEOUT_MSより長いため、打ち切ったタスクが結果を記録できるように、SHUTDOWN_TIMEOUT_MSより短くする
+   */
+  SHUTDOWN_ABORT_REQUESTS_MS: 20_000,
+} as const
+
+export type TaskName = keyof typeof TASK_SCHEDULE.DEFAULTS;
@@ -1,15 +1,64 @@
-import { PrismaClient } from "@prisma/client";
+import { Prisma, PrismaClient } from "@prisma/client";
+import {
+  type EncryptedModel,
+  assertMasterKeys,
+  encryptSecretFields,
+  decryptSecretFields,
+} from "./utils/secret_crypto.server";
+
+/**
+ * 暗号化対象のフィールドを、書き込み時に暗号化し、読み込み時に復号する
+ */
+function encryptedModel(model: EncryptedModel) {
+  return {
+    async $allOperations({ args, query }: { args: any, query: (args: any) => Promise<unknown> }) {
+      if (args?.data) args = { ...args, data: encryptSecretFields(model, args.data) };
+      if (args?.create) args = { ...args, create: encryptSecretFields(model, args.create) };
+      if (args?.update) args = { ...args, update: encryptSecretFields(model, args.update) };
+      return decryptSecretFields(model, await query(args));
+    },
+  };
+}
+
+const encryptedSecrets = Prisma.defineExtension({
+  name: "encryptedSecrets",
+  query: {
+    yahooAdApplication: encryptedModel("yahooAdApplication"),
+    apiKeyPair: encryptedModel("apiKeyPair"),
+    yahooAuthorization: encryptedModel("yahooAuthorization"),
+  },
+});
+
+/**
+ * 暗号化の拡張を適用したクライアントを作成する
+ * マスターキーが未設定・不正な場合は、秘密情報の保存時ではなく起動時にエラーにする
+ */
+function createPrismaClient() {
+  assertMasterKeys();
+  return new PrismaClient().$extends(encryptedSecrets);
+}
 
 declare global {
-  var prismaGlobal: PrismaClient;
+  var prismaGlobal: ReturnType<typeof createPrismaClient>;
+  var sessionPrismaGlobal: PrismaClient;
 }
 
 if (process.env.NODE_ENV !== "production") {
   if (!global.prismaGlobal) {
-    global.prismaGlobal = new PrismaClient();
+    global.prismaGlobal = createPrismaClient();
+  }
+  if (!global.sessionPrismaGlobal) {
+    global.sessionPrismaGlobal = new PrismaClient();
   }
 }
 
-const prisma = global.prismaGlobal ?? new PrismaClient();
+const prisma = global.prismaGlobal ?? createPrismaClient();
+
+/**
+ * セッションストレージ用のクライアント
+ * PrismaSessionStorageは拡張していないPrismaClientを受け取るため、暗号化の拡張を適用せずに作成する
+ * （Sessionは暗号化の対象外）
+ */
+export const sessionPrisma = global.sessionPrismaGlobal ?? new PrismaClient();
 
 export default prisma;
@@ -0,0 +1,17 @@
+// SPDX-License-Identifier: MIT
+
+import db from "../db.server";
+
+export async function getExchangeRate(shop, currency) {
+  const exchangeRate = await db.exchangeRate.findUnique({ where: { shop_currency: { shop: shop, currency: currency } } });
+
+  if (!exchangeRate) {
+    return null;
+  }
+
+  return exchangeRate;
+}
+
+export async function getExchangeRates(shop) {
+  return db.exchangeRate.findMany({ where: { shop: shop }, orderBy: { currency: 'asc' } });
+}
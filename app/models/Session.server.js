@@ -0,0 +1,28 @@
+// SPDX-License-Identifier: MIT
+
+import db from "../db.server";
+
+export async function getOfflineSession(shop) {
+  const session = await db.session.findFirst({ where: { shop: shop, isOnline: false } });
+
+  if (!session) {
+    return null;
+  }
+
+  return session;
+}
+
+export async function getInstalledShops() {
+  const sessions = await db.session.findMany({
+    where: { isOnline: false },
+    select: { shop: true },
+    distinct: ['shop'],
+    orderBy: { shop: 'asc' },
+  });
+
+  return sessions.map(session => session.shop);
+}
+
+export async function getOfflineSessions() {
+  return db.session.findMany({ where: { isOnline: false } });
+}
@@ -0,0 +1,13 @@
+// SPDX-License-Identifier: MIT
+
+import db from "../db.server";
+
+export async function getStoreSetting(shop) {
+  const storeSetting = await db.storeSetting.findUnique({ where: { shop: shop } });
+
+  if (!storeSetting) {
+    return null;
+  }
+
+  return storeSetting;
+}
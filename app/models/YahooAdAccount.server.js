@@ -2,8 +2,8 @@
 
 import db from "../db.server";
 
-export async function getYahooAdAccount(type) {
-  const yahooAdAccount = await db.yahooAdAccount.findFirst({ where: { type: type } });
+export async function getYahooAdAccount(shop, type) {
+  const yahooAdAccount = await db.yahooAdAccount.findFirst({ where: { shop: shop, type: type } });
 
   if (!yahooAdAccount) {
     return null;
@@ -12,8 +12,8 @@ export async function getYahooAdAccount(type) {
   return yahooAdAccount;
 }
 
-export async function getYahooAdAccounts() {
-  const yahooAdAccounts = await db.yahooAdAccount.findMany();
+export async function getYahooAdAccounts(shop) {
+  const yahooAdAccounts = await db.yahooAdAccount.findMany({ where: { shop: shop } });
 
   if (!yahooAdAccounts?.length) {
     return null;
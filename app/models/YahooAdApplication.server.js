@@ -2,8 +2,8 @@
 
 import db from "../db.server";
 
-export async function getYahooAdApplication() {
-  const yahooAdApplication = await db.yahooAdApplication.findFirst();
+export async function getYahooAdApplication(shop) {
+  const yahooAdApplication = await db.yahooAdApplication.findUnique({ where: { shop: shop } });
 
   if (!yahooAdApplication) {
     return null;
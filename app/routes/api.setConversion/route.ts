@@ -2,12 +2,17 @@
 
 import type { ActionFunctionArgs, LoaderFunctionArgs } from "@remix-run/node";
 import { apiVersion } from "../../shopify.server";
-import { createAdminApiClient } from "@shopify/admin-api-client";
+import { createAdminApiClient, type AdminApiClient } from "@shopify/admin-api-client";
 import db from "../../db.server";
-import { Prisma } from "@prisma/client";
+import type { Prisma } from "@prisma/client";
 import { importPKCS8, compactDecrypt, decodeProtectedHeader } from 'jose';
 import crypto from "node:crypto";
 import { setTimeout as sleep } from 'node:timers/promises';
+import { getRateToCsvCurrency } from "../../utils/exchange_rate.server";
+import { selectAttributedClicks } from "../../utils/attribution.server";
+import { getStoreSetting } from "../../models/StoreSetting.server";
+import { getOfflineSession, getOfflineSessions } from "../../models/Session.server";
+import { ATTRIBUTION_MODEL } from "../../constants";
 
 /** Proof of Workの難易度（先頭のゼロビット数） */
 const POW_BITS      = 10;
@@ -51,29 +56,34 @@ interface SessionCache {
 /** CORSヘッダーのキャッシュ有効期限（ミリ秒） */
 const ALLOW_SESSION_TTL_MS = 5 * 60_000; // 5 min
 
-/** セッション情報のメモリキャッシュ */
-let sessionCache: { session: SessionCache, expires: number }  | null = null;
+/** セッション情報のメモリキャッシュ（ショップごと） */
+let sessionCache: Record<string, { session: SessionCache, expires: number }> = Object.create(null);
 
 /**
- * データベースからセッション情報を取得し、メモリにキャッシュする
+ * データベースからショップのセッション情報を取得し、メモリにキャッシュする
+ * @param shop - ショップのドメイン
  * @returns セッション情報、またはnull（セッションが存在しない場合）
  */
-async function getSession() {
+async function getSession(shop: string) {
   const now = Date.now();
-  if (sessionCache && sessionCache.expires > now) return sessionCache.session;
-  const record = await db.session.findFirst();
+  const hit = sessionCache[shop];
+  if (hit && hit.expires > now) return hit.session;
+  const record = await getOfflineSession(shop);
   if (!record) return null;
-  sessionCache = { session: record, expires: now + ALLOW_SESSION_TTL_MS };
-  return sessionCache.session;
+  sessionCache[shop] = { session: record, expires: now + ALLOW_SESSION_TTL_MS };
+  return record;
 }
 
-/** プライベートキーのメモリキャッシュ */
-let privateKeyCache: Record<string, CryptoKey> = Object.create(null); 
+/** メモリにキャッシュするプライベートキーの最大数 */
+const PRIVATE_KEY_CACHE_SIZE = 100;
+
+/** プライベートキーとショップのメモリキャッシュ */
+let privateKeyCache: Record<string, { shop: string, key: CryptoKey }> = Object.create(null); 
 
 /**
- * 指定されたキーIDに対応するプライベートキーを取得する
+ * 指定されたキーIDに対応するプライベートキーと、そのキーを発行したショップを取得する
  * @param kid - キーID
- * @returns プライベートキー、またはnull（キーが存在しない場合）
+ * @returns プライベートキーとショップのドメイン、またはnull（キーが存在しない場合）
  */
 async function getPrivateKey(kid: string) {
   // 既にメモリにあればそれを返す
@@ -83,52 +93,79 @@ async function getPrivateKey(kid: string) {
   // 無ければ DB から取得してキャッシュ
   const record = await db.apiKeyPair.findUnique({
     where: { kid },
-    select: { privateKey: true },
+    select: { shop: true, privateKey: true },
   });
   if (!record) return null;
-  // キャッシュが無限に増えるのを防ぐため、キャッシュをクリア
-  privateKeyCache = Object.create(null);
+  // キャッシュが無限に増えるのを防ぐため、上限に達したらキャッシュをクリア
+  if (Object.keys(privateKeyCache).length >= PRIVATE_KEY_CACHE_SIZE) privateKeyCache = Object.create(null);
   const key = await importPKCS8(record.privateKey, "RSA-OAEP-256");
-  privateKeyCache[kid] = key;
-  return key;
+  privateKeyCache[kid] = { shop: record.shop, key };
+  return privateKeyCache[kid];
 }
 
 /** CORSヘッダーのキャッシュ有効期限（ミリ秒） */
 const ALLOW_ORIGIN_TTL_MS = 5 * 60_000; // 5 min
-/** CORSヘッダーのキャッシュ */
-let allowOriginCache: { value: string; expires: number } | null = null;
+/** 許可されたオリジンのキャッシュ */
+let allowOriginCache: { value: Set<string>; expires: number } | null = null;
 
 /**
- * 許可されたオリジンを取得する
+ * 許可されたオリジン（インストール済みのショップのプライマリドメイン）を取得する
  * @returns 許可されたオリジンのURL
  */
-async function getAllowOrigin() {
+async function getAllowOrigins() {
   const now = Date.now();
   if (allowOriginCache && allowOriginCache.expires > now) {
     return allowOriginCache.value;
   }
-  const record = await db.session.findFirst({
-    select: { primaryDomain: true, shop: true },
-  });
-  const value = record ? record.primaryDomain ?? `https://${record.shop}` : "";
+  const records = await getOfflineSessions();
+  const value = new Set(records.map(record => record.primaryDomain ?? `https://${record.shop}`));
   allowOriginCache = { value, expires: now + ALLOW_ORIGIN_TTL_MS };
   return value;
 }
 
 /**
  * CORSヘッダーを構築する
+ *
+ * リクエストのオリジンが、インストール済みのいずれかのショップのものである場合に許可します。
+ *
+ * @param request - リクエストオブジェクト
  * @returns CORSヘッダーを含むHeadersオブジェクト
  */
-async function buildCorsHeaders() {
-  const origin = await getAllowOrigin();
+async function buildCorsHeaders(request: Request) {
+  const origin = request.headers.get("Origin") ?? "";
+  const allowed = (await getAllowOrigins()).has(origin);
   return new Headers({
-    "Access-Control-Allow-Origin": origin,
+    ...(allowed ? { "Access-Control-Allow-Origin": origin } : {}),
     "Access-Control-Allow-Methods": "POST, OPTIONS",
     "Access-Control-Allow-Headers": "Content-Type, Authorization, X-Pow",
     "Content-Type": "application/json",
+    "Vary": "Origin",
   });
 }
 
+/**
+ * 注文した顧客の初回購入かどうかを取得する
+ *
+ * 顧客の注文回数の取得には、保護された顧客データ（read_customers）へのアクセスが必要です。
+ * アクセスが承認されていない場合などに注文の取得ごと失敗しないように、注文とは別に取得します。
+ *
+ * @param admin - Admin APIのクライアント
+ * @param orderGid - 注文のGID
+ * @returns 初回購入の場合はtrue、リピート購入の場合はfalse、ゲスト購入や取得できない場合はnull
+ */
+async function getIsFirstOrder(admin: AdminApiClient, orderGid: string): Promise<boolean | null> {
+  try {
+    const res = await admin.request(`#graphql
+      query { order(id: "${orderGid}") { customer { numberOfOrders } } }`);
+    if (res.errors) console.warn("api.setConversion/route.ts customer is not available:", JSON.stringify(res.errors));
+    const customer = res.data?.order?.customer;
+    return customer?.numberOfOrders != null ? Number(customer.numberOfOrders) <= 1 : null;
+  } catch(error) {
+    console.warn("api.setConversion/route.ts customer is not available:", error);
+    return null;
+  }
+}
+
 /**
  * エラーレスポンスを生成する
  * @param code - エラーコード
@@ -149,7 +186,7 @@ const errorResponse = (code: number, headers: Headers) => {
  * その他のGETリクエストはエラーを返す
  */
 export const loader = async ({ request }: LoaderFunctionArgs) => {
-  const headers = await buildCorsHeaders();
+  const headers = await buildCorsHeaders(request);
   if (request.method === "OPTIONS") {
     return new Response(null, { status: 204, headers });
   }
@@ -163,7 +200,7 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
  * 
  * 処理フロー:
  * 1. Proof of Workの検証
- * 2. リクエストボディの復号化
+ * 2. リクエストボディの復号化（キーIDから、鍵を発行したショップを特定）
  * 3. ペイロードの検証
  * 4. 重複チェック（nonce、orderId）
  * 5. Shopify APIでの注文存在確認
@@ -173,7 +210,7 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
  * @returns 処理結果のレスポンス
  */
 export const action = async ({ request }: ActionFunctionArgs) => { 
-  const headers = await buildCorsHeaders();
+  const headers = await buildCorsHeaders(request);
   try {
 
     if (request.method !== "POST") return errorResponse(1, headers);
@@ -186,29 +223,38 @@ export const action = async ({ request }: ActionFunctionArgs) => {
     if (alg !== 'RSA-OAEP-256') return errorResponse(4, headers);
 
 
-    const [session, key] = await Promise.all([
-      getSession(),
-      getPrivateKey(kid as string),
-    ]);
+    // キーIDから鍵を発行したショップを特定し、そのショップのセッションを使用する
+    const privateKey = await getPrivateKey(kid as string);
+    if (!privateKey) return errorResponse(6, headers);
+    const session = await getSession(privateKey.shop);
     if (!session) return errorResponse(5, headers);
-    if (!key) return errorResponse(6, headers);
 
-    const { plaintext } = await compactDecrypt(body, key);
+    const { plaintext } = await compactDecrypt(body, privateKey.key);
     const payload = JSON.parse(Buffer.from(plaintext).toString('utf8'));
-    const { yclid, visitedAt, conversionedAt, amount, orderId, nonce } = payload;
+    // 金額はブラウザから受け取らず、Admin APIで取得した注文から算出する
+    const { conversionedAt, orderId, nonce } = payload;
+    // 以前のバージョンのピクセルは最新のクリックのみを送信する
+    const rawClicks = Array.isArray(payload.clicks) ? payload.clicks : [{ yclid: payload.yclid, visitedAt: payload.visitedAt }];
     if (
-      typeof yclid !== "string" || 
-      typeof visitedAt !== "string" ||
+      !rawClicks.length ||
+      rawClicks.some((c: any) => typeof c?.yclid !== "string" || typeof c?.visitedAt !== "string") ||
       typeof conversionedAt !== "string"||
-      typeof amount !== "number" ||
       typeof orderId !== "string" ||
       typeof nonce !== "string") {
       return errorResponse(7, headers);
     }
 
+    // ストアのアトリビューションモデルに従って、コンバージョンとして記録するクリックを選ぶ
+    const storeSetting = await getStoreSetting(session.shop);
+    const clicks = selectAttributedClicks(
+      rawClicks.map((c: any) => ({ yclid: c.yclid, visitedAt: new Date(c.visitedAt) })),
+      storeSetting?.attributionModel ?? ATTRIBUTION_MODEL.LAST_CLICK
+    );
+    if (!clicks.length) return errorResponse(7, headers);
+
     const [_, existing] = await db.$transaction([
       db.pixelNonce.create({ data: { nonce } }),
-      db.yahooConversion.findFirst({ where: { orderId } }),
+      db.yahooConversion.findFirst({ where: { shop: session.shop, orderId } }),
     ]).catch((error) => {
       if (error.code === "P2002") return [null, true];
       throw error;
@@ -223,33 +269,72 @@ export const action = async ({ request }: ActionFunctionArgs) => {
 
     const orderGid = `gid://shopify/Order/${orderId}`;
     const query = `#graphql 
-      query { order(id: "${orderGid}") { createdAt } }`;
+      query { order(id: "${orderGid}") {
+        createdAt
+        currencyCode
+        presentmentCurrencyCode
+        totalPriceSet              { shopMoney { amount } presentmentMoney { amount } }
+        totalLineItemsPriceSet     { shopMoney { amount } }
+        subtotalPriceSet           { shopMoney { amount } }
+        totalTaxSet                { shopMoney { amount } }
+        totalShippingPriceSet      { shopMoney { amount } }
+      } }`;
+    let order: any;
     try {
       await sleep(1000);
       let gqlRes = await admin.request(query);
       if(!gqlRes.data?.order) {
-        const gqlRes = await admin.request(query);
+        gqlRes = await admin.request(query);
         if (!gqlRes.data?.order) {
           console.error("api.setConversion/route.ts error:", JSON.stringify(gqlRes));
           return errorResponse(9, headers);
         }
       }
-      if((new Date().getTime() - new Date(String(gqlRes.data.order.createdAt)).getTime()) > 2 * 60_000) return errorResponse(10, headers)
+      order = gqlRes.data.order;
+      if((new Date().getTime() - new Date(String(order.createdAt)).getTime()) > 2 * 60_000) return errorResponse(10, headers)
     } catch(error) {
       console.error("api.setConversion/route.ts error:", error);
       return errorResponse(11, headers)
     }
 
-    const data : Prisma.YahooConversionCreateInput = {
-      yclid: yclid,
-      amount: amount,
-      visitedAt: new Date(visitedAt),
+    /** ショップ通貨の金額を取得する（取得できない場合はnull） */
+    const toAmount = (set: any) => set?.shopMoney?.amount != null ? String(set.shopMoney.amount) : null;
+
+    // ショップ通貨から円への為替レート（受信時点のレートを保存し、送信時に使用する）
+    let exchangeRate: Prisma.Decimal | null;
+    try {
+      exchangeRate = await getRateToCsvCurrency(session.shop, order.currencyCode);
+    } catch(error) {
+      console.error("api.setConversion/route.ts error:", error);
+      return errorResponse(13, headers)
+    }
+    if (!exchangeRate) {
+      console.error(`api.setConversion/route.ts error: exchange rate for ${order.currencyCode} is not configured`);
+    }
+
+    // 価値の基準ごとの金額を算出できるように、注文の金額の内訳をショップ通貨で保存する
+    const data : Omit<Prisma.YahooConversionCreateManyInput, "yclid" | "visitedAt"> = {
+      shop: session.shop,
+      amount: toAmount(order.totalPriceSet),
+      subtotalAmount: toAmount(order.totalLineItemsPriceSet),
+      discountedSubtotalAmount: toAmount(order.subtotalPriceSet),
+      taxAmount: toAmount(order.totalTaxSet),
+      shippingAmount: toAmount(order.totalShippingPriceSet),
+      currency: order.currencyCode,
+      presentmentCurrency: order.presentmentCurrencyCode,
+      presentmentAmount: order.totalPriceSet?.presentmentMoney?.amount ?? null,
+      exchangeRate: exchangeRate,
+      // 振り分けルールの顧客区分に使用する（ゲスト購入や、顧客を取得できない場合は不明）
+      isFirstOrder: await getIsFirstOrder(admin, orderGid),
       conversionedAt: new Date(conversionedAt),
       orderId: orderId
     }
 
+    // 選ばれたクリックごとにコンバージョンを記録する
     try {
-      await db.yahooConversion.create({ data })
+      await db.yahooConversion.createMany({
+        data: clicks.map(click => ({ ...data, yclid: click.yclid, visitedAt: click.visitedAt })),
+      })
     } catch(error: any) {
       return errorResponse(12, headers)
     }
@@ -1,23 +1,35 @@
 // SPDX-License-Identifier: MIT
 
 import type { LoaderFunctionArgs } from "@remix-run/node";
-import { Link, useNavigate } from "@remix-run/react";
+import { Link, useLoaderData, useNavigate } from "@remix-run/react";
 import { authenticate } from "../shopify.server";
 import {
+  Banner,
   Card,
   Layout,
   Page,
   Text,
   BlockStack,
 } from "@shopify/polaris";
+import { getYahooAdApplication } from "../models/YahooAdApplication.server";
+import { CONNECTION_STATUS } from "../constants";
 
 export const loader = async ({ request }: LoaderFunctionArgs) => {
   const { admin, session } = await authenticate.admin(request);
 
-  return null;
+  const yahooAdApplication = await getYahooAdApplication(session.shop);
+  return Response.json({
+    isConnectionBroken: yahooAdApplication?.connectionStatus === CONNECTION_STATUS.BROKEN,
+    lastTokenError: yahooAdApplication?.lastTokenError ?? null,
+  });
 };
 
 export default function Index() {
+  const { isConnectionBroken, lastTokenError } = useLoaderData<{
+    isConnectionBroken: boolean;
+    lastTokenError: string | null;
+  }>();
+
   const navigate = useNavigate();
 
   return (
@@ -25,6 +37,21 @@ export default function Index() {
       <ui-title-bar title="Yahoo!広告コンバージョン連携">
       </ui-title-bar>
       <Layout>
+        {isConnectionBroken && (
+          <Layout.Section>
+            <Banner
+              title="Yahoo!広告との接続が切れています"
+              tone="critical"
+              action={{ content: "再認可する", onAction: () => navigate("/app/setting_yahoo_app") }}
+            >
+              <p>
+                アクセストークンを更新できないため、コンバージョンを送信できません。
+                Yahoo!広告アプリケーションの設定から再認可してください。
+              </p>
+              {lastTokenError && <p>エラー：{lastTokenError}</p>}
+            </Banner>
+          </Layout.Section>
+        )}
         <Layout.Section>
           <Card padding="800">
             <BlockStack gap="500">
@@ -38,6 +65,12 @@ export default function Index() {
               <BlockStack gap="200">
                 <Link to="/app/setting_yahoo_app">Yahoo!広告アプリケーションの設定</Link>                
                 <Link to="/app/setting_yahoo_account">Yahoo!広告アカウントの設定</Link>
+                <Link to="/app/setting_routing_rules">コンバージョンの振り分けルールの設定</Link>
+                <Link to="/app/exchange_rates">為替レートの設定</Link>
+                <Link to="/app/setting_store">ストアの設定</Link>
+                <Link to="/app/csv_preview">送信予定のCSVプレビュー</Link>
+                <Link to="/app/task_schedules">バッチのスケジュールの設定</Link>
+                <Link to="/app/job_runs">バッチの実行履歴</Link>
               </BlockStack>
             </BlockStack>
           </Card>
@@ -0,0 +1,209 @@
+// SPDX-License-Identifier: MIT
+
+import { useEffect } from "react";
+import type { ActionFunctionArgs, LoaderFunctionArgs } from "@remix-run/node";
+import {
+  useFetcher,
+  useLoaderData,
+  useNavigate,
+} from "@remix-run/react";
+import {
+  Card,
+  Layout,
+  Page,
+  Text,
+  Button,
+  BlockStack,
+  InlineStack,
+  DataTable,
+  EmptyState,
+} from "@shopify/polaris";
+import { authenticate } from "../shopify.server";
+import { getYahooAdAccounts } from "../models/YahooAdAccount.server";
+import {
+  findPendingCsvItems,
+  toConversionCsvRows,
+  encodeConversionCsv,
+  createCsvFileName,
+} from "../utils/yahoo_conversion_csv.server";
+import { planPendingRoutes, type PendingRoute } from "../utils/conversion_routing.server";
+import { excludeRecheckedOrders } from "../utils/order_recheck.server";
+import type { YahooAdAccount } from "@prisma/client";
+
+/** 画面に表示する最大行数 */
+const MAX_PREVIEW_ROWS = 500;
+
+/**
+ * アップロード設定が揃っているショップのYahoo広告アカウントを取得する
+ *
+ * @param shop - ショップのドメイン
+ */
+async function getConfiguredYahooAdAccounts(shop: string) {
+  const yahooAdAccounts = await getYahooAdAccounts(shop);
+  return (yahooAdAccounts ?? []).filter(yaa =>
+    yaa.type && yaa.accountId && yaa.childAccountId && yaa.conversionTitle
+  );
+}
+
+/**
+ * createCsvAndImportToYahooと同じ条件で、アカウントに送信する予定の送信対象を求める
+ *
+ * 振り分け・為替レート・注文の再確認の結果は保存せず、データベースを更新しません。
+ *
+ * @param yahooAdAccount - アップロード先のYahoo広告アカウント
+ * @param routes - 保存していない振り分け先（planPendingRoutesの結果）
+ */
+async function previewCsvItems(yahooAdAccount: YahooAdAccount, routes: Map<number, PendingRoute>) {
+  const records = await findPendingCsvItems(yahooAdAccount, { routes });
+  return (await excludeRecheckedOrders(yahooAdAccount, records, false)).records;
+}
+
+export async function loader({ request }: LoaderFunctionArgs) {
+  const { session } = await authenticate.admin(request);
+
+  const yahooAdAccounts = await getConfiguredYahooAdAccounts(session.shop);
+
+  // 送信時と同じく、振り分け先が決まっていないコンバージョンを振り分ける（保存はしない）
+  const { routes } = await planPendingRoutes(session.shop);
+
+  // createCsvAndImportToYahooと同じ条件でレコードを選び、CSVの行に変換する（アップロードはしない）
+  const previews = await Promise.all(yahooAdAccounts.map(async yahooAdAccount => {
+    const records = await previewCsvItems(yahooAdAccount, routes);
+    const rows = toConversionCsvRows(yahooAdAccount, records);
+    return {
+      id:              yahooAdAccount.id,
+      type:            yahooAdAccount.type,
+      childAccountId:  yahooAdAccount.childAccountId,
+      conversionTitle: yahooAdAccount.conversionTitle,
+      headers:         rows.length ? Object.keys(rows[0]) : [],
+      rows:            rows.slice(0, MAX_PREVIEW_ROWS).map(row => Object.values(row).map(v => v ?? "")),
+      rowCount:        rows.length,
+    };
+  }));
+
+  return Response.json(previews);
+}
+
+export async function action({ request }: ActionFunctionArgs) {
+  const { session } = await authenticate.admin(request);
+  const formData = await request.formData();
+  const id = Number(formData.get("id"));
+
+  const yahooAdAccount = (await getConfiguredYahooAdAccounts(session.shop)).find(yaa => yaa.id === id);
+  if (!yahooAdAccount) {
+    throw new Response("広告アカウントが見つかりません", { status: 404 });
+  }
+
+  const { routes } = await planPendingRoutes(session.shop);
+  const records = await previewCsvItems(yahooAdAccount, routes);
+  const csv = encodeConversionCsv(toConversionCsvRows(yahooAdAccount, records));
+
+  return Response.json({
+    fileName: createCsvFileName(yahooAdAccount.type, new Date(), "preview"),
+    content:  Buffer.from(csv).toString("base64"),
+  });
+}
+
+type Preview = {
+  id: number;
+  type: string;
+  childAccountId: string;
+  conversionTitle: string;
+  headers: string[];
+  rows: (string | number)[][];
+  rowCount: number;
+};
+
+/**
+ * アカウントごとのCSVプレビュー
+ */
+function PreviewCard({ preview }: { preview: Preview }) {
+  const fetcher = useFetcher<{ fileName: string; content: string }>();
+  const isDownloading = fetcher.state !== "idle";
+
+  // サーバーで生成したShift_JISのCSVをそのままダウンロードする
+  useEffect(() => {
+    if (fetcher.state !== "idle" || !fetcher.data) return;
+    const bytes = Uint8Array.from(atob(fetcher.data.content), c => c.charCodeAt(0));
+    const url = URL.createObjectURL(new Blob([bytes], { type: "text/csv" }));
+    const anchor = document.createElement("a");
+    anchor.href = url;
+    anchor.download = fetcher.data.fileName;
+    anchor.click();
+    URL.revokeObjectURL(url);
+  }, [fetcher.state, fetcher.data]);
+
+  return (
+    <Card>
+      <BlockStack gap="400">
+        <InlineStack align="space-between" blockAlign="center">
+          <BlockStack gap="100">
+            <Text as="h2" variant="headingLg">
+              {preview.type === "search" ? "検索広告" : "ディスプレイ広告"}（{preview.childAccountId}）
+            </Text>
+            <Text as="p" tone="subdued">
+              コンバージョン名：{preview.conversionTitle} ／ 送信予定：{preview.rowCount}件
+            </Text>
+          </BlockStack>
+          <Button
+            disabled={!preview.rowCount}
+            loading={isDownloading}
+            onClick={() => fetcher.submit({ id: String(preview.id) }, { method: "post" })}
+          >
+            CSVをダウンロード
+          </Button>
+        </InlineStack>
+        {preview.rowCount ? (
+          <>
+            <DataTable
+              columnContentTypes={preview.headers.map(() => "text")}
+              headings={preview.headers}
+              rows={preview.rows}
+            />
+            {preview.rowCount > preview.rows.length && (
+              <Text as="p" tone="subdued">
+                先頭の{preview.rows.length}件を表示しています。全件はCSVをダウンロードしてご確認ください。
+              </Text>
+            )}
+          </>
+        ) : (
+          <Text as="p">送信予定のコンバージョンはありません。</Text>
+        )}
+      </BlockStack>
+    </Card>
+  );
+}
+
+export default function CsvPreviewPage() {
+  const previews = useLoaderData<Preview[]>();
+  const navigate = useNavigate();
+
+  return (
+    <Page>
+      <ui-title-bar title="送信予定のCSVプレビュー">
+        <button variant="breadcrumb" onClick={() => navigate("/app")}>
+          Home
+        </button>
+      </ui-title-bar>
+      <Layout>
+        {previews.length ? previews.map(preview => (
+          <Layout.Section key={preview.id}>
+            <PreviewCard preview={preview} />
+          </Layout.Section>
+        )) : (
+          <Layout.Section>
+            <Card>
+              <EmptyState
+                heading="広告アカウントが設定されていません"
+                action={{ content: "広告アカウント設定", url: "/app/setting_yahoo_account" }}
+                image=""
+              >
+                <p>広告アカウントを設定すると、送信予定のCSVを確認できます。</p>
+              </EmptyState>
+            </Card>
+          </Layout.Section>
+        )}
+      </Layout>
+    </Page>
+  );
+}
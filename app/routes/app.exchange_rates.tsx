@@ -0,0 +1,185 @@
+// SPDX-License-Identifier: MIT
+
+import { useState, useEffect } from "react";
+import type { ActionFunctionArgs, LoaderFunctionArgs } from "@remix-run/node";
+import {
+  useActionData,
+  useLoaderData,
+  useNavigation,
+  useSubmit,
+  useNavigate,
+} from "@remix-run/react";
+import {
+  Card,
+  Layout,
+  Page,
+  Text,
+  TextField,
+  Button,
+  BlockStack,
+  InlineStack,
+  DataTable,
+} from "@shopify/polaris";
+import type { ExchangeRate } from "@prisma/client";
+import { authenticate } from "../shopify.server";
+import db from "../db.server";
+import { CSV_FORMAT } from "../constants";
+import { getExchangeRates } from "../models/ExchangeRate.server";
+
+export async function loader({ request }: LoaderFunctionArgs) {
+  const { session } = await authenticate.admin(request);
+
+  const exchangeRates = await getExchangeRates(session.shop);
+  return Response.json(exchangeRates.map(er => ({ ...er, rate: er.rate.toString() })));
+}
+
+export async function action({ request }: ActionFunctionArgs) {
+  const { session } = await authenticate.admin(request);
+  const formData = await request.formData();
+  const action   = formData.get("action");
+  const currency = String(formData.get("currency") ?? "").trim().toUpperCase();
+
+  /* ---------- 削除 ---------- */
+  if (action === "delete") {
+    await db.exchangeRate.deleteMany({ where: { shop: session.shop, currency: currency } });
+    return Response.json({ deleted: true });
+  }
+
+  /* ---------- 追加・更新 ---------- */
+  const rate = String(formData.get("rate") ?? "").trim();
+  const errors: Record<string, string> = {};
+  if (!/^[A-Z]{3}$/.test(currency)) {
+    errors.currency = "3文字の通貨コードを入力してください";
+  } else if (currency === CSV_FORMAT.CURRENCY) {
+    errors.currency = `${CSV_FORMAT.CURRENCY}の為替レートは設定できません`;
+  }
+  if (!/^\d+(\.\d+)?$/.test(rate) || Number(rate) <= 0) {
+    errors.rate = "0より大きい数値を入力してください";
+  }
+  if (Object.keys(errors).length) {
+    return Response.json({ errors });
+  }
+
+  await db.exchangeRate.upsert({
+    where:  { shop_currency: { shop: session.shop, currency: currency } },
+    create: { shop: session.shop, currency: currency, rate: rate },
+    update: { rate: rate },
+  });
+
+  return Response.json({ saved: true });
+}
+
+export default function ExchangeRatesPage() {
+  type ActionData = {
+    errors?: Record<string, string>;
+    saved?: boolean;
+    deleted?: boolean;
+  };
+  const actionData = useActionData<ActionData>();
+  const errors = actionData?.errors || {};
+
+  const exchangeRates = useLoaderData<(Omit<ExchangeRate, "rate" | "updatedAt"> & { rate: string, updatedAt: string })[]>();
+
+  const [currency, setCurrency] = useState("");
+  const [rate, setRate] = useState("");
+
+  useEffect(() => {
+    if (actionData?.saved) {
+      setCurrency("");
+      setRate("");
+    }
+  }, [actionData]);
+
+  const nav = useNavigation();
+  const isSaving =
+    nav.state === "submitting" && nav.formData?.get("action") === "save";
+
+  const navigate = useNavigate();
+
+  const submit = useSubmit();
+
+  function handleSave() {
+    submit({ action: "save", currency, rate }, { method: "post" });
+  }
+
+  function handleDelete(currency: string) {
+    submit({ action: "delete", currency }, { method: "post" });
+  }
+
+  return (
+    <Page>
+      <ui-title-bar title="為替レート設定">
+        <button variant="breadcrumb" onClick={() => navigate("/app")}>
+          Home
+        </button>
+      </ui-title-bar>
+      <Layout>
+        <Layout.Section>
+          <Card>
+            <BlockStack gap="500">
+              <Text as="h2" variant="headingLg">
+                為替レート
+              </Text>
+              <Text as="p" tone="subdued">
+                ショップ通貨が{CSV_FORMAT.CURRENCY}以外の場合に、コンバージョンの価値を{CSV_FORMAT.CURRENCY}に換算するレートです。
+                レートはコンバージョンの受信時点のものが保存され、送信時に使用されます。
+                ショップ通貨が{CSV_FORMAT.CURRENCY}の場合は、マーケットの表示通貨にかかわらずShopifyが換算した金額を使用するため、設定は不要です。
+              </Text>
+              {exchangeRates.length ? (
+                <DataTable
+                  columnContentTypes={["text", "numeric", "text", "text"]}
+                  headings={["通貨コード", `1単位あたりの${CSV_FORMAT.CURRENCY}`, "更新日時", ""]}
+                  rows={exchangeRates.map(er => [
+                    er.currency,
+                    er.rate,
+                    new Date(er.updatedAt).toLocaleString("ja-JP"),
+                    <Button key={er.currency} variant="plain" tone="critical" onClick={() => handleDelete(er.currency)}>
+                      削除
+                    </Button>,
+                  ])}
+                />
+              ) : (
+                <Text as="p">為替レートは設定されていません。</Text>
+              )}
+            </BlockStack>
+          </Card>
+        </Layout.Section>
+
+        <Layout.Section>
+          <Card>
+            <BlockStack gap="500">
+              <Text as="h2" variant="headingLg">
+                為替レートの追加・更新
+              </Text>
+              <InlineStack gap="400" blockAlign="start">
+                <TextField
+                  id="currency"
+                  helpText="ISO 4217の通貨コード（例：USD）を入力してください"
+                  label="通貨コード"
+                  autoComplete="off"
+                  value={currency}
+                  onChange={setCurrency}
+                  error={errors.currency}
+                />
+                <TextField
+                  id="rate"
+                  helpText={`1単位あたりの${CSV_FORMAT.CURRENCY}の金額を入力してください`}
+                  label="為替レート"
+                  autoComplete="off"
+                  value={rate}
+                  onChange={setRate}
+                  error={errors.rate}
+                />
+              </InlineStack>
+              <InlineStack align="end">
+                <Button variant="primary" loading={isSaving} disabled={!currency || !rate} onClick={handleSave}>
+                  Save
+                </Button>
+              </InlineStack>
+            </BlockStack>
+          </Card>
+        </Layout.Section>
+      </Layout>
+    </Page>
+  );
+}
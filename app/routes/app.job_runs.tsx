@@ -0,0 +1,236 @@
+// SPDX-License-Identifier: MIT
+
+import type { LoaderFunctionArgs } from "@remix-run/node";
+import {
+  useLoaderData,
+  useNavigate,
+  useSearchParams,
+} from "@remix-run/react";
+import {
+  Card,
+  Layout,
+  Page,
+  Text,
+  BlockStack,
+  InlineStack,
+  Select,
+  Badge,
+  DataTable,
+} from "@shopify/polaris";
+import { authenticate } from "../shopify.server";
+import db from "../db.server";
+import { JOB_RUN_STATUS } from "../constants";
+
+/** 画面に表示する最大件数 */
+const MAX_JOB_RUNS = 200;
+
+/** タスクの選択肢 */
+const TASK_OPTIONS = [
+  { label: "すべてのタスク",                   value: "" },
+  { label: "CSV作成とYahoo広告へのインポート", value: "createCsvAndImportToYahoo" },
+  { label: "Yahoo広告での処理結果の確認",      value: "checkUploadResults" },
+  { label: "公開鍵生成",                       value: "generatePublicKey" },
+  { label: "期限切れレコードの削除",           value: "deleteExpiredRecords" },
+  { label: "ピクセルノンスのクリーンアップ",   value: "cleanUpPixelNonce" },
+];
+
+/** 実行結果の選択肢 */
+const STATUS_OPTIONS = [
+  { label: "すべての結果", value: "" },
+  { label: "成功",         value: JOB_RUN_STATUS.SUCCEEDED },
+  { label: "失敗",         value: JOB_RUN_STATUS.FAILED },
+  { label: "スキップ",     value: JOB_RUN_STATUS.SKIPPED },
+  { label: "実行中",       value: JOB_RUN_STATUS.RUNNING },
+];
+
+/** 期間の選択肢（日数） */
+const PERIOD_OPTIONS = [
+  { label: "過去24時間", value: "1" },
+  { label: "過去7日間",  value: "7" },
+  { label: "過去30日間", value: "30" },
+];
+
+/** 実行結果ごとの表示 */
+const STATUS_BADGES: Record<string, { label: string, tone?: "success" | "critical" | "info" }> = {
+  [JOB_RUN_STATUS.RUNNING]:   { label: "実行中", tone: "info" },
+  [JOB_RUN_STATUS.SUCCEEDED]: { label: "成功", tone: "success" },
+  [JOB_RUN_STATUS.FAILED]:    { label: "失敗", tone: "critical" },
+  [JOB_RUN_STATUS.SKIPPED]:   { label: "スキップ" },
+};
+
+/** 処理件数の項目名 */
+const COUNT_LABELS: Record<string, string> = {
+  uploadedFiles:  "アップロードしたファイル",
+  uploadedRows:   "アップロードした行",
+  failedFiles:    "失敗したファイル",
+  checkedJobs:    "確認したジョブ",
+  completedJobs:  "処理が完了したジョブ",
+  rejectedRows:   "拒否された行",
+  createdKeys:    "作成した鍵",
+  deletedKeys:    "削除した鍵",
+  conversions:    "コンバージョン",
+  uploadJobs:     "アップロードジョブ",
+  authorizations: "認可リクエスト",
+  jobRuns:        "実行記録",
+  nonces:         "ノンス",
+};
+
+/**
+ * 画面に返すバッチタスクの実行記録
+ */
+type JobRunRow = {
+  id: number;
+  name: string;
+  status: string;
+  counts: Record<string, number> | null;
+  error: string | null;
+  startedAt: string;
+  finishedAt: string | null;
+};
+
+/**
+ * 日時を表示用の文字列にする
+ */
+const formatDateTime = (value: Date | string | null) =>
+  value ? new Date(value).toLocaleString("ja-JP") : "—";
+
+/**
+ * 開始から終了までの所要時間を表示用の文字列にする
+ */
+const formatDuration = (startedAt: string, finishedAt: string | null) => {
+  if (!finishedAt) return "—";
+  const seconds = Math.round((new Date(finishedAt).getTime() - new Date(startedAt).getTime()) / 1000);
+  return seconds < 60 ? `${seconds}秒` : `${Math.floor(seconds / 60)}分${seconds % 60}秒`;
+};
+
+/**
+ * 処理件数を表示用の文字列にする
+ */
+const formatCounts = (counts: Record<string, number> | null) =>
+  counts && Object.keys(counts).length
+    ? Object.entries(counts).map(([key, count]) => `${COUNT_LABELS[key] ?? key}：${count}`).join("、")
+    : "—";
+
+/**
+ * バッチタスクの実行記録を返すローダー関数
+ *
+ * クエリパラメータ：
+ * - task: タスク名（省略時はすべて）
+ * - status: 実行結果（省略時はすべて）
+ * - days: 期間の日数（省略時は7日間）
+ *
+ * ショップの実行記録と、ショップに依存しないタスク（メンテナンス）の実行記録を新しい順に返します。
+ */
+export async function loader({ request }: LoaderFunctionArgs) {
+  const { session } = await authenticate.admin(request);
+
+  const url    = new URL(request.url);
+  const task   = url.searchParams.get("task") ?? "";
+  const status = url.searchParams.get("status") ?? "";
+  const days   = PERIOD_OPTIONS.some(o => o.value === url.searchParams.get("days")) ? Number(url.searchParams.get("days")) : 7;
+
+  const jobRuns = await db.jobRun.findMany({
+    where: {
+      OR: [{ shop: session.shop }, { shop: null }],
+      startedAt: { gte: new Date(Date.now() - days * 24 * 60 * 60 * 1000) },
+      ...(task ? { name: task } : {}),
+      ...(status ? { status: status } : {}),
+    },
+    orderBy: [{ startedAt: "desc" }, { id: "desc" }],
+    take: MAX_JOB_RUNS,
+  });
+
+  return Response.json(jobRuns.map(jobRun => ({
+    id:         jobRun.id,
+    name:       jobRun.name,
+    status:     jobRun.status,
+    counts:     jobRun.counts ? JSON.parse(jobRun.counts) : null,
+    error:      jobRun.error,
+    startedAt:  jobRun.startedAt,
+    finishedAt: jobRun.finishedAt,
+  })));
+}
+
+export default function JobRunsPage() {
+  const jobRuns = useLoaderData<JobRunRow[]>();
+  const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
+
+  /**
+   * 絞り込み条件を変更する（空の値は条件から外す）
+   */
+  const handleFilterChange = (key: string) => (value: string) => {
+    const next = new URLSearchParams(searchParams);
+    if (value) {
+      next.set(key, value);
+    } else {
+      next.delete(key);
+    }
+    setSearchParams(next);
+  };
+
+  const rows = jobRuns.map(jobRun => [
+    formatDateTime(jobRun.startedAt),
+    TASK_OPTIONS.find(o => o.value === jobRun.name)?.label ?? jobRun.name,
+    <Badge key={jobRun.id} tone={STATUS_BADGES[jobRun.status]?.tone}>
+      {STATUS_BADGES[jobRun.status]?.label ?? jobRun.status}
+    </Badge>,
+    formatCounts(jobRun.counts),
+    formatDuration(jobRun.startedAt, jobRun.finishedAt),
+    jobRun.error ?? "",
+  ]);
+
+  return (
+    <Page>
+      <ui-title-bar title="バッチの実行履歴">
+        <button variant="breadcrumb" onClick={() => navigate("/app")}>
+          Home
+        </button>
+      </ui-title-bar>
+      <Layout>
+        <Layout.Section>
+          <Card>
+            <BlockStack gap="400">
+              <InlineStack gap="400">
+                <Select
+                  label="タスク"
+                  options={TASK_OPTIONS}
+                  value={searchParams.get("task") ?? ""}
+                  onChange={handleFilterChange("task")}
+                />
+                <Select
+                  label="結果"
+                  options={STATUS_OPTIONS}
+                  value={searchParams.get("status") ?? ""}
+                  onChange={handleFilterChange("status")}
+                />
+                <Select
+                  label="期間"
+                  options={PERIOD_OPTIONS}
+                  value={searchParams.get("days") ?? "7"}
+                  onChange={handleFilterChange("days")}
+                />
+              </InlineStack>
+              {jobRuns.length ? (
+                <>
+                  <DataTable
+                    columnContentTypes={["text", "text", "text", "text", "text", "text"]}
+                    headings={["開始日時", "タスク", "結果", "処理件数", "所要時間", "エラー・理由"]}
+                    rows={rows}
+                  />
+                  {jobRuns.length >= MAX_JOB_RUNS && (
+                    <Text as="p" tone="subdued">
+                      新しい順に{MAX_JOB_RUNS}件を表示しています。条件を絞り込んでご確認ください。
+                    </Text>
+                  )}
+                </>
+              ) : (
+                <Text as="p">条件に一致する実行履歴はありません。</Text>
+              )}
+            </BlockStack>
+          </Card>
+        </Layout.Section>
+      </Layout>
+    </Page>
+  );
+}
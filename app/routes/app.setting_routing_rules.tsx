@@ -0,0 +1,336 @@
+// SPDX-License-Identifier: MIT
+
+import { useState, useEffect } from "react";
+import type { ActionFunctionArgs, LoaderFunctionArgs } from "@remix-run/node";
+import {
+  useActionData,
+  useLoaderData,
+  useNavigation,
+  useSubmit,
+  useNavigate,
+} from "@remix-run/react";
+import {
+  Card,
+  Layout,
+  Page,
+  Text,
+  TextField,
+  Select,
+  Button,
+  BlockStack,
+  InlineStack,
+  Banner,
+  PageActions,
+} from "@shopify/polaris";
+import type { ConversionRoutingRule, YahooAdAccount } from "@prisma/client";
+import { authenticate } from "../shopify.server";
+import db from "../db.server";
+import { CUSTOMER_TYPE, type EndpointKey } from "../constants";
+import { getYahooAdAccounts } from "../models/YahooAdAccount.server";
+import { resetPendingRoutes } from "../utils/conversion_routing.server";
+import { getYahooAdsAccessToken, validateYahooAdAccountSettings } from "../utils/yahoo_ads_api.server";
+
+/** 広告タイプの選択肢 */
+const TYPE_OPTIONS = [
+  { label: "検索広告",       value: "search" },
+  { label: "ディスプレイ広告", value: "display" },
+];
+
+/** 顧客区分の選択肢 */
+const CUSTOMER_TYPE_OPTIONS = [
+  { label: "すべての顧客",     value: CUSTOMER_TYPE.ANY },
+  { label: "初回購入の顧客",   value: CUSTOMER_TYPE.FIRST },
+  { label: "リピート購入の顧客", value: CUSTOMER_TYPE.REPEAT },
+];
+
+type FormState = {
+  type: string;
+  customerType: string;
+  yahooAdAccountId: string;
+  conversionTitle: string;
+};
+
+/**
+ * 振り分けルールをフォームの状態に変換する
+ */
+const convertToFormStates = (rules: ConversionRoutingRule[]): FormState[] =>
+  rules.map(rule => ({
+    type: rule.type,
+    customerType: rule.customerType,
+    yahooAdAccountId: String(rule.yahooAdAccountId),
+    conversionTitle: rule.conversionTitle ?? "",
+  }));
+
+export async function loader({ request }: LoaderFunctionArgs) {
+  const { session } = await authenticate.admin(request);
+
+  const [routingRules, yahooAdAccounts] = await Promise.all([
+    db.conversionRoutingRule.findMany({ where: { shop: session.shop }, orderBy: [{ priority: 'asc' }, { id: 'asc' }] }),
+    getYahooAdAccounts(session.shop),
+  ]);
+  return Response.json({ routingRules, yahooAdAccounts: yahooAdAccounts ?? [] });
+}
+
+export async function action({ request }: ActionFunctionArgs) {
+  const { session } = await authenticate.admin(request);
+  const formData = await request.formData();
+
+  const types             = formData.getAll("type");
+  const customerTypes     = formData.getAll("customerType");
+  const yahooAdAccountIds = formData.getAll("yahooAdAccountId");
+  const conversionTitles  = formData.getAll("conversionTitle");
+
+  if (
+    types.length !== customerTypes.length ||
+    types.length !== yahooAdAccountIds.length ||
+    types.length !== conversionTitles.length
+  ) {
+    throw new Response("行数が揃っていません", { status: 400 });
+  }
+
+  /* 配列をオブジェクト配列へ（画面の並び順を優先度とする） */
+  const yahooAdAccounts = await getYahooAdAccounts(session.shop) ?? [];
+  const records = types.map((t, i) => ({
+    shop:             session.shop,
+    priority:         i + 1,
+    type:             String(t),
+    customerType:     String(customerTypes[i]),
+    yahooAdAccountId: Number(yahooAdAccountIds[i]),
+    conversionTitle:  String(conversionTitles[i]).trim() || null,
+  }));
+  if (records.some(r =>
+    !CUSTOMER_TYPE_OPTIONS.some(o => o.value === r.customerType) ||
+    !yahooAdAccounts.some(yaa => yaa.id === r.yahooAdAccountId && yaa.type === r.type)
+  )) {
+    throw new Response("振り分けルールが不正です", { status: 400 });
+  }
+
+  /* コンバージョン名を指定したルールは、送信先のアカウントのオフラインコンバージョンであることを確認（APIを利用できない場合は確認せずに保存する） */
+  const titledRecords = records.flatMap((r, index) => r.conversionTitle ? [{ ...r, index }] : []);
+  const { errors: rowErrors, unavailableReason } = await validateYahooAdAccountSettings(
+    session.shop,
+    titledRecords.map(r => {
+      const yahooAdAccount = yahooAdAccounts.find(yaa => yaa.id === r.yahooAdAccountId)!;
+      return {
+        type:            r.type as EndpointKey,
+        accountId:       yahooAdAccount.accountId,
+        childAccountId:  yahooAdAccount.childAccountId,
+        conversionTitle: r.conversionTitle!,
+      };
+    }),
+    titledRecords.length ? await getYahooAdsAccessToken(session.shop) : "",
+  );
+  const errors: Record<string, string> = {};
+  rowErrors.forEach((rowError, i) => {
+    // アカウント自体の誤りも、ルールのコンバージョン名の項目に表示する
+    const message = rowError.conversionTitle ?? rowError.accountId ?? rowError.childAccountId;
+    if (message) errors[`conversionTitle-${titledRecords[i].index}`] = message;
+  });
+  if (Object.keys(errors).length) {
+    return Response.json({ errors });
+  }
+
+  /* トランザクションで全件を置き換え */
+  await db.$transaction([
+    db.conversionRoutingRule.deleteMany({ where: { shop: session.shop } }),
+    db.conversionRoutingRule.createMany({ data: records }),
+  ]);
+
+  // 未送信のコンバージョンを新しいルールで振り分け直す
+  await resetPendingRoutes(session.shop);
+
+  return Response.json({
+    saved: records.length,
+    warning: unavailableReason
+      ? `Yahoo広告でコンバージョン名を確認できないまま保存しました。Yahoo広告と接続してから、設定を確認してください（${unavailableReason}）`
+      : undefined,
+  });
+}
+
+export default function SettingRoutingRulesPage() {
+  const { routingRules, yahooAdAccounts } = useLoaderData<{
+    routingRules: ConversionRoutingRule[];
+    yahooAdAccounts: YahooAdAccount[];
+  }>();
+  const actionData = useActionData<{ errors?: Record<string, string>, warning?: string }>();
+  const errors = actionData?.errors || {};
+
+  const [formStates, setFormStates] = useState<FormState[]>(
+    () => convertToFormStates(routingRules)
+  );
+  const [cleanFormStates, setCleanFormStates] = useState<FormState[]>(
+    () => convertToFormStates(routingRules)
+  );
+  // 保存できなかった場合は、入力内容を変更しなくても再度保存できるようにする
+  const isDirty = JSON.stringify(formStates) !== JSON.stringify(cleanFormStates) || !!actionData?.errors;
+
+  useEffect(() => {
+    setFormStates(convertToFormStates(routingRules));
+    setCleanFormStates(convertToFormStates(routingRules));
+  }, [routingRules]);
+
+  const nav = useNavigation();
+  const isSaving = nav.state === "submitting";
+
+  const navigate = useNavigate();
+
+  const submit = useSubmit();
+
+  /** 広告タイプに一致するアカウントの選択肢 */
+  const accountOptions = (type: string) =>
+    yahooAdAccounts
+      .filter(yaa => yaa.type === type)
+      .map(yaa => ({ label: `${yaa.childAccountId}（${yaa.conversionTitle}）`, value: String(yaa.id) }));
+
+  /** 行の値を更新する */
+  const updateRow = (index: number, values: Partial<FormState>) =>
+    setFormStates((prev) => prev.map((r, i) => i === index ? { ...r, ...values } : r));
+
+  /** 行を上下に移動する（優先度の変更） */
+  const moveRow = (index: number, offset: number) =>
+    setFormStates((prev) => {
+      const next = [...prev];
+      [next[index], next[index + offset]] = [next[index + offset], next[index]];
+      return next;
+    });
+
+  function handleAddRow() {
+    setFormStates((prev) => [...prev, {
+      type: "search",
+      customerType: CUSTOMER_TYPE.ANY,
+      yahooAdAccountId: accountOptions("search")[0]?.value ?? "",
+      conversionTitle: "",
+    }]);
+  }
+
+  function handleSave() {
+    const fd = new FormData();
+
+    formStates.forEach(row => {
+      fd.append("type", row.type);
+      fd.append("customerType", row.customerType);
+      fd.append("yahooAdAccountId", row.yahooAdAccountId);
+      fd.append("conversionTitle", row.conversionTitle);
+    });
+
+    setCleanFormStates([...formStates]);
+    submit(fd, { method: "post" });
+  }
+
+  const isValid = formStates.every(row => !!row.yahooAdAccountId);
+
+  return (
+    <Page>
+      <ui-title-bar title="振り分けルール設定">
+        <button variant="breadcrumb" onClick={() => navigate("/app")}>
+          Home
+        </button>
+      </ui-title-bar>
+      <Layout>
+        <Layout.Section>
+          <Card>
+            <BlockStack gap="200">
+              <Text as="p">
+                コンバージョンを送信する広告アカウントとコンバージョン名を、上のルールから順に判定して決定します。
+                一致するルールがない場合は、広告タイプが一致する最初の広告アカウントに、そのアカウントのコンバージョン名で送信します。
+              </Text>
+              <Text as="p" tone="subdued">
+                ゲスト購入など初回購入かどうかが判定できない注文は、「すべての顧客」のルールにのみ一致します。
+              </Text>
+            </BlockStack>
+          </Card>
+        </Layout.Section>
+
+        {Object.keys(errors).length > 0 && (
+          <Layout.Section>
+            <Banner title="保存できませんでした" tone="critical">
+              <p>Yahoo広告のアカウントに見つからないコンバージョン名があります。各ルールのエラーを確認してください。</p>
+            </Banner>
+          </Layout.Section>
+        )}
+        {actionData?.warning && (
+          <Layout.Section>
+            <Banner title="保存しました" tone="warning">
+              <p>{actionData.warning}</p>
+            </Banner>
+          </Layout.Section>
+        )}
+
+        { formStates.map((formState, index) => (
+          <Layout.Section key={index}>
+            <Card>
+              <BlockStack gap="500">
+                <InlineStack align="space-between" blockAlign="center">
+                  <Text as={"h2"} variant="headingLg">
+                    ルール {index + 1}
+                  </Text>
+                  <InlineStack gap="200">
+                    <Button disabled={index === 0} onClick={() => moveRow(index, -1)}>↑</Button>
+                    <Button disabled={index === formStates.length - 1} onClick={() => moveRow(index, 1)}>↓</Button>
+                    <Button
+                      variant="plain"
+                      tone="critical"
+                      onClick={() => setFormStates((prev) => prev.filter((_, i) => i !== index))}
+                    >
+                      削除
+                    </Button>
+                  </InlineStack>
+                </InlineStack>
+                <Select
+                  id={`type-${index}`}
+                  label="広告タイプ"
+                  options={TYPE_OPTIONS}
+                  value={formState.type}
+                  onChange={(value) =>
+                    updateRow(index, { type: value, yahooAdAccountId: accountOptions(value)[0]?.value ?? "" })
+                  }
+                />
+                <Select
+                  id={`customerType-${index}`}
+                  label="顧客区分"
+                  options={CUSTOMER_TYPE_OPTIONS}
+                  value={formState.customerType}
+                  onChange={(value) => updateRow(index, { customerType: value })}
+                />
+                <Select
+                  id={`yahooAdAccountId-${index}`}
+                  label="送信先の広告アカウント"
+                  options={accountOptions(formState.type)}
+                  placeholder="広告アカウントを選択してください"
+                  value={formState.yahooAdAccountId}
+                  onChange={(value) => updateRow(index, { yahooAdAccountId: value })}
+                />
+                <TextField
+                  id={`conversionTitle-${index}`}
+                  helpText="送信先の広告アカウントにあるオフラインコンバージョンの名前を入力してください。空欄の場合は広告アカウントのコンバージョン名を使用します"
+                  label="コンバージョン名"
+                  autoComplete="off"
+                  value={formState.conversionTitle}
+                  onChange={(value) => updateRow(index, { conversionTitle: value })}
+                  error={errors[`conversionTitle-${index}`]}
+                />
+              </BlockStack>
+            </Card>
+          </Layout.Section>
+        ))}
+
+        <Layout.Section>
+          <InlineStack gap="300">
+            <Button disabled={!yahooAdAccounts.length} onClick={handleAddRow}>ルールを追加</Button>
+          </InlineStack>
+        </Layout.Section>
+
+        <Layout.Section>
+          <PageActions
+            primaryAction={{
+              content: "Save",
+              loading: isSaving,
+              disabled: !isDirty || !isValid || isSaving,
+              onAction: handleSave,
+            }}
+          />
+        </Layout.Section>
+      </Layout>
+    </Page>
+  );
+}
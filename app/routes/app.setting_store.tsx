@@ -0,0 +1,126 @@
+// SPDX-License-Identifier: MIT
+
+import { useState, useEffect } from "react";
+import type { ActionFunctionArgs, LoaderFunctionArgs } from "@remix-run/node";
+import {
+  useLoaderData,
+  useNavigation,
+  useSubmit,
+  useNavigate,
+} from "@remix-run/react";
+import {
+  Card,
+  Layout,
+  Page,
+  Text,
+  Select,
+  BlockStack,
+  PageActions,
+} from "@shopify/polaris";
+import { authenticate } from "../shopify.server";
+import db from "../db.server";
+import { ATTRIBUTION_MODEL } from "../constants";
+import { getStoreSetting } from "../models/StoreSetting.server";
+
+/** アトリビューションモデルの選択肢 */
+const ATTRIBUTION_MODEL_OPTIONS = [
+  { label: "ラストクリック（最後にクリックされた広告）",         value: ATTRIBUTION_MODEL.LAST_CLICK },
+  { label: "ファーストクリック（最初にクリックされた広告）",     value: ATTRIBUTION_MODEL.FIRST_CLICK },
+  { label: "すべての広告（検索広告とディスプレイ広告の両方）", value: ATTRIBUTION_MODEL.ALL_PLATFORMS },
+];
+
+export async function loader({ request }: LoaderFunctionArgs) {
+  const { session } = await authenticate.admin(request);
+
+  const storeSetting = await getStoreSetting(session.shop);
+  return Response.json({
+    attributionModel: storeSetting?.attributionModel ?? ATTRIBUTION_MODEL.LAST_CLICK,
+  });
+}
+
+export async function action({ request }: ActionFunctionArgs) {
+  const { session } = await authenticate.admin(request);
+  const formData = await request.formData();
+
+  const attributionModel = String(formData.get("attributionModel") ?? "");
+  if (!ATTRIBUTION_MODEL_OPTIONS.some(o => o.value === attributionModel)) {
+    throw new Response("アトリビューションモデルが不正です", { status: 400 });
+  }
+
+  await db.storeSetting.upsert({
+    where:  { shop: session.shop },
+    create: { shop: session.shop, attributionModel: attributionModel },
+    update: { attributionModel: attributionModel },
+  });
+
+  return Response.json({ saved: true });
+}
+
+export default function SettingStorePage() {
+  const { attributionModel } = useLoaderData<{ attributionModel: string }>();
+
+  const [formState, setFormState] = useState(attributionModel);
+  const [cleanFormState, setCleanFormState] = useState(attributionModel);
+  const isDirty = formState !== cleanFormState;
+
+  useEffect(() => {
+    setFormState(attributionModel);
+    setCleanFormState(attributionModel);
+  }, [attributionModel]);
+
+  const nav = useNavigation();
+  const isSaving = nav.state === "submitting";
+
+  const navigate = useNavigate();
+
+  const submit = useSubmit();
+
+  function handleSave() {
+    setCleanFormState(formState);
+    submit({ attributionModel: formState }, { method: "post" });
+  }
+
+  return (
+    <Page>
+      <ui-title-bar title="ストア設定">
+        <button variant="breadcrumb" onClick={() => navigate("/app")}>
+          Home
+        </button>
+      </ui-title-bar>
+      <Layout>
+        <Layout.Section>
+          <Card>
+            <BlockStack gap="500">
+              <Text as="h2" variant="headingLg">
+                アトリビューションモデル
+              </Text>
+              <Text as="p" tone="subdued">
+                購入までに複数の広告がクリックされていた場合に、どのクリックをコンバージョンとして送信するかを選択します。
+                「すべての広告」を選択すると、検索広告とディスプレイ広告のそれぞれ最後のクリックを送信するため、両方の広告アカウントでコンバージョンが計上されます。
+                設定は、変更後に受信したコンバージョンから適用されます。
+              </Text>
+              <Select
+                id="attributionModel"
+                label="アトリビューションモデル"
+                options={ATTRIBUTION_MODEL_OPTIONS}
+                value={formState}
+                onChange={setFormState}
+              />
+            </BlockStack>
+          </Card>
+        </Layout.Section>
+
+        <Layout.Section>
+          <PageActions
+            primaryAction={{
+              content: "Save",
+              loading: isSaving,
+              disabled: !isDirty || isSaving,
+              onAction: handleSave,
+            }}
+          />
+        </Layout.Section>
+      </Layout>
+    </Page>
+  );
+}
@@ -4,6 +4,7 @@ import { useState, useEffect } from "react";
 import type { ActionFunctionArgs, LoaderFunctionArgs } from "@remix-run/node";
 import {
   useActionData,
+  useFetcher,
   useLoaderData,
   useNavigation,
   useSubmit,
@@ -15,28 +16,193 @@ import {
   Page,
   Text,
   TextField,
+  Select,
   BlockStack,
+  InlineStack,
+  Button,
+  Banner,
   PageActions,
 } from "@shopify/polaris";
 import { authenticate } from "../shopify.server";
 import db from "../db.server";
-import { YahooAdAccount } from "@prisma/client";
+import type { YahooAdAccount } from "@prisma/client";
 import { getYahooAdAccounts } from "../models/YahooAdAccount.server";
+import { UPLOAD, VALUE_BASIS, type EndpointKey } from "../constants";
+import { resetPendingRoutes } from "../utils/conversion_routing.server";
+import {
+  type YahooAdAccountSettingErrors,
+  getYahooAdsAccessToken,
+  validateYahooAdAccountSettings,
+  type LinkedAccount,
+  type ConversionTracker,
+} from "../utils/yahoo_ads_api.server";
+
+/** 広告タイプの選択肢 */
+const TYPE_OPTIONS = [
+  { label: "検索広告",       value: "search" },
+  { label: "ディスプレイ広告", value: "display" },
+];
+
+/** 価値の基準の選択肢 */
+const VALUE_BASIS_OPTIONS = [
+  { label: "合計金額（税・送料を含む）",     value: VALUE_BASIS.TOTAL },
+  { label: "小計（割引前）",                value: VALUE_BASIS.SUBTOTAL },
+  { label: "小計（割引後）",                value: VALUE_BASIS.SUBTOTAL_MINUS_DISCOUNTS },
+  { label: "合計金額から税・送料を除いた金額", value: VALUE_BASIS.EXCLUDING_TAX_SHIPPING },
+];
+
+/**
+ * 新しく追加するアカウントの空の行
+ */
+const blankRow = (type: string) => (
+  { type: type, id: undefined as number | undefined, accountId: "", childAccountId: "", conversionTitle: "", duration: undefined as number | undefined, holdHours: undefined as number | undefined, valueBasis: VALUE_BASIS.TOTAL as string, yclCookieId: "" }
+);
+const blankRows = () => [blankRow("search"), blankRow("display")];
+
+type FormState = {
+  id?: number;
+  type: string;
+  accountId: string;
+  childAccountId: string;
+  conversionTitle: string;
+  duration?: number;
+  holdHours?: number;
+  valueBasis: string;
+  yclCookieId: string;
+};
+
+/** app.yahoo_account_options のレスポンス */
+type AccountOptions = {
+  linkedAccounts?: LinkedAccount[];
+  conversionTrackers?: ConversionTracker[];
+  error?: string;
+};
+
+/** 入力中のアカウントIDで選択肢を取得するまでの待ち時間（ミリ秒） */
+const OPTIONS_LOAD_DELAY_MS = 500;
+
+/**
+ * 選択肢に現在の値が含まれない場合は、現在の値を選択肢に加える
+ * （Yahoo広告側で削除された値を保存している場合も、そのまま表示する）
+ */
+const withCurrentValue = (options: { label: string, value: string }[], value: string) =>
+  !value || options.some(o => o.value === value)
+    ? options
+    : [...options, { label: `${value}（Yahoo広告に見つかりません）`, value: value }];
+
+/**
+ * Child Account IDとコンバージョン名の入力欄
+ *
+ * ベースアカウントの配下のアカウントと、そのアカウントのオフラインコンバージョンをYahoo広告から取得し、
+ * プルダウンで選択できるようにします。選択肢を取得できない場合（Yahoo広告と未接続など）は、直接入力できます。
+ */
+function AccountOptionFields({ index, formState, errors, onChange }: {
+  index: number;
+  formState: FormState;
+  errors: Record<string, string>;
+  onChange: (changes: Partial<FormState>) => void;
+}) {
+  const { load, data } = useFetcher<AccountOptions>();
+  const { type, accountId, childAccountId, conversionTitle } = formState;
+
+  useEffect(() => {
+    if (!accountId) return;
+    const timer = setTimeout(() => {
+      load(`/app/yahoo_account_options?${new URLSearchParams({ type, accountId, childAccountId })}`);
+    }, OPTIONS_LOAD_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [load, type, accountId, childAccountId]);
+
+  const linkedAccounts = data?.linkedAccounts;
+  const conversionTrackers = data?.conversionTrackers;
+  const unavailableText = data?.error
+    ? `Yahoo広告から選択肢を取得できないため、直接入力してください（${data.error}）`
+    : undefined;
+
+  return (
+    <>
+      {linkedAccounts ? (
+        <Select
+          id={`childAccountId-${index}`}
+          helpText="コンバージョンを送信するアカウントを選択してください"
+          label="Child Account ID"
+          placeholder="選択してください"
+          options={withCurrentValue([
+            { label: `${accountId}（ベースアカウント）`, value: accountId },
+            ...linkedAccounts.map(la => ({ label: `${la.accountId}（${la.accountName}）`, value: la.accountId })),
+          ], childAccountId)}
+          value={childAccountId}
+          onChange={(value) => onChange({ childAccountId: value })}
+          error={errors[`childAccountId-${index}`]}
+        />
+      ) : (
+        <TextField
+          id={`childAccountId-${index}`}
+          helpText={unavailableText ?? "Child Account IDを入力してください"}
+          label="Child Account ID"
+          autoComplete="off"
+          value={childAccountId}
+          onChange={(value) => onChange({ childAccountId: value })}
+          error={errors[`childAccountId-${index}`]}
+        />
+      )}
+      {linkedAccounts && childAccountId ? (
+        <Select
+          id={`conversionTitle-${index}`}
+          helpText="Yahoo広告で作成したオフラインコンバージョンを選択してください"
+          label="コンバージョン名"
+          placeholder="選択してください"
+          options={withCurrentValue(
+            (conversionTrackers ?? []).map(ct => ({ label: ct.conversionTrackerName, value: ct.conversionTrackerName })),
+            conversionTitle,
+          )}
+          value={conversionTitle}
+          onChange={(value) => onChange({ conversionTitle: value })}
+          error={errors[`conversionTitle-${index}`]}
+        />
+      ) : (
+        <TextField
+          id={`conversionTitle-${index}`}
+          helpText={unavailableText ?? "コンバージョン名を入力してください"}
+          label="コンバージョン名"
+          autoComplete="off"
+          value={conversionTitle}
+          onChange={(value) => onChange({ conversionTitle: value })}
+          error={errors[`conversionTitle-${index}`]}
+        />
+      )}
+    </>
+  );
+}
+
+/**
+ * 行ごとのエラーを、フォームの項目のID（{項目名}-{行番号}）をキーとするエラーに変換する
+ */
+const toFieldErrors = (rowErrors: YahooAdAccountSettingErrors[]) => {
+  const errors: Record<string, string> = {};
+  rowErrors.forEach((rowError, index) => {
+    Object.entries(rowError).forEach(([field, message]) => {
+      errors[`${field}-${index}`] = message;
+    });
+  });
+  return errors;
+};
 
 export async function loader({ request }: LoaderFunctionArgs) {
-  await authenticate.admin(request);
+  const { session } = await authenticate.admin(request);
 
-  return Response.json(await getYahooAdAccounts());
+  return Response.json(await getYahooAdAccounts(session.shop));
 }
 
 export async function action({ request }: ActionFunctionArgs) {
-  await authenticate.admin(request);
+  const { session } = await authenticate.admin(request);
   const formData = await request.formData();
   const action = formData.get("action");
 
   /* ---------- 削除 ---------- */
   if (action === "delete") {
-    await db.yahooAdAccount.deleteMany();
+    await db.yahooAdAccount.deleteMany({ where: { shop: session.shop } });
+    await resetPendingRoutes(session.shop);
     return Response.json({ deleted: true });
   }
 
@@ -47,15 +213,27 @@ export async function action({ request }: ActionFunctionArgs) {
   const childAccountIds  = formData.getAll("childAccountId");
   const conversionTitles = formData.getAll("conversionTitle");
   const durations        = formData.getAll("duration");
+  const holdHoursList    = formData.getAll("holdHours");
+  const valueBases       = formData.getAll("valueBasis");
+  const yclCookieIds     = formData.getAll("yclCookieId");
 
   if (
     types.length !== accountIds.length ||
     types.length !== childAccountIds.length ||
     types.length !== conversionTitles.length ||
-    types.length !== durations.length
+    types.length !== durations.length ||
+    types.length !== holdHoursList.length ||
+    types.length !== valueBases.length ||
+    types.length !== yclCookieIds.length
   ) {
     throw new Response("行数が揃っていません", { status: 400 });
   }
+  if (types.some(t => !TYPE_OPTIONS.some(o => o.value === t))) {
+    throw new Response("広告タイプが不正です", { status: 400 });
+  }
+  if (valueBases.some(v => !VALUE_BASIS_OPTIONS.some(o => o.value === v))) {
+    throw new Response("価値の基準が不正です", { status: 400 });
+  }
 
   /* 配列をオブジェクト配列へ */
   const records = types.map((t, i) => ({
@@ -64,48 +242,115 @@ export async function action({ request }: ActionFunctionArgs) {
     accountId:       String(accountIds[i]),
     childAccountId:  String(childAccountIds[i]),
     conversionTitle: String(conversionTitles[i]),
-    duration:        durations[i] ? Number(durations[i]) : undefined,
+    duration:        String(durations[i]).trim() ? Number(durations[i]) : undefined,
+    holdHours:       holdHoursList[i] ? Number(holdHoursList[i]) : undefined,
+    valueBasis:      String(valueBases[i]),
+    yclCookieId:     String(yclCookieIds[i]).trim() || null,
   }));
 
-  /* トランザクションで upsert */
-  await db.$transaction(
-    records.map(r =>
+  /* 更新する行が、このショップのアカウントであることを確認 */
+  const existingIds = (await getYahooAdAccounts(session.shop) ?? []).map(yaa => yaa.id);
+  if (records.some(r => r.id !== undefined && !existingIds.includes(r.id))) {
+    throw new Response("アカウントが不正です", { status: 400 });
+  }
+
+  /* Yahoo広告APIで、アカウントへのアクセスとコンバージョン名を確認（APIを利用できない場合は確認せずに保存する） */
+  const { errors: rowErrors, unavailableReason } = await validateYahooAdAccountSettings(
+    session.shop,
+    records.map(r => ({ ...r, type: r.type as EndpointKey })),
+    await getYahooAdsAccessToken(session.shop),
+  );
+  const errors = toFieldErrors(rowErrors);
+
+  /* コンバージョンの有効期間は、Yahoo広告が受け付ける期間内の日数 */
+  records.forEach((r, i) => {
+    if (r.duration === undefined || !Number.isInteger(r.duration) || r.duration < 1 || r.duration > UPLOAD.ACCEPTABLE_DAYS) {
+      errors[`duration-${i}`] = `1〜${UPLOAD.ACCEPTABLE_DAYS}の整数（日数）を入力してください`;
+    }
+  });
+  if (Object.keys(errors).length) {
+    return Response.json({ errors });
+  }
+
+  /* トランザクションで、画面から削除された行を削除して upsert */
+  const keptIds = records.flatMap(r => r.id !== undefined ? [r.id] : []);
+  await db.$transaction([
+    db.yahooAdAccount.deleteMany({ where: { shop: session.shop, id: { notIn: keptIds } } }),
+    ...records.map(r =>
       db.yahooAdAccount.upsert({
         where: { id: r.id ?? -1 }, 
         create: {
-          id: r.id!,
+          id: r.id,
+          shop: session.shop,
           type: r.type,
           accountId: r.accountId,
           childAccountId: r.childAccountId,
           conversionTitle: r.conversionTitle,
-          duration: r.duration ?? 0,
+          duration: r.duration!,
+          holdHours: r.holdHours ?? 0,
+          valueBasis: r.valueBasis,
+          yclCookieId: r.yclCookieId,
         },
         update: {
           type: r.type,
           accountId: r.accountId,
           childAccountId: r.childAccountId,
           conversionTitle: r.conversionTitle,
-          duration: r.duration ?? 0,
+          duration: r.duration!,
+          holdHours: r.holdHours ?? 0,
+          valueBasis: r.valueBasis,
+          yclCookieId: r.yclCookieId,
+          // 設定を直した後は、一時停止を解除してすぐにアップロードを再開する
+          uploadFailureCount: 0,
+          uploadPausedUntil: null,
+          uploadPauseReason: null,
         },
       }),
     ),
-  );
+  ]);
+
+  // 未送信のコンバージョンを新しい設定で振り分け直す
+  await resetPendingRoutes(session.shop);
 
-  return Response.json({ saved: records.length });
+  return Response.json({
+    saved: records.length,
+    warning: unavailableReason
+      ? `Yahoo広告でアカウントとコンバージョン名を確認できないまま保存しました。Yahoo広告と接続してから、設定を確認してください（${unavailableReason}）`
+      : undefined,
+  });
+}
+
+/**
+ * 画面に返すYahoo広告アカウント（日時はJSONの文字列）
+ */
+type YahooAdAccountRow = Omit<YahooAdAccount, "uploadPausedUntil"> & { uploadPausedUntil: string | null };
+
+/**
+ * アップロードが一時停止中のアカウントに、再開日時と理由を表示するバナー
+ */
+function UploadPauseBanner({ account }: { account?: YahooAdAccountRow }) {
+  if (!account?.uploadPausedUntil || new Date(account.uploadPausedUntil).getTime() <= Date.now()) return null;
+
+  return (
+    <Banner
+      title={`アップロードを一時停止しています（${new Date(account.uploadPausedUntil).toLocaleString("ja-JP")}に再開）`}
+      tone="warning"
+    >
+      <p>Yahoo広告へのアップロードに続けて失敗したため、一時停止しています。設定を修正して保存すると、すぐに再開します。</p>
+      <p>{account.uploadPauseReason}</p>
+    </Banner>
+  );
 }
 
 export default function SettingYahooAccountPage() {
   type ActionData = {
     errors?: Record<string, string>;
     deleted?: boolean;
+    warning?: string;
   };
   const actionData = useActionData<ActionData>();
   const errors = actionData?.errors || {};
 
-  const blankRows = () => [
-    { type: "search",  id: 1, accountId: "", childAccountId: "", conversionTitle: "", duration: undefined },
-    { type: "display", id: 2, accountId: "", childAccountId: "", conversionTitle: "", duration: undefined },
-  ];
 
   useEffect(() => {
     if (actionData?.deleted) {
@@ -114,19 +359,10 @@ export default function SettingYahooAccountPage() {
     }
   }, [actionData]);
 
-  type FormState = {
-    id: number;
-    type: string;
-    accountId: string;
-    childAccountId: string;
-    conversionTitle: string;
-    duration?: number;
-  };
-
-  const yahooAdAccounts = useLoaderData<YahooAdAccount[] | null>();
+  const yahooAdAccounts = useLoaderData<YahooAdAccountRow[] | null>();
 
   // 共通の変換関数
-  const convertToFormStates = (accounts: YahooAdAccount[] | null, useBlankRows: boolean = false) => {
+  const convertToFormStates = (accounts: YahooAdAccountRow[] | null, useBlankRows: boolean = false): FormState[] => {
     if (useBlankRows || !accounts?.length) {
       return blankRows();
     }
@@ -137,6 +373,9 @@ export default function SettingYahooAccountPage() {
       childAccountId: yaa.childAccountId,
       conversionTitle: yaa.conversionTitle,
       duration: yaa.duration,
+      holdHours: yaa.holdHours,
+      valueBasis: yaa.valueBasis,
+      yclCookieId: yaa.yclCookieId ?? "",
     }));
   };
 
@@ -147,7 +386,8 @@ export default function SettingYahooAccountPage() {
   const [cleanFormStates, setCleanFormStates] = useState<FormState[]>(
     () => convertToFormStates(yahooAdAccounts, false)
   );
-  const isDirty = JSON.stringify(formStates) !== JSON.stringify(cleanFormStates);
+  // 保存できなかった場合は、入力内容を変更しなくても再度保存できるようにする
+  const isDirty = JSON.stringify(formStates) !== JSON.stringify(cleanFormStates) || !!actionData?.errors;
 
   useEffect(() => {
     setFormStates(convertToFormStates(yahooAdAccounts, false));
@@ -175,13 +415,26 @@ export default function SettingYahooAccountPage() {
       row.duration !== undefined ?
       fd.append("duration", String(row.duration)) :
       fd.append("duration", "") ;
-      if (row.id !== undefined) fd.append("id", String(row.id));
+      row.holdHours !== undefined ?
+      fd.append("holdHours", String(row.holdHours)) :
+      fd.append("holdHours", "") ;
+      fd.append("valueBasis", row.valueBasis);
+      fd.append("yclCookieId", row.type === "search" ? row.yclCookieId : "");
+      fd.append("id", row.id !== undefined ? String(row.id) : "");
     });
 
     setCleanFormStates([...formStates]);
     submit(fd, { method: "post" });
   }
 
+  function handleAddRow(type: string) {
+    setFormStates((prev) => [...prev, blankRow(type)]);
+  }
+
+  function handleRemoveRow(index: number) {
+    setFormStates((prev) => prev.filter((_, i) => i !== index));
+  }
+
   function handleDelete() {
     // フォームを即座に空にする（UI が一気にリセット）
     setFormStates(blankRows());
@@ -191,7 +444,7 @@ export default function SettingYahooAccountPage() {
     submit({ action: "delete" }, { method: "post" });
   }
 
-  const hasValidId = (acs: YahooAdAccount[] | null) => !!acs?.length && acs.every(a => !!a.id);
+  const hasValidId = (acs: YahooAdAccountRow[] | null) => !!acs?.length && acs.every(a => !!a.id);
 
   return (
     <Page>
@@ -201,23 +454,55 @@ export default function SettingYahooAccountPage() {
         </button>
       </ui-title-bar>
       <Layout>
+        {Object.keys(errors).length > 0 && (
+          <Layout.Section>
+            <Banner title="保存できませんでした" tone="critical">
+              <p>{errors.form ?? "入力内容に誤りがある項目があります。各項目のエラーを確認してください。"}</p>
+            </Banner>
+          </Layout.Section>
+        )}
+        {actionData?.warning && (
+          <Layout.Section>
+            <Banner title="保存しました" tone="warning">
+              <p>{actionData.warning}</p>
+            </Banner>
+          </Layout.Section>
+        )}
         { formStates?.map((formState, index) => (
           <Layout.Section key={index}>
             <BlockStack gap="500">
               <Card>
                 <BlockStack gap="500">
-                  <Text as={"h2"} variant="headingLg">
-                    { index === 0 ? '検索広告' : 'ディスプレイ広告' }
-                  </Text>
-                  <TextField
+                  <InlineStack align="space-between" blockAlign="center">
+                    <Text as={"h2"} variant="headingLg">
+                      { formState.type === 'search' ? '検索広告' : 'ディスプレイ広告' }
+                      { formState.id !== undefined ? `（ID: ${formState.id}）` : '（新規）' }
+                    </Text>
+                    <Button
+                      variant="plain"
+                      tone="critical"
+                      disabled={isSaving || isDeleting}
+                      onClick={() => handleRemoveRow(index)}
+                    >
+                      このアカウントを削除
+                    </Button>
+                  </InlineStack>
+                  <UploadPauseBanner account={yahooAdAccounts?.find(yaa => yaa.id === formState.id)} />
+                  <Select
                     id={`type-${index}`}
-                    helpText="search=検索広告、display=ディスプレイ広告"
+                    helpText="保存済みのアカウントの広告タイプは変更できません"
                     label="広告タイプ"
-                    autoComplete="off"
-                    value={index === 0 ? 'search' : 'display'}
-                    readOnly
-                    error={errors.title}
-                  />                  
+                    options={TYPE_OPTIONS}
+                    value={formState.type}
+                    disabled={formState.id !== undefined}
+                    onChange={(value) =>
+                      setFormStates((prev) =>
+                        prev.map((r, i) =>
+                          i === index ? { ...r, type: value } : r,
+                        ),
+                      )
+                    }
+                  />
                   <TextField
                     id={`accountId-${index}`}
                     helpText="Account IDを入力してください"
@@ -231,52 +516,86 @@ export default function SettingYahooAccountPage() {
                         ),
                       )
                     }
-                    error={errors.title}
+                    error={errors[`accountId-${index}`]}
                   />
+                  <AccountOptionFields
+                    index={index}
+                    formState={formState}
+                    errors={errors}
+                    onChange={(changes) =>
+                      setFormStates((prev) =>
+                        prev.map((r, i) =>
+                          i === index ? { ...r, ...changes } : r,
+                        ),
+                      )
+                    }
+                  />
+                  {formState.type === "search" && (
+                    <TextField
+                      id={`yclCookieId-${index}`}
+                      helpText="検索広告のクリックを計測するクッキー名（_ycl_{番号}_aw）の番号を入力してください。番号が一致しないクリックはこのアカウントに送信されません。空欄の場合は全ての検索広告のクリックを送信します"
+                      label="クッキー番号"
+                      autoComplete="off"
+                      value={formState.yclCookieId}
+                      onChange={(value) =>
+                        setFormStates((prev) =>
+                          prev.map((r, i) =>
+                            i === index ? { ...r, yclCookieId: value } : r,
+                          ),
+                        )
+                      }
+                    />
+                  )}
                   <TextField
-                    id={`childAccountId-${index}`}
-                    helpText="Child Account IDを入力してください"
-                    label="Child Account ID"
+                    id={`duration-${index}`}
+                    helpText={`クリックからコンバージョンとして送信するまでの有効期間を入力してください（1〜${UPLOAD.ACCEPTABLE_DAYS}日）`}
+                    label="コンバージョンの有効期間"
                     autoComplete="off"
-                    value={formState?.childAccountId}
+                    type="number"
+                    min={1}
+                    max={UPLOAD.ACCEPTABLE_DAYS}
+                    suffix="日"
+                    value={formState.duration !== undefined ? String(formState.duration) : ""}
                     onChange={(value) =>
                       setFormStates((prev) =>
                         prev.map((r, i) =>
-                          i === index ? { ...r, childAccountId: value } : r,
+                          i === index ? { ...r, duration: value !== "" ? Number(value) : undefined } : r,
                         ),
                       )
                     }
-                    error={errors.title}
+                    error={errors[`duration-${index}`]}
                   />
                   <TextField
-                    id={`conversionTitle-${index}`}
-                    helpText="コンバージョン名を入力してください"
-                    label="コンバージョン名"
+                    id={`holdHours-${index}`}
+                    helpText="コンバージョン発生から送信までの保留時間を入力してください。保留後に注文を再確認し、キャンセル・全額返金・テスト注文は送信しません（0の場合は保留せず、再確認もしません）"
+                    label="送信までの保留時間"
                     autoComplete="off"
-                    value={formState?.conversionTitle}
+                    type="number"
+                    min={0}
+                    suffix="時間"
+                    value={formState.holdHours !== undefined ? String(formState.holdHours) : ""}
                     onChange={(value) =>
                       setFormStates((prev) =>
                         prev.map((r, i) =>
-                          i === index ? { ...r, conversionTitle: value } : r,
+                          i === index ? { ...r, holdHours: value !== "" ? Number(value) : undefined } : r,
                         ),
                       )
                     }
                     error={errors.title}
                   />
-                  <TextField
-                    id={`duration-${index}`}
-                    helpText="コンバージョンの有効期間を入力してください"
-                    label="コンバージョンの有効期間"
-                    autoComplete="off"
-                    value={formState?.duration? String(formState.duration) : ""}
+                  <Select
+                    id={`valueBasis-${index}`}
+                    helpText="コンバージョンの価値として送信する金額を選択してください。金額はShopifyの注文から算出します"
+                    label="コンバージョンの価値"
+                    options={VALUE_BASIS_OPTIONS}
+                    value={formState.valueBasis}
                     onChange={(value) =>
                       setFormStates((prev) =>
                         prev.map((r, i) =>
-                          i === index ? { ...r, duration: Number(value) } : r,
+                          i === index ? { ...r, valueBasis: value } : r,
                         ),
                       )
                     }
-                    error={errors.title}
                   />
                 </BlockStack>
               </Card>
@@ -284,6 +603,13 @@ export default function SettingYahooAccountPage() {
           </Layout.Section>
         ))}
 
+        <Layout.Section>
+          <InlineStack gap="300">
+            <Button onClick={() => handleAddRow("search")}>検索広告のアカウントを追加</Button>
+            <Button onClick={() => handleAddRow("display")}>ディスプレイ広告のアカウントを追加</Button>
+          </InlineStack>
+        </Layout.Section>
+
         <Layout.Section>
           <PageActions
             secondaryActions={[
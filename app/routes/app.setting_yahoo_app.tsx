@@ -19,49 +19,157 @@ import {
   BlockStack,
   PageActions,
   Box,
+  Banner,
+  Badge,
+  InlineStack,
+  DescriptionList,
 } from "@shopify/polaris";
 import { authenticate } from "../shopify.server";
 import db from "../db.server";
-import { Prisma, YahooAdApplication } from "@prisma/client";
-import { createYahooAdState } from "../utils/security.server";
+import type { Prisma, YahooAdApplication } from "@prisma/client";
 import { getYahooAdApplication } from "../models/YahooAdApplication.server";
-import { AUTH } from "../constants"
+import { AUTH, AUTHORIZATION_ERROR, CONNECTION_STATUS } from "../constants"
+import { startYahooAuthorization, completeYahooAuthorization } from "../utils/yahoo_authorization.server";
+import { disconnectYahoo } from "../utils/yahoo_connection.server";
+
+/** 認可に失敗した理由ごとのメッセージ */
+const AUTHORIZATION_ERROR_MESSAGES: Record<string, string> = {
+  [AUTHORIZATION_ERROR.NOT_FOUND]:     "認可リクエストが見つかりません。もう一度認可してください。",
+  [AUTHORIZATION_ERROR.EXPIRED]:       `認可リクエストの有効期限（${AUTH.STATE_EXPIRES_MINUTES}分）が切れています。もう一度認可してください。`,
+  [AUTHORIZATION_ERROR.USED]:          "この認可リクエストは使用済みです。もう一度認可してください。",
+  [AUTHORIZATION_ERROR.USER_MISMATCH]: "認可を開始したユーザーと異なるため、認可を完了できません。認可を開始したユーザーで操作してください。",
+  [AUTHORIZATION_ERROR.DENIED]:        "Yahoo!ビジネスIDで認可されませんでした。",
+  [AUTHORIZATION_ERROR.TOKEN_FAILED]:  "アクセストークンを取得できませんでした。Client IDとClient Secretを確認してください。",
+};
+
+/** 接続状態ごとの表示 */
+const CONNECTION_STATUS_BADGES: Record<string, { label: string, tone?: "success" | "critical" }> = {
+  [CONNECTION_STATUS.NOT_CONNECTED]: { label: "未接続" },
+  [CONNECTION_STATUS.CONNECTED]:     { label: "接続中", tone: "success" },
+  [CONNECTION_STATUS.BROKEN]:        { label: "接続切れ", tone: "critical" },
+};
+
+/**
+ * 画面に返すYahoo広告アプリケーションの設定
+ * トークンは画面に返さず、有無のみを返す
+ */
+type YahooAdApplicationStatus = Omit<YahooAdApplication, "code" | "accessToken" | "refreshToken" | "tokenRefreshLockedAt"> & {
+  hasCode: boolean;
+  hasRefreshToken: boolean;
+};
+
+type FormState = {
+  clientId: string;
+  clientSecret: string;
+};
+
+// フォーム状態の初期化をヘルパー関数で統一
+const createFormState = (app: Pick<YahooAdApplicationStatus, "clientId" | "clientSecret"> | null): FormState => ({
+  clientId: app?.clientId ?? "",
+  clientSecret: app?.clientSecret ?? "",
+});
+
+/**
+ * 日時を表示用の文字列にする
+ */
+const formatDateTime = (value: Date | string | null) =>
+  value ? new Date(value).toLocaleString("ja-JP") : "—";
+
+/**
+ * 日時からの経過時間を表示用の文字列にする
+ */
+const formatAge = (value: Date | string | null) => {
+  if (!value) return "";
+  const minutes = Math.floor((Date.now() - new Date(value).getTime()) / (60 * 1000));
+  if (minutes < 60) return `（${minutes}分前）`;
+  if (minutes < 24 * 60) return `（${Math.floor(minutes / 60)}時間前）`;
+  return `（${Math.floor(minutes / (24 * 60))}日前）`;
+};
+
+/**
+ * 日時付きのエラーを表示用の文字列にする
+ */
+const formatError = (message: string | null, at: Date | string | null) =>
+  message ? `${formatDateTime(at)}：${message}` : "なし";
 
 export async function loader({ request }: LoaderFunctionArgs) {
-  await authenticate.admin(request);
+  const { session, sessionToken, redirect } = await authenticate.admin(request);
+
+  // 認可後のリダイレクト（receive.code経由）の場合は、認可を開始したユーザーであることを確認して認可を完了する
+  const url   = new URL(request.url);
+  const state = url.searchParams.get("state");
+  if(state) {
+    const error = await completeYahooAuthorization({
+      state:  state,
+      code:   url.searchParams.get("code"),
+      error:  url.searchParams.get("error"),
+      shop:   session.shop,
+      userId: sessionToken.sub,
+    });
+    // 再読み込みで同じstateを使用しないように、パラメータを除いた画面へリダイレクトする
+    const query = new URLSearchParams(error ? { authorization_error: error } : { authorized: "true" });
+    return redirect("/app/setting_yahoo_app?" + query.toString());
+  }
 
-  return Response.json(await getYahooAdApplication());
+  const yahooAdApplication = await getYahooAdApplication(session.shop);
+
+  const authorizationError = url.searchParams.get("authorization_error");
+  const authorizationResult = url.searchParams.get("authorized")
+    ? { success: true, message: "Yahoo!広告との連携が完了しました。" }
+    : authorizationError
+      ? { success: false, message: AUTHORIZATION_ERROR_MESSAGES[authorizationError] ?? "認可に失敗しました。" }
+      : null;
+
+  let status: YahooAdApplicationStatus | null = null;
+  if (yahooAdApplication) {
+    const { code, accessToken, refreshToken, tokenRefreshLockedAt, ...rest } = yahooAdApplication;
+    status = { ...rest, hasCode: !!code, hasRefreshToken: !!refreshToken };
+  }
+
+  return Response.json({ yahooAdApplication: status, authorizationResult });
 }
 
 export async function action({ request }: ActionFunctionArgs) {
-  await authenticate.admin(request);
+  const { session, sessionToken } = await authenticate.admin(request);
 
   const formData     = await request.formData();
   const action       = formData.get('action');
   const clientId     = formData.get("clientId");
   const clientSecret = formData.get("clientSecret");
-  const state        = createYahooAdState();
 
-  const existing = await getYahooAdApplication();
+  const existing = await getYahooAdApplication(session.shop);
 
   if (action === "delete" && existing) {
-    await db.yahooAdApplication.delete({ where: { clientId: existing.clientId } });
+    await db.yahooAdApplication.delete({ where: { shop: existing.shop } });
     return Response.json({ deleted: true });
   }
 
+  // トークンを削除して接続を解除する（Client IDとClient Secretは残す）
+  if (action === "disconnect" && existing) {
+    await disconnectYahoo(existing.shop);
+    return Response.json({ disconnected: true });
+  }
+
+  // 認可リクエストを発行し、認可エンドポイントのURLを返す（再接続も同じ）
+  if (action === "authorize") {
+    if (!existing) throw new Response("Yahoo!広告アプリケーションが設定されていません", { status: 400 });
+    const authorizeUrl = await startYahooAuthorization(existing, session.shop, sessionToken.sub);
+    return Response.json({ authorizeUrl });
+  }
+
   if (typeof clientId !== "string" || typeof clientSecret !== "string") {
     throw new Response("clientId / clientSecret が不正です", { status: 400 });
   }
 
   const data : Prisma.YahooAdApplicationCreateInput = {
+    shop: session.shop,
     clientId,
     clientSecret,
     redirectUri: process.env.SHOPIFY_APP_URL + AUTH.REDIRECT_URI,
-    state
   };
 
   if (existing) {
-    await db.yahooAdApplication.update({ where: { clientId: existing.clientId }, data });
+    await db.yahooAdApplication.update({ where: { shop: existing.shop }, data });
   } else {
     await db.yahooAdApplication.create({ data })
   }
@@ -73,30 +181,27 @@ export default function SettingYahooAppPage() {
   type ActionData = {
     errors?: Record<string, string>;
     deleted?: boolean;
+    authorizeUrl?: string;
   };
   const actionData = useActionData<ActionData>();
   const errors = actionData?.errors || {};
 
-  // フォーム状態の初期化をヘルパー関数で統一
-  const createFormState = (app: any): FormState => ({
-    clientId: app?.clientId ?? "",
-    clientSecret: app?.clientSecret ?? "",
-  });
-
   useEffect(() => {
     if (actionData?.deleted) {
       const blank = createFormState(null);
       setFormState(blank);
       setCleanFormState(blank);
     }
+    // 管理画面の外（Yahoo!ビジネスIDの認可画面）へ移動する
+    if (actionData?.authorizeUrl) {
+      open(actionData.authorizeUrl, "_top");
+    }
   }, [actionData]);
 
-  type FormState = {
-    clientId: string;
-    clientSecret: string;
-  };
-
-  const yahooAdApplication = useLoaderData<YahooAdApplication | null>();
+  const { yahooAdApplication, authorizationResult } = useLoaderData<{
+    yahooAdApplication: YahooAdApplicationStatus | null;
+    authorizationResult: { success: boolean; message: string } | null;
+  }>();
   
   const [formState, setFormState] = useState<FormState>(createFormState(yahooAdApplication));
   const [cleanFormState, setCleanFormState] = useState<FormState>(createFormState(yahooAdApplication));
@@ -110,9 +215,13 @@ export default function SettingYahooAppPage() {
 
   const nav = useNavigation();
   const isSaving =
-    nav.state === "submitting" && nav.formData?.get("action") !== "delete";
+    nav.state === "submitting" && !["delete", "authorize", "disconnect"].includes(String(nav.formData?.get("action")));
   const isDeleting =
     nav.state === "submitting" && nav.formData?.get("action") === "delete";
+  const isAuthorizing =
+    nav.state === "submitting" && nav.formData?.get("action") === "authorize";
+  const isDisconnecting =
+    nav.state === "submitting" && nav.formData?.get("action") === "disconnect";
   
   const navigate = useNavigate();
 
@@ -127,16 +236,12 @@ export default function SettingYahooAppPage() {
     submit(data, { method: "post" });
   }
 
-  let auth_url = "#";
-  if(yahooAdApplication) {
-    const auth_url_query = {
-      response_type: AUTH.RESPONSE_TYPE,
-      client_id: yahooAdApplication.clientId,
-      redirect_uri: yahooAdApplication.redirectUri,
-      scope: AUTH.SCOPE,
-      state: String(yahooAdApplication.state)
-    }
-    auth_url = AUTH.ENDPOINT + AUTH.VERSION + AUTH.AUTHORIZE_PATH + '?' + new URLSearchParams(auth_url_query).toString();
+  function handleAuthorize() {
+    submit({ action: "authorize" }, { method: "post" });
+  }
+
+  function handleDisconnect() {
+    submit({ action: "disconnect" }, { method: "post" });
   }
 
   function handleDelete() {
@@ -157,6 +262,37 @@ export default function SettingYahooAppPage() {
         </button>
       </ui-title-bar>
       <Layout>
+        {authorizationResult && (
+          <Layout.Section>
+            <Banner
+              title={authorizationResult.success ? "認可が完了しました" : "認可に失敗しました"}
+              tone={authorizationResult.success ? "success" : "critical"}
+            >
+              <p>{authorizationResult.message}</p>
+            </Banner>
+          </Layout.Section>
+        )}
+        {yahooAdApplication?.connectionStatus === CONNECTION_STATUS.BROKEN && (
+          <Layout.Section>
+            <Banner title="Yahoo!広告との接続が切れています" tone="critical">
+              <p>
+                リフレッシュトークンの失効などによりアクセストークンを更新できないため、コンバージョンを送信できません。
+                下記の「再接続」から再認可してください。
+              </p>
+              <p>エラー：{yahooAdApplication.lastTokenError}</p>
+            </Banner>
+          </Layout.Section>
+        )}
+        {yahooAdApplication?.connectionStatus === CONNECTION_STATUS.CONNECTED && yahooAdApplication.lastTokenError && (
+          <Layout.Section>
+            <Banner title="アクセストークンの更新に失敗しました" tone="warning">
+              <p>
+                一時的なエラーの可能性があるため、次回のバッチ処理で再度更新します。
+              </p>
+              <p>エラー：{yahooAdApplication.lastTokenError}</p>
+            </Banner>
+          </Layout.Section>
+        )}
         <Layout.Section>
           <BlockStack gap="500">
             <Card>
@@ -204,18 +340,49 @@ export default function SettingYahooAppPage() {
           <Layout.Section>
             <Card>
               <BlockStack gap="500">
-                <Text as="h2" variant="headingLg">
-                  Yahoo!広告アプリケーションの認可エンドポイント
-                </Text>
-                <Text variant="bodyMd" as="p">
-                  <a href={auth_url} target="_blank">{auth_url}</a>
+                <InlineStack align="space-between" blockAlign="center">
+                  <Text as="h2" variant="headingLg">
+                    Yahoo!広告との接続状態
+                  </Text>
+                  <Badge tone={CONNECTION_STATUS_BADGES[yahooAdApplication.connectionStatus]?.tone}>
+                    {CONNECTION_STATUS_BADGES[yahooAdApplication.connectionStatus]?.label ?? yahooAdApplication.connectionStatus}
+                  </Badge>
+                </InlineStack>
+                <DescriptionList
+                  items={[
+                    { term: "認可コード",                 description: yahooAdApplication.hasCode ? "あり" : "なし" },
+                    { term: "リフレッシュトークン",       description: yahooAdApplication.hasRefreshToken ? "あり" : "なし" },
+                    { term: "認可日時",                   description: formatDateTime(yahooAdApplication.authorizedAt) + formatAge(yahooAdApplication.authorizedAt) },
+                    { term: "アクセストークンの最終更新", description: formatDateTime(yahooAdApplication.tokenCreatedAt) + formatAge(yahooAdApplication.tokenCreatedAt) },
+                    { term: "アクセストークンの有効期限", description: formatDateTime(yahooAdApplication.accessTokenExpiresAt) },
+                    { term: "最後のトークンエラー",       description: formatError(yahooAdApplication.lastTokenError, yahooAdApplication.lastTokenErrorAt) },
+                    { term: "最後のAPIエラー",            description: formatError(yahooAdApplication.lastApiError, yahooAdApplication.lastApiErrorAt) },
+                  ]}
+                />
+                <Text variant="bodyMd" as="p" tone="subdued">
+                  Yahoo!ビジネスIDの認可画面に移動します。認可が完了すると、この画面に戻ります。<br />
+                  認可は{AUTH.STATE_EXPIRES_MINUTES}分以内に、認可を開始したユーザーで完了してください。<br />
+                  接続を解除すると、Client IDとClient Secretを残したまま、保存しているトークンを削除します。
                 </Text>
+                <InlineStack gap="300">
+                  <Button variant="primary" loading={isAuthorizing} disabled={isDirty || isDisconnecting} onClick={handleAuthorize}>
+                    {yahooAdApplication.connectionStatus === CONNECTION_STATUS.NOT_CONNECTED ? "Yahoo!広告で認可する" : "再接続"}
+                  </Button>
+                  <Button
+                    tone="critical"
+                    loading={isDisconnecting}
+                    disabled={(!yahooAdApplication.hasCode && !yahooAdApplication.hasRefreshToken) || isAuthorizing}
+                    onClick={handleDisconnect}
+                  >
+                    接続を解除
+                  </Button>
+                </InlineStack>
               </BlockStack>
             </Card>
           </Layout.Section>
         )}
 
-        {yahooAdApplication?.refreshToken && (
+        {yahooAdApplication?.connectionStatus === CONNECTION_STATUS.CONNECTED && (
           <Layout.Section>
             <Card>
               <BlockStack gap="500">
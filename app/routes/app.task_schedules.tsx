@@ -0,0 +1,387 @@
+// SPDX-License-Identifier: MIT
+
+import { useState, useEffect } from "react";
+import type { ActionFunctionArgs, LoaderFunctionArgs } from "@remix-run/node";
+import type { ShouldRevalidateFunction } from "@remix-run/react";
+import {
+  useActionData,
+  useFetcher,
+  useLoaderData,
+  useNavigation,
+  useSubmit,
+  useNavigate,
+} from "@remix-run/react";
+import {
+  Card,
+  Layout,
+  Page,
+  Text,
+  Button,
+  TextField,
+  Checkbox,
+  BlockStack,
+  InlineStack,
+  PageActions,
+  Banner,
+  Badge,
+} from "@shopify/polaris";
+import { authenticate } from "../shopify.server";
+import db from "../db.server";
+import { JOB_RUN_STATUS, TASK_SCHEDULE, type TaskName } from "../constants";
+import {
+  getTaskSchedules,
+  isTaskName,
+  validateCronExpression,
+  isBatchOperator,
+  canRunTaskNow,
+} from "../utils/task_schedule.server";
+import { syncTaskSchedules, getNextRun } from "../batch/scheduler";
+import { startTask } from "../batch/runner";
+
+/** タスクごとの表示 */
+const TASK_LABELS: Record<TaskName, { label: string, description: string }> = {
+  createCsvAndImportToYahoo: {
+    label:       "CSV作成とYahoo広告へのインポート",
+    description: "未送信のコンバージョンをYahoo広告にアップロードします。",
+  },
+  checkUploadResults: {
+    label:       "Yahoo広告での処理結果の確認",
+    description: "アップロードしたコンバージョンが取り込まれたかを確認します。",
+  },
+  generatePublicKey: {
+    label:       "公開鍵生成",
+    description: "Web Pixelがコンバージョンの暗号化に使用する鍵を更新します。",
+  },
+  maintenance: {
+    label:       "メンテナンス",
+    description: "期限切れのレコードとピクセルノンスを削除します（すべてのショップが対象です）。",
+  },
+};
+
+/**
+ * タスクの終了を確認する実行記録の名前（メンテナンスは最後に実行する処理）
+ */
+const JOB_RUN_NAMES: Record<TaskName, string> = {
+  createCsvAndImportToYahoo: "createCsvAndImportToYahoo",
+  checkUploadResults:        "checkUploadResults",
+  generatePublicKey:         "generatePublicKey",
+  maintenance:               "cleanUpPixelNonce",
+};
+
+/** 今すぐ実行したタスクの実行記録を確認する間隔（ミリ秒） */
+const RUN_STATUS_POLL_MS = 3000;
+
+/** 実行結果ごとの表示 */
+const STATUS_BADGES: Record<string, { label: string, tone?: "success" | "critical" | "info" }> = {
+  [JOB_RUN_STATUS.RUNNING]:   { label: "実行中", tone: "info" },
+  [JOB_RUN_STATUS.SUCCEEDED]: { label: "成功", tone: "success" },
+  [JOB_RUN_STATUS.FAILED]:    { label: "失敗", tone: "critical" },
+  [JOB_RUN_STATUS.SKIPPED]:   { label: "スキップ" },
+};
+
+/**
+ * 画面に返すタスクのスケジュール
+ */
+type TaskScheduleRow = {
+  name: TaskName;
+  cronExpression: string;
+  enabled: boolean;
+  nextRunAt: string | null;
+};
+
+/**
+ * 画面に返す内容
+ */
+type LoaderData = {
+  schedules: TaskScheduleRow[];
+  /** スケジュールを変更できるか（バッチを運用するショップのみ） */
+  isOperator: boolean;
+  /** 今すぐ実行できるタスク */
+  runnableTasks: TaskName[];
+};
+
+/**
+ * フォームの状態
+ */
+type FormState = {
+  name: TaskName;
+  cronExpression: string;
+  enabled: boolean;
+};
+
+/**
+ * スケジュールをフォームの状態に変換する
+ */
+const toFormStates = (rows: TaskScheduleRow[]): FormState[] =>
+  rows.map(({ name, cronExpression, enabled }) => ({ name, cronExpression, enabled }));
+
+/**
+ * 日時を表示用の文字列にする
+ */
+const formatDateTime = (value: Date | string | null) =>
+  value ? new Date(value).toLocaleString("ja-JP", { timeZone: TASK_SCHEDULE.TIMEZONE }) : "—";
+
+export async function loader({ request }: LoaderFunctionArgs) {
+  const { session } = await authenticate.admin(request);
+
+  const schedules = await getTaskSchedules();
+  return Response.json({
+    schedules: schedules.map(schedule => ({
+      ...schedule,
+      nextRunAt: getNextRun(schedule.name),
+    })),
+    isOperator:    isBatchOperator(session.shop),
+    runnableTasks: schedules.flatMap(schedule => canRunTaskNow(schedule.name, session.shop) ? [schedule.name] : []),
+  });
+}
+
+export async function action({ request }: ActionFunctionArgs) {
+  const { session } = await authenticate.admin(request);
+  const formData = await request.formData();
+  const action = formData.get("action");
+
+  /* ---------- 今すぐ実行 ---------- */
+  if (action === "run") {
+    const name = formData.get("name");
+    if (!isTaskName(name)) throw new Response("タスクが不正です", { status: 400 });
+    if (!canRunTaskNow(name, session.shop)) throw new Response("このタスクは実行できません", { status: 403 });
+
+    // 終了を待たずに返し、結果は画面から実行記録で確認する
+    const started = await startTask(name, session.shop);
+    return Response.json(started ? { started: name, startedAt: new Date() } : { busy: name });
+  }
+
+  /* ---------- 保存 ---------- */
+  // スケジュールは全ショップに適用されるため、バッチを運用するショップのみ変更できる
+  if (!isBatchOperator(session.shop)) {
+    throw new Response("スケジュールを変更する権限がありません", { status: 403 });
+  }
+
+  const names           = formData.getAll("name");
+  const cronExpressions = formData.getAll("cronExpression");
+  const enabledList     = formData.getAll("enabled");
+
+  if (names.length !== cronExpressions.length || names.length !== enabledList.length) {
+    throw new Response("行数が揃っていません", { status: 400 });
+  }
+  if (names.some(name => !isTaskName(name))) {
+    throw new Response("タスクが不正です", { status: 400 });
+  }
+
+  const records = names.map((name, i) => ({
+    name:           name as TaskName,
+    cronExpression: String(cronExpressions[i]).trim().replace(/\s+/g, " "),
+    enabled:        enabledList[i] === "true",
+  }));
+
+  const errors: Record<string, string> = {};
+  records.forEach((record, index) => {
+    const error = validateCronExpression(record.cronExpression);
+    if (error) errors[`cronExpression-${index}`] = error;
+  });
+  if (Object.keys(errors).length) {
+    return Response.json({ errors });
+  }
+
+  await db.$transaction(records.map(record =>
+    db.taskSchedule.upsert({
+      where:  { name: record.name },
+      create: record,
+      update: { cronExpression: record.cronExpression, enabled: record.enabled },
+    })
+  ));
+
+  // 再起動せずに新しいスケジュールで登録し直す（他のプロセスには定期的な確認で反映される）
+  await syncTaskSchedules();
+
+  return Response.json({ saved: records.length });
+}
+
+/**
+ * 今すぐ実行した後は、編集中のスケジュールを保持するために再読み込みしない
+ */
+export const shouldRevalidate: ShouldRevalidateFunction = ({ formData, defaultShouldRevalidate }) =>
+  formData?.get("action") === "run" ? false : defaultShouldRevalidate;
+
+/**
+ * タスクを今すぐ実行するボタン
+ */
+function RunNowButton({ name }: { name: TaskName }) {
+  const fetcher = useFetcher<{ started?: TaskName; startedAt?: string; busy?: TaskName }>();
+  const statusFetcher = useFetcher<{ status: string; startedAt: string }[]>();
+  const isStarting = fetcher.state !== "idle";
+  const startedAt = !isStarting ? fetcher.data?.startedAt : undefined;
+
+  // 開始した実行の実行記録（開始後に作成されたもの）
+  const jobRun = startedAt
+    ? statusFetcher.data?.find(run => new Date(run.startedAt).getTime() >= new Date(startedAt).getTime() - 1000)
+    : undefined;
+  const isFinished = !!jobRun && jobRun.status !== JOB_RUN_STATUS.RUNNING;
+
+  // 終了するまで、実行記録を定期的に確認する
+  const loadStatus = statusFetcher.load;
+  useEffect(() => {
+    if (!startedAt || isFinished) return;
+    const timer = setTimeout(() => loadStatus(`/app/job_runs?task=${JOB_RUN_NAMES[name]}&days=1`), RUN_STATUS_POLL_MS);
+    return () => clearTimeout(timer);
+  }, [startedAt, isFinished, statusFetcher.data, loadStatus, name]);
+
+  const badge = STATUS_BADGES[jobRun?.status ?? JOB_RUN_STATUS.RUNNING];
+
+  return (
+    <InlineStack gap="200" blockAlign="center">
+      <Button
+        loading={isStarting}
+        disabled={!!startedAt && !isFinished}
+        onClick={() => fetcher.submit({ action: "run", name }, { method: "post" })}
+      >
+        今すぐ実行
+      </Button>
+      {startedAt && (
+        <InlineStack gap="100" blockAlign="center">
+          <Badge tone={badge.tone}>{badge.label}</Badge>
+          <Text as="span" tone="subdued">詳細はバッチの実行履歴で確認できます。</Text>
+        </InlineStack>
+      )}
+      {!isStarting && fetcher.data?.busy && (
+        <Text as="span" tone="critical">実行中のため、実行できませんでした。しばらくしてからお試しください。</Text>
+      )}
+    </InlineStack>
+  );
+}
+
+export default function TaskSchedulesPage() {
+  type ActionData = {
+    errors?: Record<string, string>;
+    saved?: number;
+  };
+
+  const { schedules, isOperator, runnableTasks } = useLoaderData<LoaderData>();
+  const actionData = useActionData<ActionData>();
+  const errors = actionData?.errors ?? {};
+
+  const [formStates, setFormStates] = useState<FormState[]>(() => toFormStates(schedules));
+  const [cleanFormStates, setCleanFormStates] = useState<FormState[]>(() => toFormStates(schedules));
+  const isDirty = JSON.stringify(formStates) !== JSON.stringify(cleanFormStates) || !!actionData?.errors;
+
+  useEffect(() => {
+    setFormStates(toFormStates(schedules));
+    setCleanFormStates(toFormStates(schedules));
+  }, [schedules]);
+
+  const nav = useNavigation();
+  const isSaving = nav.state === "submitting";
+
+  const navigate = useNavigate();
+
+  const submit = useSubmit();
+
+  /** 行の値を更新する */
+  const updateRow = (index: number, values: Partial<FormState>) =>
+    setFormStates((prev) => prev.map((r, i) => i === index ? { ...r, ...values } : r));
+
+  function handleSave() {
+    const fd = new FormData();
+
+    formStates.forEach(row => {
+      fd.append("name", row.name);
+      fd.append("cronExpression", row.cronExpression);
+      fd.append("enabled", String(row.enabled));
+    });
+
+    setCleanFormStates([...formStates]);
+    submit(fd, { method: "post" });
+  }
+
+  return (
+    <Page>
+      <ui-title-bar title="バッチのスケジュール設定">
+        <button variant="breadcrumb" onClick={() => navigate("/app")}>
+          Home
+        </button>
+      </ui-title-bar>
+      <Layout>
+        <Layout.Section>
+          <Card>
+            <BlockStack gap="200">
+              <Text as="p">
+                各タスクを定期実行するスケジュールを、cron式（分 時 日 月 曜日）で設定します。
+                時刻は日本時間で、スケジュールはすべてのショップに適用されます。
+              </Text>
+              <Text as="p" tone="subdued">
+                「今すぐ実行」は、スケジュールを待たずにこのショップを対象にタスクを開始し、終了するまで実行状況を表示します。
+                例えば、コンバージョン名を修正した後に、すぐにコンバージョンを送信できます。
+              </Text>
+            </BlockStack>
+          </Card>
+        </Layout.Section>
+
+        {!isOperator && (
+          <Layout.Section>
+            <Banner tone="info">
+              <p>スケジュールはすべてのショップに適用されるため、アプリの運用者のみ変更できます。</p>
+            </Banner>
+          </Layout.Section>
+        )}
+
+        {errors && Object.keys(errors).length > 0 && (
+          <Layout.Section>
+            <Banner title="保存できませんでした" tone="critical">
+              <p>入力内容を確認してください。</p>
+            </Banner>
+          </Layout.Section>
+        )}
+
+        { formStates.map((formState, index) => (
+          <Layout.Section key={formState.name}>
+            <Card>
+              <BlockStack gap="500">
+                <InlineStack align="space-between" blockAlign="center">
+                  <BlockStack gap="100">
+                    <Text as={"h2"} variant="headingLg">
+                      {TASK_LABELS[formState.name].label}
+                    </Text>
+                    <Text as="p" tone="subdued">
+                      {TASK_LABELS[formState.name].description}
+                    </Text>
+                  </BlockStack>
+                  {runnableTasks.includes(formState.name) && <RunNowButton name={formState.name} />}
+                </InlineStack>
+                <TextField
+                  id={`cronExpression-${index}`}
+                  label="スケジュール（cron式）"
+                  autoComplete="off"
+                  helpText={`既定：${TASK_SCHEDULE.DEFAULTS[formState.name]} ／ 次回の実行：${formatDateTime(schedules[index]?.nextRunAt ?? null)}`}
+                  value={formState.cronExpression}
+                  disabled={!isOperator}
+                  onChange={(value) => updateRow(index, { cronExpression: value })}
+                  error={errors[`cronExpression-${index}`]}
+                />
+                <Checkbox
+                  id={`enabled-${index}`}
+                  label="定期実行する"
+                  checked={formState.enabled}
+                  disabled={!isOperator}
+                  onChange={(checked) => updateRow(index, { enabled: checked })}
+                />
+              </BlockStack>
+            </Card>
+          </Layout.Section>
+        ))}
+
+        {isOperator && (
+          <Layout.Section>
+            <PageActions
+              primaryAction={{
+                content: "Save",
+                loading: isSaving,
+                disabled: !isDirty || isSaving,
+                onAction: handleSave,
+              }}
+            />
+          </Layout.Section>
+        )}
+      </Layout>
+    </Page>
+  );
+}
@@ -13,11 +13,11 @@ import db from "../db.server";
 export const links = () => [{ rel: "stylesheet", href: polarisStyles }];
 
 export const loader = async ({ request }: LoaderFunctionArgs) => {
-  const { admin } = await authenticate.admin(request);
+  const { admin, session } = await authenticate.admin(request);
 
-  await ensurePixelConnected(admin);
+  await ensurePixelConnected(admin, session.shop);
 
-  const record = await db.session.findFirst();
+  const record = await db.session.findFirst({ where: { id: session.id } });
   if(record && !record.primaryDomain) {
     const { data } = await admin.graphql(`query {shop{ primaryDomain { url } }}`).then(r => r.json());
     await db.session.update({ where: { id: record.id }, data: { primaryDomain: data.shop.primaryDomain.url } });
@@ -37,6 +37,12 @@ export default function App() {
         </Link>
         <Link to="/app/setting_yahoo_app">アプリケーション設定</Link>
         <Link to="/app/setting_yahoo_account">広告アカウント設定</Link>
+        <Link to="/app/setting_routing_rules">振り分けルール設定</Link>
+        <Link to="/app/exchange_rates">為替レート設定</Link>
+        <Link to="/app/setting_store">ストア設定</Link>
+        <Link to="/app/csv_preview">送信予定のCSV</Link>
+        <Link to="/app/task_schedules">バッチのスケジュール</Link>
+        <Link to="/app/job_runs">バッチの実行履歴</Link>
       </NavMenu>
       <Outlet />
     </AppProvider>
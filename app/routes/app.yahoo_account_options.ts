@@ -0,0 +1,67 @@
+// SPDX-License-Identifier: MIT
+
+/**
+ * 広告アカウント設定の選択肢を取得するエンドポイント
+ *
+ * 広告アカウント設定画面から、入力中のアカウントに応じて呼び出されます。
+ * ベースアカウントの配下のアカウント（AccountLinkService）と、
+ * コンバージョンを送信するアカウントのオフラインコンバージョン（ConversionTrackerService）を返します。
+ *
+ * @fileoverview 広告アカウント設定の選択肢の取得
+ */
+
+import type { LoaderFunctionArgs } from "@remix-run/node";
+import { authenticate } from "../shopify.server";
+import {
+  getYahooAdsAccessToken,
+  getLinkedAccounts,
+  getConversionTrackers,
+  isOfflineConversionTracker,
+} from "../utils/yahoo_ads_api.server";
+
+/**
+ * 広告アカウント設定の選択肢を返すローダー関数
+ *
+ * クエリパラメータ：
+ * - type: 広告タイプ（search / display）
+ * - accountId: ベースアカウントのID
+ * - childAccountId: コンバージョンを送信するアカウントのID（省略時や、配下にないアカウントの場合はコンバージョンを取得しない）
+ *
+ * Yahoo広告と接続されていない場合や、APIがエラーを返した場合は、errorに理由を返します。
+ */
+export async function loader({ request }: LoaderFunctionArgs) {
+  const { session } = await authenticate.admin(request);
+
+  const url = new URL(request.url);
+  const type = url.searchParams.get("type");
+  const accountId = url.searchParams.get("accountId") ?? "";
+  const childAccountId = url.searchParams.get("childAccountId") ?? "";
+  if (type !== "search" && type !== "display") {
+    throw new Response("広告タイプが不正です", { status: 400 });
+  }
+  if (!/^\d+$/.test(accountId) || (childAccountId && !/^\d+$/.test(childAccountId))) {
+    return Response.json({ error: "アカウントIDは数字で入力してください" });
+  }
+
+  const accessToken = await getYahooAdsAccessToken(session.shop);
+  if (!accessToken) {
+    return Response.json({ error: "Yahoo広告と接続されていません" });
+  }
+
+  try {
+    const linkedAccounts = await getLinkedAccounts(session.shop, type, accountId, accessToken);
+    // 配下にないアカウントはアクセスできないため、コンバージョンを取得しない
+    const isAccessible = childAccountId === accountId || linkedAccounts.some(la => la.accountId === childAccountId);
+    const conversionTrackers = childAccountId && isAccessible
+      ? await getConversionTrackers(session.shop, type, accountId, childAccountId, accessToken)
+      : [];
+
+    return Response.json({
+      linkedAccounts,
+      conversionTrackers: conversionTrackers.filter(ct => isOfflineConversionTracker(type, ct)),
+    });
+  } catch (error) {
+    console.error("yahoo_account_options error:", error);
+    return Response.json({ error: (error as Error).message });
+  }
+}
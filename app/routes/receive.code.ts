@@ -5,15 +5,14 @@
  * 
  * このルートは、Yahoo!広告APIのOAuth認証フローで使用されます。
  * ユーザーがYahoo!の認証ページで認証を完了した後、このエンドポイントにリダイレクトされ、
- * 認証コードを受け取ってアクセストークンを取得します。
+ * 認証コードを受け取って埋め込みアプリの設定画面へ引き渡します。
+ * アクセストークンの取得は、認可を開始したユーザーであることを確認できる埋め込みアプリ側で行います。
  * 
  * @fileoverview Yahoo!広告API OAuth認証コード受信処理
  */
 
-import type { LoaderFunctionArgs } from "@remix-run/node";
-import db from "../db.server";
-import { getYahooAdApplication } from "../models/YahooAdApplication.server";
-import { getYahooAdToken } from "../utils/get_yahoo_ad_token.server";
+import { redirect, type LoaderFunctionArgs } from "@remix-run/node";
+import { findValidYahooAuthorization } from "../utils/yahoo_authorization.server";
 
 /**
  * エラーレスポンスを生成するヘルパー関数
@@ -27,20 +26,19 @@ const errorResponse = (code: number) => Response.json(
 );
 
 /**
- * Yahoo!広告APIのOAuth認証コードを受信し、アクセストークンを取得するローダー関数
+ * Yahoo!広告APIのOAuth認証コードを受信し、埋め込みアプリの設定画面へリダイレクトするローダー関数
  * 
  * この関数は以下の処理を行います：
  * 1. GETリクエストのみを許可
- * 2. URLパラメータからstateとcodeを取得
- * 3. Yahoo!広告アプリケーション情報を取得
- * 4. stateパラメータの検証
- * 5. 認証コードを使用してアクセストークンを取得
- * 6. 成功時は完了ページのHTMLを返す
+ * 2. URLパラメータからstateとcode（認可されなかった場合はerror）を取得
+ * 3. stateに対応する認可リクエストが、有効期限内で未使用であることを検証
+ * 4. 認可を開始したショップの管理画面（埋め込みアプリの設定画面）へリダイレクト
+ *    （設定画面で認可を開始したユーザーであることを確認し、アクセストークンを取得する）
  * 
  * @param request - Remixのリクエストオブジェクト
- * @returns 成功時はHTMLレスポンス、エラー時はJSONエラーレスポンス
+ * @returns 成功時はリダイレクトレスポンス、エラー時はJSONエラーレスポンス
  * 
- * @throws {Error} データベース操作やトークン取得時のエラー
+ * @throws {Error} データベース操作時のエラー
  */
 export const loader = async ({ request }: LoaderFunctionArgs) => {
  
@@ -50,39 +48,16 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
     const url = new URL(request.url);
     const state = url.searchParams.get("state");
     const code = url.searchParams.get("code");
-    if(!state || !code) return errorResponse(2);
+    const error = url.searchParams.get("error");
+    if(!state || (!code && !error)) return errorResponse(2);
 
-    const yahooAdApplication = await getYahooAdApplication();
-    if(!yahooAdApplication) return errorResponse(3);
+    const authorization = await findValidYahooAuthorization(state);
+    if(!authorization) return errorResponse(4);
 
-    if(state !== yahooAdApplication.state) return errorResponse(4);
+    const query = new URLSearchParams({ state: state, ...(code ? { code: code } : { error: error! }) });
+    const location = `https://${authorization.shop}/admin/apps/${process.env.SHOPIFY_API_KEY}/app/setting_yahoo_app?${query.toString()}`;
 
-    const updatedYahooAdApplication = await db.yahooAdApplication.update({
-      where: { clientId: yahooAdApplication.clientId },
-      data:  { code: code }
-    });
-    if(!updatedYahooAdApplication) return errorResponse(5);
-
-    const accessToken = await getYahooAdToken(updatedYahooAdApplication);
-    if(!accessToken) return errorResponse(6);
-
-    const html = `<!DOCTYPE html>
-      <html lang="ja">
-        <head>
-          <meta charset="utf-8" />
-          <title>Yahoo! OAuth 完了</title>
-        </head>
-        <body>
-          <h1>連携完了</h1>
-          <p>このページは閉じていただいて大丈夫です。</p>
-        </body>
-      </html>
-    `;
-
-    return new Response(html, {
-      status: 200,
-      headers: { "Content-Type": "text/html; charset=utf-8" },
-    });
+    return redirect(location);
   } catch (error) {
     console.error("error:", error);
     return Response.json(
@@ -0,0 +1,36 @@
+// SPDX-License-Identifier: MIT
+
+import type { ActionFunctionArgs } from "@remix-run/node";
+import { authenticate } from "../shopify.server";
+import { ADJUSTMENT_KIND } from "../constants";
+import { recordConversionAdjustment } from "../utils/conversion_adjustment.server";
+
+/**
+ * Shopifyのorders/cancelled webhookを処理するアクション関数
+ *
+ * 注文がキャンセルされた場合に、その注文のコンバージョンの残額を全額減額する
+ * 価値の調整を記録します。調整は次回のバッチでYahoo広告に送信されます。
+ *
+ * @param request - リクエストオブジェクト
+ * @returns 空のレスポンス
+ */
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { shop, topic, payload } = await authenticate.webhook(request);
+
+  console.log(`Received ${topic} webhook for ${shop}`);
+
+  try {
+    const count = await recordConversionAdjustment({
+      shop:       shop,
+      orderId:    String(payload.id),
+      kind:       ADJUSTMENT_KIND.CANCEL,
+      sourceId:   String(payload.id),
+      amount:     null,
+      adjustedAt: new Date(payload.cancelled_at ?? Date.now()),
+    });
+    if (count) console.log(`Recorded conversion adjustments for cancelled order`);
+  } catch (error) {
+    console.error("orders/cancelled webhook error:", error);
+  }
+  return new Response();
+};
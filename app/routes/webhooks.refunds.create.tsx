@@ -0,0 +1,46 @@
+// SPDX-License-Identifier: MIT
+
+import type { ActionFunctionArgs } from "@remix-run/node";
+import { authenticate } from "../shopify.server";
+import { Prisma } from "@prisma/client";
+import { ADJUSTMENT_KIND } from "../constants";
+import { recordConversionAdjustment } from "../utils/conversion_adjustment.server";
+
+/**
+ * Shopifyのrefunds/create webhookを処理するアクション関数
+ *
+ * 返金が作成された場合に、成功した返金トランザクションの合計額を
+ * その注文のコンバージョンから減額する価値の調整を記録します。
+ * 調整は次回のバッチでYahoo広告に送信されます。
+ *
+ * @param request - リクエストオブジェクト
+ * @returns 空のレスポンス
+ */
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { shop, topic, payload } = await authenticate.webhook(request);
+
+  console.log(`Received ${topic} webhook for ${shop}`);
+
+  // 成功した返金トランザクションの合計額（トランザクションの通貨は注文の表示通貨）
+  const transactions = (payload.transactions ?? [])
+    .filter((t: any) => t.kind === "refund" && t.status === "success");
+  const refundAmount = transactions
+    .reduce((sum: Prisma.Decimal, t: any) => sum.plus(t.amount), new Prisma.Decimal(0));
+  if (refundAmount.isZero()) return new Response();
+
+  try {
+    const count = await recordConversionAdjustment({
+      shop:       shop,
+      orderId:    String(payload.order_id),
+      kind:       ADJUSTMENT_KIND.REFUND,
+      sourceId:   String(payload.id),
+      amount:     refundAmount,
+      currency:   transactions[0].currency,
+      adjustedAt: new Date(payload.created_at ?? Date.now()),
+    });
+    if (count) console.log(`Recorded conversion adjustments for refund`);
+  } catch (error) {
+    console.error("refunds/create webhook error:", error);
+  }
+  return new Response();
+};
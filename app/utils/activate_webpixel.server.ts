@@ -1,3 +1,5 @@
+import { JOB_RUN_STATUS } from "../constants";
+
 /**
  * GraphQLクライアントの型定義
  * Shopify Admin APIとの通信に使用される
@@ -24,11 +26,12 @@ import generatePublicKey from "../batch/tasks/generatePublicKey";
  * 3. 公開鍵を生成
  * 
  * @param admin - Shopify Admin APIのGraphQLクライアント
+ * @param shop - ショップのドメイン
  * @returns Promise<void> - 処理完了時に解決されるPromise
  * 
  * @throws {GraphqlQueryError} GraphQLクエリ実行時にエラーが発生した場合
  */
-export async function ensurePixelConnected(admin: GraphqlClient) {
+export async function ensurePixelConnected(admin: GraphqlClient, shop: string) {
   /**
    * Web Pixelをアクティベートする内部関数
    * 
@@ -68,7 +71,7 @@ export async function ensurePixelConnected(admin: GraphqlClient) {
    */
   async function finalize() {
     if(!await activateWebPixel()) await activateWebPixel();
-    if(!await generatePublicKey()) await generatePublicKey();
+    if((await generatePublicKey(shop)).status !== JOB_RUN_STATUS.SUCCEEDED) await generatePublicKey(shop);
   }
 
   const query = `query { webPixel { id } }`;
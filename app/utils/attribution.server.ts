@@ -0,0 +1,55 @@
+// SPDX-License-Identifier: MIT
+
+import { ATTRIBUTION_MODEL } from "../constants";
+import { typeOfYclid } from "./conversion_routing.server";
+
+/**
+ * ピクセルから受け取った広告のクリック
+ */
+export interface AdClick {
+  /** YCLID */
+  yclid: string;
+  /** クリック日時 */
+  visitedAt: Date;
+}
+
+/**
+ * アトリビューションモデルに従って、コンバージョンとして記録するクリックを選ぶ
+ *
+ * - last_click：最も新しいクリック
+ * - first_click：最も古いクリック
+ * - all_platforms：広告タイプ（検索広告・ディスプレイ広告）ごとに最も新しいクリック
+ *
+ * 広告タイプを判定できないクリック、クリック日時が不正なクリック、同じYCLIDの重複は除外します。
+ *
+ * @param clicks - 広告のクリック
+ * @param attributionModel - アトリビューションモデル。未知の値の場合はlast_click
+ * @returns コンバージョンとして記録するクリック
+ *
+ * @example
+ * ```typescript
+ * const clicks = selectAttributedClicks([
+ *   { yclid: "YSS.1001.abc", visitedAt: new Date("2025-10-01") },
+ *   { yclid: "YJAD.1727740800.def", visitedAt: new Date("2025-10-02") },
+ * ], ATTRIBUTION_MODEL.ALL_PLATFORMS);
+ * // => 両方のクリック
+ * ```
+ */
+export function selectAttributedClicks(clicks: AdClick[], attributionModel: string): AdClick[] {
+  const valid = clicks
+    .filter((click, i) =>
+      typeOfYclid(click.yclid) && !Number.isNaN(click.visitedAt.getTime()) &&
+      clicks.findIndex(c => c.yclid === click.yclid) === i
+    )
+    .sort((a, b) => b.visitedAt.getTime() - a.visitedAt.getTime());
+  if (!valid.length) return [];
+
+  switch (attributionModel) {
+    case ATTRIBUTION_MODEL.FIRST_CLICK:
+      return [valid[valid.length - 1]];
+    case ATTRIBUTION_MODEL.ALL_PLATFORMS:
+      return valid.filter((click, i) => valid.findIndex(c => typeOfYclid(c.yclid) === typeOfYclid(click.yclid)) === i);
+    default:
+      return [valid[0]];
+  }
+}
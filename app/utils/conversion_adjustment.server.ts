@@ -0,0 +1,137 @@
+// SPDX-License-Identifier: MIT
+
+import db from "../db.server";
+import { Prisma } from "@prisma/client";
+import { CONVERSION_STATUS, EXCLUSION_REASON, type AdjustmentKind } from "../constants";
+
+/**
+ * 価値の調整の記録に必要な情報
+ */
+interface ConversionAdjustmentInput {
+  /** ショップのドメイン */
+  shop: string;
+  /** 注文ID */
+  orderId: string;
+  /** 調整種別 */
+  kind: AdjustmentKind;
+  /** 調整元のID（返金IDなど）。同じ調整元の調整は一度だけ記録される */
+  sourceId: string;
+  /** 減額する金額（正の値）。nullの場合は残額の全額を減額する */
+  amount: Prisma.Decimal.Value | null;
+  /** 減額する金額の通貨コード。注文の表示通貨の場合はショップ通貨に換算する。省略時はショップ通貨 */
+  currency?: string;
+  /** 調整が発生した日時 */
+  adjustedAt: Date;
+}
+
+/**
+ * 減額する金額をコンバージョンのショップ通貨に換算する
+ *
+ * 表示通貨の金額は、注文の合計金額の表示通貨とショップ通貨の比率で換算します。
+ *
+ * @param conversion - コンバージョンレコード
+ * @param input - 価値の調整の記録に必要な情報
+ * @returns ショップ通貨の金額。全額を減額する場合はnull
+ */
+function toShopMoney(
+  conversion: { amount: Prisma.Decimal | null, currency: string | null, presentmentCurrency: string | null, presentmentAmount: Prisma.Decimal | null },
+  input: ConversionAdjustmentInput
+): Prisma.Decimal | null {
+  if (input.amount == null) return null;
+  const amount = new Prisma.Decimal(input.amount);
+  if (
+    input.currency && input.currency !== conversion.currency &&
+    input.currency === conversion.presentmentCurrency &&
+    conversion.amount && conversion.presentmentAmount && !conversion.presentmentAmount.isZero()
+  ) {
+    return amount.mul(conversion.amount).div(conversion.presentmentAmount);
+  }
+  return amount;
+}
+
+/**
+ * 注文に紐付くコンバージョンに対して、価値の調整（減額）を記録する
+ *
+ * 減額はショップ通貨で記録し、コンバージョンの価値から既存の調整額を差し引いた残額を上限とし、
+ * 残額がない場合は記録しません。記録した調整は、次回のcreateCsvAndImportToYahooで
+ * マイナスの価値を持つコンバージョン行としてYahoo広告に送信されます。
+ *
+ * @param input - 価値の調整の記録に必要な情報
+ * @returns 記録した調整の件数
+ *
+ * @example
+ * ```typescript
+ * await recordConversionAdjustment({
+ *   shop: "example.myshopify.com",
+ *   orderId: "1234567890",
+ *   kind: ADJUSTMENT_KIND.REFUND,
+ *   sourceId: "987654321",
+ *   amount: 1500,
+ *   adjustedAt: new Date(),
+ * });
+ * ```
+ */
+export async function recordConversionAdjustment(input: ConversionAdjustmentInput): Promise<number> {
+  const conversions = await db.yahooConversion.findMany({
+    where: { shop: input.shop, orderId: input.orderId },
+    include: { adjustments: true },
+  });
+
+  let count = 0;
+  for (const conversion of conversions) {
+    const remaining = conversion.adjustments.reduce(
+      (sum, a) => sum.plus(a.amount), conversion.amount ?? new Prisma.Decimal(0)
+    );
+    const value = Prisma.Decimal.min(toShopMoney(conversion, input) ?? remaining, remaining);
+    if (value.lte(0)) continue;
+
+    try {
+      await db.conversionAdjustment.create({
+        data: {
+          conversionId: conversion.id,
+          orderId:      input.orderId,
+          kind:         input.kind,
+          sourceId:     input.sourceId,
+          amount:       value.neg(),
+          adjustedAt:   input.adjustedAt,
+        }
+      });
+      count++;
+    } catch (error: any) {
+      // Webhookの再送などで同じ調整が既に記録されている
+      if (error.code === "P2002") continue;
+      throw error;
+    }
+  }
+  return count;
+}
+
+/**
+ * 元のコンバージョンが送信されない状態になった未送信の価値の調整を、送信対象外（excluded）にする
+ *
+ * 価値の調整は元のコンバージョンの送信後に送信するため、元のコンバージョンが送信対象外・拒否・送信不可に
+ * なった場合は、未送信のまま残らないようにします。
+ * 送信不可のコンバージョンが振り分け直された場合は、resetPendingRoutesが価値の調整も未送信に戻します。
+ *
+ * @param shop - ショップのドメイン
+ * @returns 送信対象外にした調整の件数
+ *
+ * @example
+ * ```typescript
+ * await excludeOrphanedAdjustments(shop);
+ * ```
+ */
+export async function excludeOrphanedAdjustments(shop: string): Promise<number> {
+  const { count } = await db.conversionAdjustment.updateMany({
+    where: {
+      status: CONVERSION_STATUS.PENDING,
+      conversion: {
+        shop: shop,
+        status: { in: [CONVERSION_STATUS.EXCLUDED, CONVERSION_STATUS.REJECTED, CONVERSION_STATUS.UNROUTABLE] },
+      },
+    },
+    data: { status: CONVERSION_STATUS.EXCLUDED, statusReason: EXCLUSION_REASON.CONVERSION_NOT_UPLOADED },
+  });
+  if (count) console.log(`Excluded ${count} adjustments of conversions that are not uploaded`);
+  return count;
+}
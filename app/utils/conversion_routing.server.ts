@@ -0,0 +1,200 @@
+// SPDX-License-Identifier: MIT
+
+import db from "../db.server";
+import { type EndpointKey, YCLID_PREFIX, CONVERSION_STATUS, CUSTOMER_TYPE, EXCLUSION_REASON } from "../constants";
+import type { ConversionRoutingRule, YahooAdAccount, YahooConversion } from "@prisma/client";
+
+/**
+ * YCLIDのプレフィックスから広告タイプを判定する
+ * @param yclid - YCLID
+ * @returns 広告タイプ。判定できない場合はnull
+ */
+export function typeOfYclid(yclid: string): EndpointKey | null {
+  const prefix = yclid.split(".")[0];
+  const type = (Object.keys(YCLID_PREFIX) as EndpointKey[]).find(key => YCLID_PREFIX[key] === prefix);
+  return type ?? null;
+}
+
+/**
+ * 検索広告のYCLID（YSS.{n}.{value}）から、クリックを計測したクッキー（_ycl_{n}_aw）の番号を取り出す
+ * @param yclid - YCLID
+ * @returns クッキーの番号。検索広告のYCLIDでない場合はnull
+ */
+export function yclCookieIdOfYclid(yclid: string): string | null {
+  const [prefix, cookieId] = yclid.split(".");
+  return prefix === YCLID_PREFIX.search && cookieId ? cookieId : null;
+}
+
+/**
+ * クリックの送信先になり得る広告アカウントかどうかを判定する
+ *
+ * 検索広告のクリックは、アカウントにクッキー番号が設定されている場合、
+ * YCLIDに含まれるクッキーの番号と一致するアカウントにのみ送信します。
+ * クッキー番号が設定されていないアカウント（設定項目の追加前に保存したものを含む）は、全ての検索広告のクリックを受け付けます。
+ *
+ * @param yclid - YCLID
+ * @param yahooAdAccount - 広告アカウント
+ * @returns 送信先になり得る場合はtrue
+ */
+export function acceptsClick(yclid: string, yahooAdAccount: YahooAdAccount): boolean {
+  if (yahooAdAccount.type !== typeOfYclid(yclid)) return false;
+  if (yahooAdAccount.type !== "search") return true;
+  if (!yahooAdAccount.yclCookieId) return true;
+  return yclCookieIdOfYclid(yclid) === yahooAdAccount.yclCookieId;
+}
+
+/**
+ * コンバージョンに適用する振り分けルールを選ぶ
+ *
+ * ルールは優先度の昇順に評価し、広告タイプと顧客区分が一致し、
+ * クリックの送信先になり得るアカウントを指定した最初のルールを返します。
+ * 初回購入かどうかが不明なコンバージョン（ゲスト購入など）は、顧客区分が「すべて」のルールにのみ一致します。
+ *
+ * @param conversion - コンバージョンレコード
+ * @param rules - 優先度の昇順に並んだ振り分けルール
+ * @returns 一致したルール。一致するルールがない場合はundefined
+ */
+export function matchRoutingRule<T extends ConversionRoutingRule & { yahooAdAccount: YahooAdAccount }>(
+  conversion: Pick<YahooConversion, "yclid" | "isFirstOrder">,
+  rules: T[]
+): T | undefined {
+  const type = typeOfYclid(conversion.yclid);
+  return rules.find(rule =>
+    rule.type === type && acceptsClick(conversion.yclid, rule.yahooAdAccount) && (
+      rule.customerType === CUSTOMER_TYPE.ANY ||
+      (rule.customerType === CUSTOMER_TYPE.FIRST  && conversion.isFirstOrder === true) ||
+      (rule.customerType === CUSTOMER_TYPE.REPEAT && conversion.isFirstOrder === false)
+    )
+  );
+}
+
+/**
+ * 保存していないコンバージョンの振り分け先
+ */
+export interface PendingRoute {
+  /** 振り分け先の広告アカウントのID */
+  yahooAdAccountId: number;
+  /** 送信するコンバージョン名 */
+  conversionTitle: string;
+}
+
+/**
+ * 振り分け先が決まっていない未送信のコンバージョンの振り分け先を求める（保存はしない）
+ *
+ * 一致する振り分けルールがない場合は、クリックの送信先になり得る最初のアカウント（IDの昇順）に、
+ * そのアカウントのコンバージョン名で振り分けます。
+ * 送信先になり得るアカウントがないコンバージョンは、送信不可（unroutable）とします。
+ *
+ * @param shop - ショップのドメイン
+ * @returns コンバージョンIDごとの振り分け先と、送信不可のコンバージョンID
+ *
+ * @example
+ * ```typescript
+ * // プレビューでは、振り分けを保存せずに送信対象を求める
+ * const { routes } = await planPendingRoutes(shop);
+ * ```
+ */
+export async function planPendingRoutes(shop: string): Promise<{ routes: Map<number, PendingRoute>, unroutable: number[] }> {
+  const [conversions, rules, yahooAdAccounts] = await Promise.all([
+    db.yahooConversion.findMany({
+      where:  { shop: shop, status: CONVERSION_STATUS.PENDING, yahooAdAccountId: null },
+      select: { id: true, yclid: true, isFirstOrder: true },
+    }),
+    db.conversionRoutingRule.findMany({
+      where:   { shop: shop },
+      include: { yahooAdAccount: true },
+      orderBy: [{ priority: 'asc' }, { id: 'asc' }],
+    }),
+    db.yahooAdAccount.findMany({ where: { shop: shop }, orderBy: { id: 'asc' } }),
+  ]);
+
+  const routes = new Map<number, PendingRoute>();
+  const unroutable: number[] = [];
+  for (const conversion of conversions) {
+    const rule = matchRoutingRule(conversion, rules);
+    const yahooAdAccount = rule?.yahooAdAccount ?? yahooAdAccounts.find(yaa => acceptsClick(conversion.yclid, yaa));
+    if (!yahooAdAccount) {
+      unroutable.push(conversion.id);
+      continue;
+    }
+    routes.set(conversion.id, {
+      yahooAdAccountId: yahooAdAccount.id,
+      conversionTitle: rule?.conversionTitle || yahooAdAccount.conversionTitle,
+    });
+  }
+  return { routes, unroutable };
+}
+
+/**
+ * 振り分け先が決まっていない未送信のコンバージョンを、広告アカウントとコンバージョン名に振り分ける
+ *
+ * 振り分け先はplanPendingRoutesで求め、送信先になり得るアカウントがないコンバージョンは、
+ * 誤ったアカウントに送信しないよう送信不可（unroutable）にします。
+ *
+ * @param shop - ショップのドメイン
+ * @returns 振り分けたコンバージョンの件数
+ *
+ * @example
+ * ```typescript
+ * await routePendingConversions(shop);
+ * ```
+ */
+export async function routePendingConversions(shop: string): Promise<number> {
+  const { routes: planned, unroutable } = await planPendingRoutes(shop);
+  if (!planned.size && !unroutable.length) return 0;
+
+  // 振り分け先（アカウントとコンバージョン名）ごとにまとめて更新する
+  const routes = new Map<string, PendingRoute & { ids: number[] }>();
+  for (const [id, route] of planned) {
+    const key = JSON.stringify([route.yahooAdAccountId, route.conversionTitle]);
+    if (!routes.has(key)) routes.set(key, { ...route, ids: [] });
+    routes.get(key)!.ids.push(id);
+  }
+
+  await db.$transaction([
+    ...[...routes.values()].map(route =>
+      db.yahooConversion.updateMany({
+        where: { id: { in: route.ids }, status: CONVERSION_STATUS.PENDING },
+        data:  { yahooAdAccountId: route.yahooAdAccountId, conversionTitle: route.conversionTitle },
+      })
+    ),
+    db.yahooConversion.updateMany({
+      where: { id: { in: unroutable }, status: CONVERSION_STATUS.PENDING },
+      data:  { status: CONVERSION_STATUS.UNROUTABLE, statusReason: "no matching ad account" },
+    }),
+  ]);
+  if (unroutable.length) {
+    console.error(`routePendingConversions error: ${unroutable.length} conversions have no matching ad account`);
+  }
+  return planned.size;
+}
+
+/**
+ * 未送信のコンバージョンの振り分けを解除する
+ *
+ * 広告アカウントや振り分けルールを変更した後に呼び出し、次回の送信時に新しい設定で振り分け直します。
+ * 送信不可（unroutable）になっていたコンバージョンも、未送信に戻して振り分け直します
+ * （そのために送信対象外にしていた価値の調整も、未送信に戻します）。
+ *
+ * @param shop - ショップのドメイン
+ */
+export async function resetPendingRoutes(shop: string) {
+  await db.$transaction([
+    db.conversionAdjustment.updateMany({
+      where: {
+        status:       CONVERSION_STATUS.EXCLUDED,
+        statusReason: EXCLUSION_REASON.CONVERSION_NOT_UPLOADED,
+        conversion:   { shop: shop, status: CONVERSION_STATUS.UNROUTABLE },
+      },
+      data:  { status: CONVERSION_STATUS.PENDING, statusReason: null },
+    }),
+    db.yahooConversion.updateMany({
+      where: { shop: shop, status: CONVERSION_STATUS.PENDING },
+      data:  { yahooAdAccountId: null, conversionTitle: null },
+    }),
+    db.yahooConversion.updateMany({
+      where: { shop: shop, status: CONVERSION_STATUS.UNROUTABLE },
+      data:  { status: CONVERSION_STATUS.PENDING, statusReason: null, yahooAdAccountId: null, conversionTitle: null },
+    }),
+  ]);
+}
@@ -0,0 +1,23 @@
+// SPDX-License-Identifier: MIT
+
+import { Prisma } from "@prisma/client";
+import { CSV_FORMAT } from "../constants";
+import { getExchangeRate } from "../models/ExchangeRate.server";
+
+/**
+ * 指定した通貨から円（CSVの通貨）への為替レートを取得する
+ *
+ * 円の場合は1を返します。それ以外の通貨は、管理画面で設定した為替レート表から取得します。
+ * Shopifyの注文金額はショップ通貨（shopMoney）で保存しているため、
+ * ショップ通貨が円であれば、マーケットの表示通貨にかかわらずShopifyが換算した円の金額になります。
+ *
+ * @param shop - ショップのドメイン
+ * @param currency - 通貨コード（ISO 4217）
+ * @returns 1単位あたりの円の金額。レートが設定されていない場合はnull
+ */
+export async function getRateToCsvCurrency(shop: string, currency: string): Promise<Prisma.Decimal | null> {
+  if (currency === CSV_FORMAT.CURRENCY) return new Prisma.Decimal(1);
+
+  const exchangeRate = await getExchangeRate(shop, currency);
+  return exchangeRate ? new Prisma.Decimal(exchangeRate.rate) : null;
+}
@@ -1,6 +1,17 @@
-import { AUTH } from "app/constants";
+import { AUTH, CONNECTION_STATUS, YAHOO_API_ERROR_KIND } from "../constants";
 import db from "../db.server";
-import { YahooAdApplication } from "@prisma/client";
+import { requestYahoo, YahooApiError } from "./yahoo_http_client.server";
+import type { YahooAdApplication } from "@prisma/client";
+import { setTimeout as sleep } from "node:timers/promises";
+
+/** アクセストークンの有効期限の何秒前から更新するか */
+const REFRESH_MARGIN_SECONDS = 5 * 60;
+
+/** 更新ロックの有効期間（秒）。更新中にプロセスが終了しても、この時間が過ぎれば他のプロセスが更新できる */
+const REFRESH_LOCK_SECONDS = 60;
+
+/** 他のプロセスによる更新の完了を確認する間隔（ミリ秒） */
+const REFRESH_LOCK_POLL_MS = 500;
 
 /**
  * Yahoo広告APIのアクセストークンを取得または更新する
@@ -9,8 +20,13 @@ import { YahooAdApplication } from "@prisma/client";
  * 新しいアクセストークンを取得するか、既存のリフレッシュトークンを使用して
  * アクセストークンを更新します。
  * 
+ * 取得に成功した場合は、アクセストークンの有効期限を保存し、接続状態を「接続中」にします。
+ * 失敗した場合は、失敗の理由を保存します。リフレッシュトークンが失効しているなど、
+ * 再認可しない限り解消しないエラーの場合は、接続状態を「接続切れ」にします。
+ * 
  * @param yahooAdApplication - Yahoo広告アプリケーションの設定情報
  * @param isRefresh - リフレッシュトークンを使用してトークンを更新するかどうか。デフォルトはfalse
+ * @param codeVerifier - PKCEのコード検証値。認可リクエストでコードチャレンジを送信した場合に指定する
  * 
  * @returns アクセストークンの文字列。エラーが発生した場合は空文字列を返す
  * 
@@ -25,7 +41,7 @@ import { YahooAdApplication } from "@prisma/client";
  * 
  * @throws ネットワークエラーやAPIエラーが発生した場合、空文字列を返す
  */
-export async function getYahooAdToken(yahooAdApplication: YahooAdApplication, isRefresh = false): Promise<string> {
+export async function getYahooAdToken(yahooAdApplication: YahooAdApplication, isRefresh = false, codeVerifier?: string | null): Promise<string> {
   if(isRefresh && !yahooAdApplication.refreshToken) return "";
   
   const request_query = isRefresh ? 
@@ -42,47 +58,170 @@ export async function getYahooAdToken(yahooAdApplication: YahooAdApplication, is
       client_secret: yahooAdApplication.clientSecret,
       redirect_uri : yahooAdApplication.redirectUri,
       code         : yahooAdApplication.code!,
+      ...(codeVerifier ? { code_verifier: codeVerifier } : {}),
     });
 
    try { 
-    const res = await fetch(
-      AUTH.ENDPOINT + AUTH.VERSION + AUTH.TOKEN_PATH + '?' + request_query.toString(), {
-        method: "GET"
-    });
-
-    if (!res.ok) {
-      const contentType = res.headers.get("content-type") ?? "";
-      const body = contentType.includes("application/json")
-        ? await res.json()
-        : await res.text();
-
-      console.error(
-        `Yahoo token request failed (${res.status} ${res.statusText})`,
-        body
-      );
-      return "";
-    }
+    // リフレッシュトークンでの更新は再送できるが、認可コードは一度しか使えないため再送しない
+    const res = await requestYahoo(
+      AUTH.ENDPOINT + AUTH.VERSION + AUTH.TOKEN_PATH + '?' + request_query.toString(),
+      { method: "GET" },
+      { path: AUTH.TOKEN_PATH, idempotent: isRefresh },
+    );
 
     interface responsePayload {
-      access_token : string;
-      refresh_token: string;
-      expires_in   : number;
-      token_type   : "Bearer";
+      access_token  : string;
+      refresh_token?: string;
+      expires_in    : number;
+      token_type    : "Bearer";
     }
     const response: responsePayload = await res.json();
 
+    const now   = new Date();
     const data  = {
       accessToken: response.access_token,
-      refreshToken: response.refresh_token,
-      tokenCreatedAt: new Date()
+      // 更新時にリフレッシュトークンが返却されない場合は、既存のものを引き続き使用する
+      refreshToken: response.refresh_token ?? yahooAdApplication.refreshToken,
+      tokenCreatedAt: now,
+      // 認可コードを交換した日時（リフレッシュトークンを取得した日時）
+      ...(isRefresh ? {} : { authorizedAt: now }),
+      accessTokenExpiresAt: new Date(now.getTime() + response.expires_in * 1000),
+      connectionStatus: CONNECTION_STATUS.CONNECTED,
+      lastTokenError: null,
+      lastTokenErrorAt: null,
     };
     await db.yahooAdApplication.update({
-      where: { clientId: yahooAdApplication.clientId },
+      where: { shop: yahooAdApplication.shop },
       data
     })
 
     return response.access_token;
   } catch(error) {
+    if (error instanceof YahooApiError && error.status) {
+      console.error(`Yahoo token request failed (${error.status})`, error.body);
+
+      // 認可コードの交換に失敗しても、既存のリフレッシュトークンは有効なままのため接続切れにはしない
+      const body = parseJson(error.body);
+      await recordTokenError(
+        yahooAdApplication,
+        `[${error.status}] ${body ? [body.error, body.error_description].filter(Boolean).join(": ") : error.body}`,
+        isRefresh && error.kind === YAHOO_API_ERROR_KIND.AUTH
+      ).catch(() => {});
+      return "";
+    }
+
+    console.error("Yahoo token request error:", error);
+    await recordTokenError(yahooAdApplication, String(error), false).catch(() => {});
     return "";
   }
-}
\ No newline at end of file
+}
+
+/**
+ * 有効なYahoo広告APIのアクセストークンを取得する
+ *
+ * この関数は以下の処理を行います：
+ * - 接続切れの場合は、再認可されるまでトークンを更新せずに空文字列を返す
+ * - 保存されているアクセストークンの有効期限に余裕がある場合は、そのまま返す
+ * - 有効期限が近い、または不明の場合は、ロックを取得してリフレッシュトークンで更新する
+ *   （他のプロセスが更新中の場合は、その完了を待って更新後のトークンを返す）
+ *
+ * @param yahooAdApplication - Yahoo広告アプリケーションの設定情報
+ * @returns アクセストークンの文字列。取得できない場合は空文字列を返す
+ *
+ * @example
+ * ```typescript
+ * const accessToken = await getValidYahooAdToken(yahooApp);
+ * if(!accessToken) return;
+ * ```
+ */
+export async function getValidYahooAdToken(yahooAdApplication: YahooAdApplication): Promise<string> {
+  if(yahooAdApplication.connectionStatus === CONNECTION_STATUS.BROKEN) {
+    console.error(`Yahoo connection is broken, re-authorization is required: ${yahooAdApplication.lastTokenError}`);
+    return "";
+  }
+  if(isTokenFresh(yahooAdApplication)) return yahooAdApplication.accessToken!;
+
+  // ロックを取得（期限切れのロックは、更新中にプロセスが終了したものとみなして取得し直す）
+  const { shop } = yahooAdApplication;
+  const lockedAt = new Date();
+  const { count } = await db.yahooAdApplication.updateMany({
+    where: {
+      shop: shop,
+      OR: [
+        { tokenRefreshLockedAt: null },
+        { tokenRefreshLockedAt: { lt: new Date(lockedAt.getTime() - REFRESH_LOCK_SECONDS * 1000) } },
+      ],
+    },
+    data: { tokenRefreshLockedAt: lockedAt },
+  });
+  if(!count) return waitForTokenRefresh(shop);
+
+  try {
+    // ロックを取得するまでの間に、他のプロセスが更新している場合がある
+    const latest = await db.yahooAdApplication.findUnique({ where: { shop: shop } });
+    if(!latest) return "";
+    if(isTokenFresh(latest)) return latest.accessToken!;
+
+    return await getYahooAdToken(latest, true);
+  } finally {
+    // 自分が取得したロックのみを解放する
+    await db.yahooAdApplication.updateMany({
+      where: { shop: shop, tokenRefreshLockedAt: lockedAt },
+      data:  { tokenRefreshLockedAt: null },
+    });
+  }
+}
+
+/**
+ * アクセストークンの有効期限に余裕があるかどうかを判定する
+ */
+function isTokenFresh(yahooAdApplication: YahooAdApplication): boolean {
+  return !!yahooAdApplication.accessToken &&
+    !!yahooAdApplication.accessTokenExpiresAt &&
+    yahooAdApplication.accessTokenExpiresAt.getTime() - REFRESH_MARGIN_SECONDS * 1000 > Date.now();
+}
+
+/**
+ * 他のプロセスによるアクセストークンの更新が終わるのを待ち、更新後のトークンを返す
+ */
+async function waitForTokenRefresh(shop: string): Promise<string> {
+  const deadline = Date.now() + REFRESH_LOCK_SECONDS * 1000;
+  while(Date.now() < deadline) {
+    await sleep(REFRESH_LOCK_POLL_MS);
+    const latest = await db.yahooAdApplication.findUnique({ where: { shop: shop } });
+    if(!latest) return "";
+    if(!latest.tokenRefreshLockedAt) return isTokenFresh(latest) ? latest.accessToken! : "";
+  }
+  console.error("Timed out waiting for the Yahoo token refresh by another process");
+  return "";
+}
+
+/**
+ * トークンエンドポイントのエラーレスポンスをJSONとして解析する
+ *
+ * @returns 解析したエラーレスポンス（JSONでない場合はnull）
+ */
+function parseJson(body: string): { error?: string, error_description?: string } | null {
+  try {
+    const parsed = JSON.parse(body);
+    return typeof parsed === "object" ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * トークンの取得・更新に失敗した理由を保存する
+ *
+ * @param isFatal - 再認可が必要なエラーの場合はtrue。接続状態を「接続切れ」にする
+ */
+async function recordTokenError(yahooAdApplication: YahooAdApplication, message: string, isFatal: boolean) {
+  await db.yahooAdApplication.update({
+    where: { shop: yahooAdApplication.shop },
+    data: {
+      lastTokenError: message,
+      lastTokenErrorAt: new Date(),
+      ...(isFatal ? { connectionStatus: CONNECTION_STATUS.BROKEN } : {}),
+    },
+  });
+}
@@ -0,0 +1,114 @@
+// SPDX-License-Identifier: MIT
+
+import crypto from "node:crypto";
+import os from "node:os";
+import { Prisma } from "@prisma/client";
+import db from "../db.server";
+
+/** ロックの有効期間（ミリ秒）。実行中にプロセスが終了しても、この時間が過ぎれば他のプロセスが実行できる */
+const LOCK_TTL_MS = 2 * 60_000;
+
+/** ロックの有効期限を延長する間隔（ミリ秒） */
+const HEARTBEAT_INTERVAL_MS = 30_000;
+
+/** このプロセスの識別子（ログや、ロックを保持しているプロセスの確認用） */
+const PROCESS_ID = `${os.hostname()}:${process.pid}`;
+
+/**
+ * ジョブのロックを取得する
+ *
+ * ロックが存在しない場合は作成し、有効期限が切れている場合は、実行中にプロセスが終了したものとみなして取得し直します。
+ *
+ * @param name - ジョブ名
+ * @param owner - ロックの所有者（実行ごとの識別子）
+ * @returns ロックを取得できた場合はtrue
+ */
+async function acquireJobLock(name: string, owner: string): Promise<boolean> {
+  const now = new Date();
+  const data = { owner: owner, lockedAt: now, heartbeatAt: now, expiresAt: new Date(now.getTime() + LOCK_TTL_MS) };
+
+  const { count } = await db.jobLock.updateMany({
+    where: { name: name, expiresAt: { lt: now } },
+    data:  data,
+  });
+  if (count) return true;
+
+  try {
+    await db.jobLock.create({ data: { name: name, ...data } });
+    return true;
+  } catch (error) {
+    // 他のプロセスがロックを保持している
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002") return false;
+    throw error;
+  }
+}
+
+/**
+ * 保持しているロックの有効期限を延長する（ハートビート）
+ *
+ * @returns ロックを保持し続けている場合はtrue（有効期限切れで他のプロセスに取得された場合はfalse）
+ */
+async function renewJobLock(name: string, owner: string): Promise<boolean> {
+  const now = new Date();
+  const { count } = await db.jobLock.updateMany({
+    where: { name: name, owner: owner },
+    data:  { heartbeatAt: now, expiresAt: new Date(now.getTime() + LOCK_TTL_MS) },
+  });
+  return count > 0;
+}
+
+/**
+ * 保持しているロックを解放する（他の所有者のロックは解放しない）
+ */
+async function releaseJobLock(name: string, owner: string): Promise<void> {
+  await db.jobLock.deleteMany({ where: { name: name, owner: owner } });
+}
+
+/**
+ * ジョブのロックを取得してタスクを実行する
+ *
+ * データベースに保存したロック（リース）により、複数のプロセス（デプロイ中の2台目のマシンなど）や、
+ * 前回の実行が長引いて次のスケジュールと重なった場合でも、同じジョブが同時に実行されないようにします。
+ * 実行中は一定間隔でロックの有効期限を延長し、終了時にロックを解放します。
+ * ロックを取得できなかった場合は、タスクを実行せずに終了します。
+ * 延長できずにロックを失った場合（他のプロセスが取得した場合）は、タスクに渡したシグナルを中断します。
+ * タスクは区切りごとにシグナルを確認し、中断されている場合は残りの処理を行わずに終了してください。
+ *
+ * @param name - ジョブ名（ロックの識別子）
+ * @param task - 実行するタスク（ロックを失うと中断されるシグナルを受け取る）
+ * @returns タスクを実行した場合はtrue、他の実行がロックを保持していたため実行しなかった場合はfalse
+ *
+ * @example
+ * ```typescript
+ * cron.schedule("*\/20 * * * *", async () => {
+ *   await withJobLock("createCsvAndImportToYahoo", signal => forEachShop("createCsvAndImportToYahoo", shops, createCsvAndImportToYahoo, signal));
+ * });
+ * ```
+ */
+export async function withJobLock(name: string, task: (signal: AbortSignal) => Promise<unknown>): Promise<boolean> {
+  const owner = `${PROCESS_ID}:${crypto.randomUUID()}`;
+  if (!await acquireJobLock(name, owner)) {
+    console.log(`[job lock] ${name} is running in another process, skipped`);
+    return false;
+  }
+
+  const lost = new AbortController();
+  const heartbeat = setInterval(() => {
+    renewJobLock(name, owner)
+      .then(renewed => {
+        if (renewed) return;
+        console.error(`[job lock] ${name} lost the lock held by ${owner}, stopping at the next checkpoint`);
+        clearInterval(heartbeat);
+        lost.abort("lost job lock");
+      })
+      .catch(error => console.error(`[job lock] ${name} heartbeat error:`, error));
+  }, HEARTBEAT_INTERVAL_MS);
+
+  try {
+    await task(lost.signal);
+    return true;
+  } finally {
+    clearInterval(heartbeat);
+    await releaseJobLock(name, owner);
+  }
+}
@@ -0,0 +1,97 @@
+// SPDX-License-Identifier: MIT
+
+import db from "../db.server";
+import { JOB_RUN_STATUS, type JobRunStatus } from "../constants";
+
+/** 保存するエラーメッセージの最大文字数 */
+const MAX_ERROR_LENGTH = 2000;
+
+/** このプロセスで実行中の実行記録のID */
+const runningJobRunIds = new Set<number>();
+
+/**
+ * バッチタスクの実行結果
+ */
+export interface JobRunResult {
+  /** 実行結果 */
+  status: Exclude<JobRunStatus, typeof JOB_RUN_STATUS.RUNNING>;
+  /** 処理した件数（項目ごと） */
+  counts?: Record<string, number>;
+  /** 失敗した理由、または実行しなかった理由 */
+  error?: string;
+}
+
+/**
+ * 処理した件数と発生したエラーから、バッチタスクの実行結果を作成する
+ *
+ * @param counts - 処理した件数
+ * @param errors - 発生したエラー（1件以上あれば失敗とする）
+ */
+export function toJobRunResult(counts: Record<string, number>, errors: string[]): JobRunResult {
+  return errors.length
+    ? { status: JOB_RUN_STATUS.FAILED, counts: counts, error: errors.join("\n") }
+    : { status: JOB_RUN_STATUS.SUCCEEDED, counts: counts };
+}
+
+/**
+ * バッチタスクを実行し、実行記録（JobRun）を保存する
+ *
+ * 開始時に実行中の記録を作成し、終了時に実行結果・処理件数・エラーを保存します。
+ * タスクが例外を投げた場合も、失敗として記録します（例外は呼び出し元に伝えません）。
+ *
+ * @param name - タスク名
+ * @param shop - ショップのドメイン（ショップに依存しないタスクはnull）
+ * @param run - 実行するタスク
+ * @returns タスクの実行結果
+ *
+ * @example
+ * ```typescript
+ * await recordJobRun("createCsvAndImportToYahoo", shop, () => createCsvAndImportToYahoo(shop));
+ * ```
+ */
+export async function recordJobRun(
+  name: string,
+  shop: string | null,
+  run: () => Promise<JobRunResult>,
+): Promise<JobRunResult> {
+  const jobRun = await db.jobRun.create({
+    data: { name: name, shop: shop, status: JOB_RUN_STATUS.RUNNING },
+  });
+  runningJobRunIds.add(jobRun.id);
+
+  let result: JobRunResult;
+  try {
+    result = await run();
+  } catch (error) {
+    console.error(`${name} error:`, error);
+    result = { status: JOB_RUN_STATUS.FAILED, error: String(error) };
+  } finally {
+    runningJobRunIds.delete(jobRun.id);
+  }
+
+  await db.jobRun.update({
+    where: { id: jobRun.id },
+    data: {
+      status:     result.status,
+      counts:     result.counts ? JSON.stringify(result.counts) : null,
+      error:      result.error?.slice(0, MAX_ERROR_LENGTH) ?? null,
+      finishedAt: new Date(),
+    },
+  });
+  return result;
+}
+
+/**
+ * このプロセスで実行中の実行記録を、中断されたものとして失敗にする
+ *
+ * シャットダウン時に終了を待ちきれなかったタスクの実行記録が、実行中のまま残らないようにします。
+ *
+ * @param reason - 中断された理由
+ */
+export async function markRunningJobRunsInterrupted(reason: string): Promise<void> {
+  if (!runningJobRunIds.size) return;
+  await db.jobRun.updateMany({
+    where: { id: { in: [...runningJobRunIds] }, status: JOB_RUN_STATUS.RUNNING },
+    data:  { status: JOB_RUN_STATUS.FAILED, error: reason, finishedAt: new Date() },
+  });
+}
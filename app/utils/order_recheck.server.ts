@@ -0,0 +1,139 @@
+// SPDX-License-Identifier: MIT
+
+import { getOfflineSession } from "../models/Session.server";
+import { apiVersion } from "../shopify.server";
+import { createAdminApiClient } from "@shopify/admin-api-client";
+import db from "../db.server";
+import { CONVERSION_STATUS, EXCLUSION_REASON } from "../constants";
+import type { ConversionCsvItem } from "./yahoo_conversion_csv.server";
+import type { YahooAdAccount } from "@prisma/client";
+
+/** 1回のクエリで確認する注文の最大件数 */
+const ORDERS_PER_QUERY = 50;
+
+/** テスト注文とみなす注文タグ（大文字小文字は区別しない） */
+const TEST_ORDER_TAG = "test";
+
+/**
+ * Shopifyの注文を再確認し、コンバージョンとして送信すべきでない注文を判定する
+ *
+ * 以下のいずれかに該当する注文を送信対象外とします：
+ * - キャンセルされている
+ * - 全額返金されている
+ * - テスト注文である、または「test」タグが付いている
+ * - 注文が見つからない（削除された）
+ *
+ * @param shop - ショップのドメイン
+ * @param orderIds - 確認する注文ID
+ * @returns 送信対象外の注文IDをキー、理由を値とするMap
+ * @throws {Error} セッションが存在しない場合、またはAdmin APIがエラーを返した場合
+ *
+ * @example
+ * ```typescript
+ * const excluded = await findExcludedOrders(shop, ["1234567890"]);
+ * excluded.get("1234567890"); // => "order_cancelled"
+ * ```
+ */
+export async function findExcludedOrders(shop: string, orderIds: string[]): Promise<Map<string, string>> {
+  const excluded = new Map<string, string>();
+  if (!orderIds.length) return excluded;
+
+  // セッション情報を取得
+  const session = await getOfflineSession(shop);
+  if (!session) throw new Error(`Session not found: ${shop}`);
+
+  // Shopify Admin APIクライアントを作成
+  const admin = createAdminApiClient({
+    storeDomain: session.shop,
+    apiVersion,
+    accessToken: session.accessToken,
+  });
+
+  const uniqueOrderIds = [...new Set(orderIds)];
+  for (let i = 0; i < uniqueOrderIds.length; i += ORDERS_PER_QUERY) {
+    const ids = uniqueOrderIds.slice(i, i + ORDERS_PER_QUERY);
+    const res = await admin.request(`#graphql
+      query ($ids: [ID!]!) {
+        nodes(ids: $ids) {
+          ... on Order { id cancelledAt displayFinancialStatus test tags }
+        }
+      }
+    `, {
+      variables: { ids: ids.map(id => `gid://shopify/Order/${id}`) },
+    });
+    if (res.errors || !res.data?.nodes) {
+      throw new Error(`Failed to fetch orders: ${JSON.stringify(res.errors ?? res)}`);
+    }
+
+    // nodesは指定したIDの順に返され、見つからない注文はnullになる
+    res.data.nodes.forEach((order: any, index: number) => {
+      const orderId = ids[index];
+      if (!order) {
+        excluded.set(orderId, EXCLUSION_REASON.NOT_FOUND);
+      } else if (order.cancelledAt) {
+        excluded.set(orderId, EXCLUSION_REASON.CANCELLED);
+      } else if (order.displayFinancialStatus === "REFUNDED") {
+        excluded.set(orderId, EXCLUSION_REASON.REFUNDED);
+      } else if (order.test || order.tags?.some((tag: string) => tag.toLowerCase() === TEST_ORDER_TAG)) {
+        excluded.set(orderId, EXCLUSION_REASON.TEST);
+      }
+    });
+  }
+  return excluded;
+}
+
+/**
+ * 保留期間が設定されたアカウントについて、送信前にShopifyの注文を再確認する
+ *
+ * キャンセル・全額返金・テスト注文のコンバージョンを送信対象外（excluded）に更新し、
+ * 送信対象から取り除きます。注文を確認できなかった場合は、コンバージョンを未送信のまま
+ * 今回の送信対象から外し、次回の実行で再確認します。
+ *
+ * プレビューの場合は、送信対象外の注文を取り除くだけで、コンバージョンを更新しません。
+ *
+ * @param yahooAdAccount - アップロード先のYahoo広告アカウント
+ * @param records - 送信対象
+ * @param save - 送信対象外のコンバージョンを保存する場合はtrue（プレビューではfalse）
+ * @returns 再確認後の送信対象と、注文を確認できなかった場合はその理由（実行記録用）
+ *
+ * @example
+ * ```typescript
+ * const { records, error } = await excludeRecheckedOrders(yahooAdAccount, await findPendingCsvItems(yahooAdAccount));
+ * if (error) errors.push(error);
+ * ```
+ */
+export async function excludeRecheckedOrders(
+  yahooAdAccount: YahooAdAccount,
+  records: ConversionCsvItem[],
+  save = true,
+): Promise<{ records: ConversionCsvItem[], error: string | null }> {
+  if (!yahooAdAccount.holdHours) return { records, error: null };
+
+  // 価値の調整は送信済みのコンバージョンに対するものなので再確認しない
+  const conversions = records.filter(r => r.kind === "conversion");
+  if (!conversions.length) return { records, error: null };
+
+  let excluded: Map<string, string>;
+  try {
+    excluded = await findExcludedOrders(yahooAdAccount.shop, conversions.map(r => r.orderId));
+  } catch (error) {
+    console.error('excludeRecheckedOrders error: failed to recheck orders:', error);
+    return {
+      records: records.filter(r => r.kind !== "conversion"),
+      error:   `Failed to recheck orders, ${conversions.length} conversions are left for the next run: ${yahooAdAccount.type}: ${String(error)}`,
+    };
+  }
+  const remaining = records.filter(r => r.kind !== "conversion" || !excluded.has(r.orderId));
+  if (!excluded.size || !save) return { records: remaining, error: null };
+
+  // 同じ注文IDの他のショップ・他のアカウントのコンバージョンは更新しない
+  await db.$transaction([...excluded].map(([orderId, reason]) =>
+    db.yahooConversion.updateMany({
+      where: { shop: yahooAdAccount.shop, yahooAdAccountId: yahooAdAccount.id, orderId: orderId, status: CONVERSION_STATUS.PENDING },
+      data:  { status: CONVERSION_STATUS.EXCLUDED, statusReason: reason },
+    })
+  ));
+  console.log(`Excluded ${excluded.size} orders after recheck: ${yahooAdAccount.type}`);
+
+  return { records: remaining, error: null };
+}
@@ -0,0 +1,241 @@
+// SPDX-License-Identifier: MIT
+
+import crypto from "node:crypto";
+
+/** 暗号化した値の接頭辞（形式のバージョンを含む） */
+const ENCRYPTED_PREFIX = "enc:v1:";
+
+/** 暗号方式 */
+const CIPHER = "aes-256-gcm";
+
+/** 初期化ベクトルのバイト数 */
+const IV_BYTES = 12;
+
+/** 認証タグのバイト数 */
+const TAG_BYTES = 16;
+
+/** 鍵のバイト数 */
+const KEY_BYTES = 32;
+
+/**
+ * 暗号化して保存するフィールド（Prismaのモデル名ごと）
+ */
+export const ENCRYPTED_FIELDS = {
+  yahooAdApplication: ["clientSecret", "accessToken", "refreshToken"],
+  apiKeyPair: ["privateKey"],
+  yahooAuthorization: ["codeVerifier"],
+} as const;
+
+export type EncryptedModel = keyof typeof ENCRYPTED_FIELDS;
+
+/**
+ * マスターキー
+ */
+interface MasterKey {
+  /** 鍵の識別子（鍵のSHA-256の先頭8文字） */
+  id: string;
+  /** 鍵 */
+  key: Buffer;
+}
+
+/**
+ * base64でエンコードされたマスターキーを読み込む
+ */
+function parseMasterKey(encoded: string, name: string): MasterKey {
+  const key = Buffer.from(encoded.trim(), "base64");
+  if (key.length !== KEY_BYTES) {
+    throw new Error(`${name} must be ${KEY_BYTES} bytes encoded in base64`);
+  }
+  return { id: crypto.createHash("sha256").update(key).digest("hex").slice(0, 8), key };
+}
+
+/**
+ * 暗号化に使用する現在のマスターキーを取得する
+ *
+ * @throws {Error} 環境変数SECRETS_MASTER_KEYが設定されていない、または不正な場合
+ */
+function currentMasterKey(): MasterKey {
+  const encoded = process.env.SECRETS_MASTER_KEY;
+  if (!encoded) throw new Error("SECRETS_MASTER_KEY is not set");
+  return parseMasterKey(encoded, "SECRETS_MASTER_KEY");
+}
+
+/**
+ * 復号に使用できるマスターキーを取得する
+ *
+ * 鍵のローテーション中は、環境変数SECRETS_PREVIOUS_MASTER_KEYS（カンマ区切り）に
+ * 以前のマスターキーを設定すると、以前の鍵で暗号化された値も復号できます。
+ */
+function masterKeys(): MasterKey[] {
+  const previous = (process.env.SECRETS_PREVIOUS_MASTER_KEYS ?? "")
+    .split(",")
+    .filter(encoded => encoded.trim())
+    .map(encoded => parseMasterKey(encoded, "SECRETS_PREVIOUS_MASTER_KEYS"));
+  return [currentMasterKey(), ...previous];
+}
+
+/**
+ * マスターキーの設定を確認する
+ *
+ * 秘密情報を保存するときではなく、アプリの起動時に設定の誤りを検出するために呼び出します。
+ *
+ * @throws {Error} 環境変数SECRETS_MASTER_KEYが設定されていない、またはマスターキーが不正な場合
+ */
+export function assertMasterKeys(): void {
+  if (!process.env.SECRETS_MASTER_KEY) {
+    throw new Error(
+      "SECRETS_MASTER_KEY is not set. Secrets are stored encrypted with this key, " +
+      `set a ${KEY_BYTES}-byte key encoded in base64 (e.g. \`openssl rand -base64 32\`) and restart the app.`,
+    );
+  }
+  masterKeys();
+}
+
+/**
+ * AES-256-GCMで暗号化し、初期化ベクトル・認証タグ・暗号文を連結して返す
+ */
+function seal(key: Buffer, plaintext: Buffer): Buffer {
+  const iv = crypto.randomBytes(IV_BYTES);
+  const cipher = crypto.createCipheriv(CIPHER, key, iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return Buffer.concat([iv, cipher.getAuthTag(), ciphertext]);
+}
+
+/**
+ * sealで暗号化したデータを復号する
+ */
+function open(key: Buffer, sealed: Buffer): Buffer {
+  const iv = sealed.subarray(0, IV_BYTES);
+  const tag = sealed.subarray(IV_BYTES, IV_BYTES + TAG_BYTES);
+  const decipher = crypto.createDecipheriv(CIPHER, key, iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(sealed.subarray(IV_BYTES + TAG_BYTES)), decipher.final()]);
+}
+
+/**
+ * 暗号化された値かどうかを判定する
+ */
+export function isEncryptedSecret(value: string): boolean {
+  return value.startsWith(ENCRYPTED_PREFIX);
+}
+
+/**
+ * 現在のマスターキーで暗号化された値かどうかを判定する
+ *
+ * 平文のままの値や、以前のマスターキーで暗号化された値はfalseになります。
+ */
+export function isEncryptedWithCurrentKey(value: string): boolean {
+  return value.startsWith(ENCRYPTED_PREFIX + currentMasterKey().id + ":");
+}
+
+/**
+ * 値をエンベロープ暗号化する
+ *
+ * 値ごとにランダムなデータキーを生成して値を暗号化し、データキーをマスターキーで暗号化します。
+ * 形式は `enc:v1:{マスターキーの識別子}:{暗号化したデータキー}:{暗号化した値}` です（各部はbase64url）。
+ *
+ * @param plaintext - 暗号化する値
+ * @returns 暗号化した値
+ * @throws {Error} マスターキーが設定されていない場合
+ *
+ * @example
+ * ```typescript
+ * const encrypted = encryptSecret("refresh-token");
+ * decryptSecret(encrypted); // => "refresh-token"
+ * ```
+ */
+export function encryptSecret(plaintext: string): string {
+  const masterKey = currentMasterKey();
+  const dataKey = crypto.randomBytes(KEY_BYTES);
+  return ENCRYPTED_PREFIX + [
+    masterKey.id,
+    seal(masterKey.key, dataKey).toString("base64url"),
+    seal(dataKey, Buffer.from(plaintext, "utf8")).toString("base64url"),
+  ].join(":");
+}
+
+/**
+ * encryptSecretで暗号化した値を復号する
+ *
+ * 暗号化されていない値（暗号化の移行前に保存された値）は、そのまま返します。
+ *
+ * @param value - 復号する値
+ * @returns 復号した値
+ * @throws {Error} 暗号化に使用したマスターキーが設定されていない場合、または値が改ざんされている場合
+ */
+export function decryptSecret(value: string): string {
+  if (!isEncryptedSecret(value)) return value;
+
+  const [keyId, wrappedDataKey, ciphertext] = value.slice(ENCRYPTED_PREFIX.length).split(":");
+  const masterKey = masterKeys().find(mk => mk.id === keyId);
+  if (!masterKey) throw new Error(`Master key ${keyId} is not available`);
+
+  const dataKey = open(masterKey.key, Buffer.from(wrappedDataKey, "base64url"));
+  return open(dataKey, Buffer.from(ciphertext, "base64url")).toString("utf8");
+}
+
+/**
+ * 保存されているレコードのうち、暗号化し直す必要があるフィールドを現在のマスターキーで暗号化する
+ *
+ * - encrypt：平文のまま保存されている値（暗号化の導入前に保存された値）のみ暗号化する
+ * - rotate：現在のマスターキー以外で暗号化された値も含め、すべての値を現在のマスターキーで暗号化し直す
+ *
+ * @param model - モデル名
+ * @param record - 保存されているレコード（暗号化の拡張を適用せずに読み込んだもの）
+ * @param mode - 暗号化し直す対象
+ * @returns 更新するフィールドと暗号化した値（暗号化し直す必要がない場合は空のオブジェクト）
+ * @throws {Error} 暗号化に使用したマスターキーが設定されていない場合
+ *
+ * @example
+ * ```typescript
+ * const data = reencryptSecretFields("yahooAdApplication", yahooAdApplication, "rotate");
+ * if (Object.keys(data).length) await prisma.yahooAdApplication.update({ where: { shop }, data });
+ * ```
+ */
+export function reencryptSecretFields(model: EncryptedModel, record: Record<string, unknown>, mode: "encrypt" | "rotate"): Record<string, string> {
+  const data: Record<string, string> = {};
+  for (const field of ENCRYPTED_FIELDS[model]) {
+    const value = record[field];
+    if (typeof value !== "string") continue;
+    if (mode === "rotate" ? !isEncryptedWithCurrentKey(value) : !isEncryptedSecret(value)) {
+      data[field] = encryptSecret(decryptSecret(value));
+    }
+  }
+  return data;
+}
+
+/**
+ * 書き込むデータのうち、暗号化対象のフィールドを暗号化する
+ *
+ * 文字列と`{ set: 文字列 }`の形式の値を暗号化し、null・undefinedはそのままにします。
+ */
+export function encryptSecretFields<T>(model: EncryptedModel, data: T): T {
+  if (Array.isArray(data)) return data.map(row => encryptSecretFields(model, row)) as T;
+  if (!data || typeof data !== "object") return data;
+
+  const encrypted = { ...data } as Record<string, unknown>;
+  for (const field of ENCRYPTED_FIELDS[model]) {
+    const value = encrypted[field];
+    if (typeof value === "string") {
+      encrypted[field] = encryptSecret(value);
+    } else if (value && typeof value === "object" && typeof (value as { set?: unknown }).set === "string") {
+      encrypted[field] = { set: encryptSecret((value as { set: string }).set) };
+    }
+  }
+  return encrypted as T;
+}
+
+/**
+ * 読み込んだレコード（またはその配列）のうち、暗号化対象のフィールドを復号する
+ */
+export function decryptSecretFields<T>(model: EncryptedModel, result: T): T {
+  if (Array.isArray(result)) return result.map(row => decryptSecretFields(model, row)) as T;
+  if (!result || typeof result !== "object") return result;
+
+  const decrypted = { ...result } as Record<string, unknown>;
+  for (const field of ENCRYPTED_FIELDS[model]) {
+    const value = decrypted[field];
+    if (typeof value === "string") decrypted[field] = decryptSecret(value);
+  }
+  return decrypted as T;
+}
@@ -0,0 +1,130 @@
+// SPDX-License-Identifier: MIT
+
+/**
+ * シャットダウンの状態と、実行中のバッチタスク
+ */
+interface ShutdownState {
+  /** 終了シグナルを受け取ったかどうか */
+  shuttingDown: boolean;
+  /** 実行中のタスク（タスク名ごと） */
+  running: Map<Promise<unknown>, string>;
+  /** シャットダウンを開始すると中断する */
+  started: AbortController;
+  /** 実行中のリクエストを打ち切る時刻になると中断する */
+  deadline: AbortController;
+}
+
+/**
+ * グローバル変数の型定義
+ * 開発サーバーでモジュールが読み込み直されても、同じ状態を参照するため
+ */
+declare global {
+  var __BATCH_SHUTDOWN__: ShutdownState | undefined;
+}
+
+const state = global.__BATCH_SHUTDOWN__ ??= {
+  shuttingDown: false,
+  running: new Map(),
+  started: new AbortController(),
+  deadline: new AbortController(),
+};
+
+/**
+ * シャットダウン中（終了シグナルを受け取った後）かどうかを判定する
+ *
+ * バッチタスクは、ファイルやショップなどの区切りごとに確認し、シャットダウン中の場合は
+ * 残りの処理を次回の実行に持ち越して終了します。
+ */
+export function isShuttingDown(): boolean {
+  return state.shuttingDown;
+}
+
+/**
+ * バッチタスクを区切りで止める必要があるかどうかを判定する
+ *
+ * シャットダウン中の場合と、タスクに渡されたシグナルが中断された場合（ジョブのロックを失った場合など）に止めます。
+ *
+ * @param signal - タスクの実行を中断するシグナル
+ * @returns 止める必要がある場合はその理由（ログと実行記録用）、続けてよい場合はnull
+ *
+ * @example
+ * ```typescript
+ * const stop = stopReason(signal);
+ * if (stop) {
+ *   errors.push(`Stopped for ${stop}, the remaining jobs are left for the next run`);
+ *   break;
+ * }
+ * ```
+ */
+export function stopReason(signal?: AbortSignal): string | null {
+  if (isShuttingDown()) return "shutdown";
+  if (signal?.aborted) return String(signal.reason);
+  return null;
+}
+
+/**
+ * シャットダウンを開始すると中断されるシグナルを取得する
+ *
+ * 再試行までの待機など、中断しても問題がない待ち時間に使用します。
+ */
+export function shutdownSignal(): AbortSignal {
+  return state.started.signal;
+}
+
+/**
+ * シャットダウン中に、実行中のリクエストを打ち切る時刻になると中断されるシグナルを取得する
+ *
+ * タスクの終了を待ちきれずにプロセスが終了する前に、リクエストを打ち切って結果を記録できるようにします。
+ */
+export function shutdownDeadlineSignal(): AbortSignal {
+  return state.deadline.signal;
+}
+
+/**
+ * 実行中のタスクとして登録して実行する（シャットダウン時に終了を待つ対象になる）
+ *
+ * @param name - タスク名（ログ出力用）
+ * @param task - 実行するタスク
+ * @returns タスクの戻り値
+ */
+export async function trackRunningTask<T>(name: string, task: () => Promise<T>): Promise<T> {
+  const promise = task();
+  state.running.set(promise, name);
+  try {
+    return await promise;
+  } finally {
+    state.running.delete(promise);
+  }
+}
+
+/**
+ * シャットダウンを開始し、実行中のタスクの終了を待つ
+ *
+ * 以降はisShuttingDownがtrueを返し、shutdownSignalが中断されます。
+ * abortRequestsAfterMsが経過するとshutdownDeadlineSignalが中断され、タスクが終了しない場合でも、timeoutMsで待つのをやめます。
+ *
+ * @param timeoutMs - 待つ最大時間（ミリ秒）
+ * @param abortRequestsAfterMs - 実行中のリクエストを打ち切るまでの時間（ミリ秒）
+ * @returns 待ちきれなかったタスクの名前（全て終了した場合は空の配列）
+ *
+ * @example
+ * ```typescript
+ * const unfinished = await drainRunningTasks(TASK_SCHEDULE.SHUTDOWN_TIMEOUT_MS, TASK_SCHEDULE.SHUTDOWN_ABORT_REQUESTS_MS);
+ * if (unfinished.length) console.error(`Shutdown timed out: ${unfinished.join(", ")}`);
+ * ```
+ */
+export async function drainRunningTasks(timeoutMs: number, abortRequestsAfterMs: number): Promise<string[]> {
+  state.shuttingDown = true;
+  state.started.abort();
+
+  const deadlineTimer = setTimeout(() => state.deadline.abort(), abortRequestsAfterMs);
+  let timer: NodeJS.Timeout | undefined;
+  await Promise.race([
+    Promise.allSettled(state.running.keys()),
+    new Promise(resolve => { timer = setTimeout(resolve, timeoutMs); }),
+  ]);
+  clearTimeout(deadlineTimer);
+  clearTimeout(timer);
+
+  return [...state.running.values()];
+}
@@ -0,0 +1,90 @@
+// SPDX-License-Identifier: MIT
+
+import cron from "node-cron";
+import db from "../db.server";
+import { TASK_SCHEDULE, type TaskName } from "../constants";
+
+/**
+ * バッチタスクの実行スケジュール
+ */
+export interface TaskScheduleSetting {
+  /** タスク名 */
+  name: TaskName;
+  /** スケジュール（cron式） */
+  cronExpression: string;
+  /** 定期実行するかどうか */
+  enabled: boolean;
+}
+
+/**
+ * タスク名として有効な値かどうかを判定する
+ */
+export function isTaskName(name: unknown): name is TaskName {
+  return typeof name === "string" && Object.hasOwn(TASK_SCHEDULE.DEFAULTS, name);
+}
+
+/**
+ * バッチを運用するショップかどうかを判定する
+ *
+ * スケジュールは全ショップに適用され、メンテナンスはショップに関係なく実行されるため、
+ * スケジュールの変更とメンテナンスの実行は、環境変数BATCH_OPERATOR_SHOPS（カンマ区切り）に
+ * 設定したショップにのみ許可します。
+ *
+ * @param shop - ショップのドメイン
+ */
+export function isBatchOperator(shop: string): boolean {
+  return (process.env.BATCH_OPERATOR_SHOPS ?? "")
+    .split(",")
+    .map(operator => operator.trim())
+    .includes(shop);
+}
+
+/**
+ * ショップがタスクを今すぐ実行できるかどうかを判定する
+ *
+ * ショップごとに実行するタスクは、そのショップを対象に誰でも実行できます。
+ * 全ショップが対象のメンテナンスは、バッチを運用するショップのみ実行できます。
+ *
+ * @param name - タスク名
+ * @param shop - ショップのドメイン
+ */
+export function canRunTaskNow(name: TaskName, shop: string): boolean {
+  return name !== "maintenance" || isBatchOperator(shop);
+}
+
+/**
+ * 全タスクの実行スケジュールを取得する
+ *
+ * データベースに保存されていないタスクは、既定のスケジュール（TASK_SCHEDULE.DEFAULTS）で定期実行します。
+ *
+ * @returns タスクごとの実行スケジュール（TASK_SCHEDULE.DEFAULTSの順）
+ */
+export async function getTaskSchedules(): Promise<TaskScheduleSetting[]> {
+  const records = await db.taskSchedule.findMany();
+  return (Object.keys(TASK_SCHEDULE.DEFAULTS) as TaskName[]).map(name => {
+    const record = records.find(r => r.name === name);
+    return {
+      name:           name,
+      cronExpression: record?.cronExpression ?? TASK_SCHEDULE.DEFAULTS[name],
+      enabled:        record?.enabled ?? true,
+    };
+  });
+}
+
+/**
+ * スケジュール（cron式）を確認する
+ *
+ * 秒の指定による過剰な実行を防ぐため、「分 時 日 月 曜日」の5項目の形式のみを受け付けます。
+ *
+ * @param cronExpression - スケジュール（cron式）
+ * @returns エラーメッセージ（問題がない場合はundefined）
+ */
+export function validateCronExpression(cronExpression: string): string | undefined {
+  if (cronExpression.trim().split(/\s+/).length !== 5) {
+    return "「分 時 日 月 曜日」の5項目をスペース区切りで入力してください";
+  }
+  if (!cron.validate(cronExpression.trim())) {
+    return "スケジュールの形式が正しくありません";
+  }
+  return undefined;
+}
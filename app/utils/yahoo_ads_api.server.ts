@@ -0,0 +1,311 @@
+// SPDX-License-Identifier: MIT
+
+import { API, YAHOO_API_ERROR_KIND, type EndpointKey } from "../constants";
+import { getValidYahooAdToken } from "./get_yahoo_ad_token.server";
+import { recordYahooApiError } from "./yahoo_connection.server";
+import { requestYahoo, YahooApiError } from "./yahoo_http_client.server";
+import { getYahooAdApplication } from "../models/YahooAdApplication.server";
+
+/**
+ * ベースアカウントの配下のアカウント
+ */
+export interface LinkedAccount {
+  /** アカウントID */
+  accountId: string;
+  /** アカウント名 */
+  accountName: string;
+}
+
+/**
+ * アカウントのコンバージョン設定
+ */
+export interface ConversionTracker {
+  /** コンバージョンID */
+  conversionTrackerId: string;
+  /** コンバージョン名 */
+  conversionTrackerName: string;
+  /** コンバージョンの種別 */
+  conversionTrackerType: string;
+}
+
+/**
+ * アカウントにアップロードしたオフラインコンバージョンのファイル
+ */
+export interface OfflineConversionUpload {
+  /** アップロードID */
+  uploadId: string;
+  /** アップロードしたファイル名 */
+  uploadFileName: string;
+  /** 処理ステータス */
+  processStatus: string;
+}
+
+/**
+ * 確認するYahoo広告アカウントの設定
+ */
+export interface YahooAdAccountSetting {
+  /** 広告タイプ */
+  type: EndpointKey;
+  /** ベースアカウントのID（x-z-base-account-id） */
+  accountId: string;
+  /** コンバージョンを送信するアカウントのID */
+  childAccountId: string;
+  /** コンバージョン名 */
+  conversionTitle: string;
+}
+
+/**
+ * Yahoo広告アカウントの設定の項目ごとのエラー
+ */
+export type YahooAdAccountSettingErrors = Partial<Record<"accountId" | "childAccountId" | "conversionTitle", string>>;
+
+/**
+ * Yahoo広告APIの一覧取得（get）を呼び出し、全件を取得する
+ *
+ * 取得件数がAPI.GET_PAGE_SIZEを超える場合は、startIndexをずらして繰り返し取得します。
+ *
+ * @param shop - ショップのドメイン（エラーを保存するショップ）
+ * @param type - 広告タイプ
+ * @param path - APIのパス
+ * @param baseAccountId - x-z-base-account-idに指定するアカウントID
+ * @param accessToken - アクセストークン
+ * @param selector - 取得条件
+ * @param key - レスポンスのvaluesの各要素から取り出すキー
+ * @returns 取得した値
+ * @throws {Error} APIがエラーを返した場合（エラーは接続状態の確認用にも保存する。再試行しても失敗した場合はYahooApiError）
+ */
+async function getAll<T>(
+  shop: string,
+  type: EndpointKey,
+  path: string,
+  baseAccountId: string,
+  accessToken: string,
+  selector: Record<string, unknown>,
+  key: string,
+): Promise<T[]> {
+  const values: T[] = [];
+  for (let startIndex = 1; ; startIndex += API.GET_PAGE_SIZE) {
+    let res: Response;
+    try {
+      res = await requestYahoo(API.ENDPOINT[type] + API.VERSION + path, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "x-z-base-account-id": baseAccountId,
+          "Authorization": "Bearer " + accessToken
+        },
+        body: JSON.stringify({ ...selector, startIndex: startIndex, numberResults: API.GET_PAGE_SIZE }),
+      }, { path: path, idempotent: true });
+    } catch (error) {
+      if (error instanceof YahooApiError) await recordYahooApiError(shop, error.message);
+      throw error;
+    }
+
+    const body = await res.json().catch(() => null);
+    if (!body?.rval || body?.errors?.length) {
+      const message = `${path} [${res.status}] ${JSON.stringify(body?.errors ?? body)}`;
+      await recordYahooApiError(shop, message);
+      throw new Error(message);
+    }
+
+    const page: T[] = (body.rval.values ?? [])
+      .filter((value: Record<string, unknown>) => value.operationSucceeded !== false)
+      .map((value: Record<string, unknown>) => value[key]);
+    values.push(...page);
+    if (!page.length || values.length >= Number(body.rval.totalNumEntries ?? 0)) return values;
+  }
+}
+
+/**
+ * Yahoo広告APIのアクセストークンを取得する
+ *
+ * @param shop - ショップのドメイン
+ * @returns アクセストークン。Yahoo広告アプリケーションが未設定、または接続されていない場合は空文字列
+ */
+export async function getYahooAdsAccessToken(shop: string): Promise<string> {
+  const yahooAdApplication = await getYahooAdApplication(shop);
+  if (!yahooAdApplication) return "";
+  return getValidYahooAdToken(yahooAdApplication);
+}
+
+/**
+ * ベースアカウントの配下のアカウントを取得する（AccountLinkService）
+ *
+ * @param shop - ショップのドメイン
+ * @param type - 広告タイプ
+ * @param baseAccountId - ベースアカウントのID
+ * @param accessToken - アクセストークン
+ * @returns 配下のアカウント
+ * @throws {Error} APIがエラーを返した場合
+ */
+export async function getLinkedAccounts(
+  shop: string,
+  type: EndpointKey,
+  baseAccountId: string,
+  accessToken: string,
+): Promise<LinkedAccount[]> {
+  const accountLinks = await getAll<{ accountId: number | string, accountName?: string }>(
+    shop, type, API.ACCOUNT_LINK_GET_PATH, baseAccountId, accessToken, { accountId: Number(baseAccountId) }, "accountLink",
+  );
+  return accountLinks.map(link => ({ accountId: String(link.accountId), accountName: link.accountName ?? "" }));
+}
+
+/**
+ * アカウントのコンバージョン設定を取得する（ConversionTrackerService）
+ *
+ * @param shop - ショップのドメイン
+ * @param type - 広告タイプ
+ * @param baseAccountId - ベースアカウントのID
+ * @param accountId - コンバージョン設定を取得するアカウントのID
+ * @param accessToken - アクセストークン
+ * @returns コンバージョン設定
+ * @throws {Error} APIがエラーを返した場合
+ */
+export async function getConversionTrackers(
+  shop: string,
+  type: EndpointKey,
+  baseAccountId: string,
+  accountId: string,
+  accessToken: string,
+): Promise<ConversionTracker[]> {
+  const conversionTrackers = await getAll<{ conversionTrackerId: number | string, conversionTrackerName: string, conversionTrackerType: string }>(
+    shop, type, API.CONVERSION_TRACKER_GET_PATH, baseAccountId, accessToken, { accountId: Number(accountId) }, "conversionTracker",
+  );
+  return conversionTrackers.map(ct => ({
+    conversionTrackerId: String(ct.conversionTrackerId),
+    conversionTrackerName: ct.conversionTrackerName,
+    conversionTrackerType: ct.conversionTrackerType,
+  }));
+}
+
+/**
+ * アカウントにアップロードしたオフラインコンバージョンのファイルを取得する（OfflineConversionService）
+ *
+ * @param shop - ショップのドメイン
+ * @param type - 広告タイプ
+ * @param baseAccountId - ベースアカウントのID
+ * @param accountId - アップロード先のアカウントのID
+ * @param accessToken - アクセストークン
+ * @returns アップロードしたファイル
+ * @throws {Error} APIがエラーを返した場合
+ */
+export async function getOfflineConversionUploads(
+  shop: string,
+  type: EndpointKey,
+  baseAccountId: string,
+  accountId: string,
+  accessToken: string,
+): Promise<OfflineConversionUpload[]> {
+  const uploads = await getAll<{ uploadId: number | string, uploadFileName: string, processStatus: string }>(
+    shop, type, API.CSV_GET_PATH, baseAccountId, accessToken, { accountId: Number(accountId) }, "offlineConversion",
+  );
+  return uploads.map(upload => ({
+    uploadId: String(upload.uploadId),
+    uploadFileName: upload.uploadFileName,
+    processStatus: upload.processStatus,
+  }));
+}
+
+/**
+ * オフラインコンバージョンのコンバージョン設定かどうかを判定する
+ *
+ * @param type - 広告タイプ
+ * @param conversionTracker - コンバージョン設定
+ */
+export function isOfflineConversionTracker(type: EndpointKey, conversionTracker: ConversionTracker): boolean {
+  return conversionTracker.conversionTrackerType === API.OFFLINE_CONVERSION_TRACKER_TYPE[type];
+}
+
+/**
+ * Yahoo広告APIを利用できないエラー（接続の失効・リクエスト数の上限・一時的なエラー）かどうかを判定する
+ *
+ * リクエストの内容の誤り（アクセスできないアカウントなど）は、設定の誤りとして扱います。
+ */
+function isApiUnavailableError(error: unknown): boolean {
+  return error instanceof YahooApiError && error.kind !== YAHOO_API_ERROR_KIND.PERMANENT;
+}
+
+/**
+ * Yahoo広告アカウントの設定をYahoo広告APIで確認する
+ *
+ * 設定ごとに以下を確認し、問題がある項目のエラーを返します：
+ * - ベースアカウントからコンバージョンを送信するアカウントにアクセスできること
+ *   （ベースアカウントとコンバージョンを送信するアカウントが異なる場合は、配下のアカウントであること）
+ * - コンバージョン名のコンバージョン設定が、オフラインコンバージョンとして存在すること
+ *
+ * 同じベースアカウントの配下のアカウントは、1回だけ取得します。
+ * Yahoo広告と接続されていない場合や、APIを利用できない場合（認証エラー・一時的なエラーなど）は、
+ * その設定を確認せずにunavailableReasonに理由を返します（入力内容の誤りのみエラーにします）。
+ *
+ * @param shop - ショップのドメイン
+ * @param settings - 確認するYahoo広告アカウントの設定
+ * @param accessToken - アクセストークン（Yahoo広告と接続されていない場合は空文字列）
+ * @returns 設定ごとの項目別のエラー（問題がない設定は空のオブジェクト）と、確認できなかった理由
+ *
+ * @example
+ * ```typescript
+ * const { errors, unavailableReason } = await validateYahooAdAccountSettings(session.shop, records, accessToken);
+ * if (errors.some(e => Object.keys(e).length)) {
+ *   // 項目ごとのエラーを表示する
+ * }
+ * ```
+ */
+export async function validateYahooAdAccountSettings(
+  shop: string,
+  settings: YahooAdAccountSetting[],
+  accessToken: string,
+): Promise<{ errors: YahooAdAccountSettingErrors[], unavailableReason: string | null }> {
+  const linkedAccounts = new Map<string, Promise<LinkedAccount[]>>();
+  let unavailableReason: string | null = null;
+
+  const validate = async (setting: YahooAdAccountSetting): Promise<YahooAdAccountSettingErrors> => {
+    if (!setting.accountId) return { accountId: "Account IDを入力してください" };
+    if (!setting.childAccountId) return { childAccountId: "Child Account IDを入力してください" };
+    if (!setting.conversionTitle) return { conversionTitle: "コンバージョン名を入力してください" };
+
+    if (!accessToken) {
+      unavailableReason = "Yahoo広告と接続されていません";
+      return {};
+    }
+
+    if (setting.childAccountId !== setting.accountId) {
+      const key = `${setting.type}:${setting.accountId}`;
+      if (!linkedAccounts.has(key)) linkedAccounts.set(key, getLinkedAccounts(shop, setting.type, setting.accountId, accessToken));
+      try {
+        const accounts = await linkedAccounts.get(key)!;
+        if (!accounts.some(account => account.accountId === setting.childAccountId)) {
+          return { childAccountId: `Account ID ${setting.accountId}の配下にないアカウントです` };
+        }
+      } catch (error) {
+        if (isApiUnavailableError(error)) {
+          unavailableReason = (error as Error).message;
+          return {};
+        }
+        return { accountId: `Yahoo広告でアカウントを確認できませんでした（${(error as Error).message}）` };
+      }
+    }
+
+    let conversionTrackers: ConversionTracker[];
+    try {
+      conversionTrackers = await getConversionTrackers(shop, setting.type, setting.accountId, setting.childAccountId, accessToken);
+    } catch (error) {
+      if (isApiUnavailableError(error)) {
+        unavailableReason = (error as Error).message;
+        return {};
+      }
+      return { childAccountId: `Yahoo広告でアカウントを確認できませんでした（${(error as Error).message}）` };
+    }
+
+    const conversionTracker = conversionTrackers.find(ct => ct.conversionTrackerName === setting.conversionTitle);
+    if (!conversionTracker) {
+      return { conversionTitle: `コンバージョン名「${setting.conversionTitle}」がYahoo広告のアカウントに見つかりません` };
+    }
+    if (!isOfflineConversionTracker(setting.type, conversionTracker)) {
+      return { conversionTitle: `コンバージョン名「${setting.conversionTitle}」はオフラインコンバージョンではありません` };
+    }
+    return {};
+  };
+
+  const errors = await Promise.all(settings.map(validate));
+  return { errors, unavailableReason };
+}
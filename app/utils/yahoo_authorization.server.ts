@@ -0,0 +1,126 @@
+// SPDX-License-Identifier: MIT
+
+import crypto from "node:crypto";
+import type { YahooAdApplication, YahooAuthorization } from "@prisma/client";
+import db from "../db.server";
+import { AUTH, AUTHORIZATION_ERROR, type AuthorizationError } from "../constants";
+import { createYahooAdState } from "./security.server";
+import { getYahooAdToken } from "./get_yahoo_ad_token.server";
+import { getYahooAdApplication } from "../models/YahooAdApplication.server";
+
+/**
+ * Yahoo広告の認可を開始し、認可エンドポイントのURLを返す
+ *
+ * 認可リクエストごとにstateを発行し、認可を開始した管理画面のユーザーと有効期限とともに保存します。
+ * PKCEが有効な場合は、コード検証値を保存し、コードチャレンジを認可リクエストに含めます。
+ *
+ * @param yahooAdApplication - Yahoo広告アプリケーションの設定情報
+ * @param shop - ショップのドメイン
+ * @param userId - 認可を開始した管理画面のユーザーID（セッショントークンのsub）
+ * @returns 認可エンドポイントのURL
+ *
+ * @example
+ * ```typescript
+ * const authorizeUrl = await startYahooAuthorization(yahooAdApplication, session.shop, sessionToken.sub);
+ * ```
+ */
+export async function startYahooAuthorization(
+  yahooAdApplication: YahooAdApplication,
+  shop: string,
+  userId: string,
+): Promise<string> {
+  const state = createYahooAdState();
+  const codeVerifier = AUTH.PKCE ? createYahooAdState() : null;
+
+  await db.yahooAuthorization.create({
+    data: {
+      state: state,
+      shop: shop,
+      userId: userId,
+      clientId: yahooAdApplication.clientId,
+      codeVerifier: codeVerifier,
+      expiresAt: new Date(Date.now() + AUTH.STATE_EXPIRES_MINUTES * 60 * 1000),
+    },
+  });
+
+  const query = new URLSearchParams({
+    response_type: AUTH.RESPONSE_TYPE,
+    client_id: yahooAdApplication.clientId,
+    redirect_uri: yahooAdApplication.redirectUri,
+    scope: AUTH.SCOPE,
+    state: state,
+    ...(codeVerifier ? {
+      code_challenge: crypto.createHash("sha256").update(codeVerifier).digest("base64url"),
+      code_challenge_method: AUTH.CODE_CHALLENGE_METHOD,
+    } : {}),
+  });
+  return AUTH.ENDPOINT + AUTH.VERSION + AUTH.AUTHORIZE_PATH + '?' + query.toString();
+}
+
+/**
+ * 有効期限内で未使用の認可リクエストを取得する
+ *
+ * @param state - 認可リクエストのstate
+ * @returns 認可リクエスト。見つからない、有効期限切れ、使用済みの場合はnull
+ */
+export async function findValidYahooAuthorization(state: string): Promise<YahooAuthorization | null> {
+  return db.yahooAuthorization.findFirst({
+    where: { state: state, usedAt: null, expiresAt: { gt: new Date() } },
+  });
+}
+
+/**
+ * Yahoo広告の認可を完了する
+ *
+ * この関数は以下の処理を行います：
+ * - 認可リクエストが、有効期限内・未使用で、認可を開始したユーザーのものであることを確認
+ * - 認可リクエストを使用済みにする（同じstateは二度と使用できない）
+ * - 認可コードをアクセストークンに交換する
+ *
+ * @param params.state - 認可リクエストのstate
+ * @param params.code - 認可コード
+ * @param params.error - Yahoo!ビジネスIDから返却されたエラー（認可されなかった場合）
+ * @param params.shop - ショップのドメイン
+ * @param params.userId - 管理画面のユーザーID（セッショントークンのsub）
+ * @returns 失敗した理由。成功した場合はnull
+ *
+ * @example
+ * ```typescript
+ * const error = await completeYahooAuthorization({ state, code, error: null, shop: session.shop, userId: sessionToken.sub });
+ * ```
+ */
+export async function completeYahooAuthorization({ state, code, error, shop, userId }: {
+  state: string;
+  code: string | null;
+  error: string | null;
+  shop: string;
+  userId: string;
+}): Promise<AuthorizationError | null> {
+  const now = new Date();
+  const authorization = await db.yahooAuthorization.findUnique({ where: { state: state } });
+  if (!authorization) return AUTHORIZATION_ERROR.NOT_FOUND;
+  if (authorization.shop !== shop || authorization.userId !== userId) return AUTHORIZATION_ERROR.USER_MISMATCH;
+  if (authorization.usedAt) return AUTHORIZATION_ERROR.USED;
+  if (authorization.expiresAt <= now) return AUTHORIZATION_ERROR.EXPIRED;
+
+  // 同時に同じstateで完了しようとした場合も、一方のみが使用できる
+  const { count } = await db.yahooAuthorization.updateMany({
+    where: { state: state, usedAt: null },
+    data:  { usedAt: now },
+  });
+  if (!count) return AUTHORIZATION_ERROR.USED;
+
+  if (error || !code) return AUTHORIZATION_ERROR.DENIED;
+
+  const yahooAdApplication = await getYahooAdApplication(shop);
+  if (!yahooAdApplication || yahooAdApplication.clientId !== authorization.clientId) return AUTHORIZATION_ERROR.NOT_FOUND;
+
+  const updatedYahooAdApplication = await db.yahooAdApplication.update({
+    where: { shop: shop },
+    data:  { code: code },
+  });
+  const accessToken = await getYahooAdToken(updatedYahooAdApplication, false, authorization.codeVerifier);
+  if (!accessToken) return AUTHORIZATION_ERROR.TOKEN_FAILED;
+
+  return null;
+}
@@ -0,0 +1,64 @@
+// SPDX-License-Identifier: MIT
+
+import db from "../db.server";
+import { UPLOAD_CIRCUIT_BREAKER } from "../constants";
+import type { YahooAdAccount } from "@prisma/client";
+
+/** 保存する一時停止の理由の最大文字数 */
+const MAX_REASON_LENGTH = 1000;
+
+/**
+ * アカウントへのアップロードが一時停止中かどうかを判定する
+ *
+ * @param yahooAdAccount - Yahoo広告アカウント
+ * @returns 一時停止中の場合は再開日時と理由、一時停止していない場合はnull
+ */
+export function getUploadPause(yahooAdAccount: YahooAdAccount): { until: Date, reason: string } | null {
+  if (!yahooAdAccount.uploadPausedUntil || yahooAdAccount.uploadPausedUntil.getTime() <= Date.now()) return null;
+  return { until: yahooAdAccount.uploadPausedUntil, reason: yahooAdAccount.uploadPauseReason ?? "" };
+}
+
+/**
+ * アップロードの成功を記録し、連続失敗回数と一時停止を解除する
+ *
+ * @param yahooAdAccountId - Yahoo広告アカウントのID
+ */
+export async function recordUploadSuccess(yahooAdAccountId: number): Promise<void> {
+  await db.yahooAdAccount.updateMany({
+    where: { id: yahooAdAccountId, OR: [{ uploadFailureCount: { gt: 0 } }, { uploadPausedUntil: { not: null } }] },
+    data:  { uploadFailureCount: 0, uploadPausedUntil: null, uploadPauseReason: null },
+  });
+}
+
+/**
+ * アップロードの失敗を記録する
+ *
+ * 連続失敗回数がUPLOAD_CIRCUIT_BREAKER.FAILURE_THRESHOLDに達した場合は、
+ * UPLOAD_CIRCUIT_BREAKER.PAUSE_MINUTESの間、アカウントへのアップロードを一時停止し、理由を保存します。
+ * 一時停止が明けた後の最初のアップロードにも失敗した場合は、再び一時停止します。
+ *
+ * @param yahooAdAccount - Yahoo広告アカウント
+ * @param reason - 失敗の理由
+ * @returns アップロードを一時停止した場合はtrue
+ *
+ * @example
+ * ```typescript
+ * if (await recordUploadFailure(yahooAdAccount, message)) break;
+ * ```
+ */
+export async function recordUploadFailure(yahooAdAccount: YahooAdAccount, reason: string): Promise<boolean> {
+  const { uploadFailureCount } = await db.yahooAdAccount.update({
+    where:  { id: yahooAdAccount.id },
+    data:   { uploadFailureCount: { increment: 1 } },
+    select: { uploadFailureCount: true },
+  });
+  if (uploadFailureCount < UPLOAD_CIRCUIT_BREAKER.FAILURE_THRESHOLD) return false;
+
+  const until = new Date(Date.now() + UPLOAD_CIRCUIT_BREAKER.PAUSE_MINUTES * 60 * 1000);
+  await db.yahooAdAccount.update({
+    where: { id: yahooAdAccount.id },
+    data:  { uploadPausedUntil: until, uploadPauseReason: reason.slice(0, MAX_REASON_LENGTH) },
+  });
+  console.error(`Uploads paused until ${until.toISOString()} after ${uploadFailureCount} consecutive failures: ${yahooAdAccount.type}`);
+  return true;
+}
@@ -0,0 +1,64 @@
+// SPDX-License-Identifier: MIT
+
+import db from "../db.server";
+import { CONNECTION_STATUS } from "../constants";
+
+/** 保存するエラーメッセージの最大文字数 */
+const MAX_ERROR_LENGTH = 1000;
+
+/**
+ * Yahoo広告APIの呼び出しで発生したエラーを、接続状態の確認用に保存する
+ *
+ * アップロードや処理結果の確認など、トークンの取得以外のAPI呼び出しのエラーを保存します。
+ * 保存に失敗しても呼び出し元の処理は継続できるように、エラーはログ出力のみ行います。
+ *
+ * @param shop - ショップのドメイン
+ * @param message - エラーの内容
+ *
+ * @example
+ * ```typescript
+ * await recordYahooApiError(shop, `OfflineConversionService/upload [${res.status}] ${body}`);
+ * ```
+ */
+export async function recordYahooApiError(shop: string, message: string): Promise<void> {
+  try {
+    await db.yahooAdApplication.updateMany({
+      where: { shop: shop },
+      data: {
+        lastApiError: message.slice(0, MAX_ERROR_LENGTH),
+        lastApiErrorAt: new Date(),
+      },
+    });
+  } catch (error) {
+    console.error("recordYahooApiError error:", error);
+  }
+}
+
+/**
+ * Yahoo広告との接続を解除する
+ *
+ * 認可コード・アクセストークン・リフレッシュトークンを削除し、未認可の状態に戻します。
+ * Client IDとClient Secretは削除しないため、再度認可するだけで接続できます。
+ *
+ * Yahoo!ビジネスIDのOAuthはトークンの失効エンドポイントを提供していないため、トークンはアプリから削除することで
+ * 使用できなくします（Yahoo!ビジネスID側のアプリの連携は、Yahoo!ビジネスIDの管理画面から解除してください）。
+ *
+ * @param shop - ショップのドメイン
+ */
+export async function disconnectYahoo(shop: string): Promise<void> {
+  await db.yahooAdApplication.update({
+    where: { shop: shop },
+    data: {
+      code: null,
+      accessToken: null,
+      refreshToken: null,
+      tokenCreatedAt: null,
+      accessTokenExpiresAt: null,
+      tokenRefreshLockedAt: null,
+      authorizedAt: null,
+      connectionStatus: CONNECTION_STATUS.NOT_CONNECTED,
+      lastTokenError: null,
+      lastTokenErrorAt: null,
+    },
+  });
+}
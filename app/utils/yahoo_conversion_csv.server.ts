@@ -0,0 +1,329 @@
+// SPDX-License-Identifier: MIT
+
+import db from "../db.server";
+import { stringify } from 'csv-stringify/sync';
+import iconv from 'iconv-lite';
+import { formatInTimeZone } from "date-fns-tz";
+import { CONVERSION_STATUS, CSV_FORMAT, UPLOAD, VALUE_BASIS } from "../constants";
+import type { Prisma, ConversionAdjustment, YahooAdAccount, YahooConversion } from "@prisma/client";
+import { getRateToCsvCurrency } from "./exchange_rate.server";
+import type { PendingRoute } from "./conversion_routing.server";
+
+/**
+ * アップロード用CSVの1行
+ * キーはYahoo広告のCSVフォーマットのヘッダー名
+ */
+export type ConversionCsvRow = Record<string, string | number | null>;
+
+/**
+ * CSVの1行に対応する送信対象
+ * コンバージョン、またはコンバージョンの価値の調整（マイナスの価値）のいずれか
+ * amountは円に換算した金額
+ */
+export type ConversionCsvItem =
+  | { kind: "conversion"; id: number; yclid: string; orderId: string; conversionTitle: string | null; conversionedAt: Date; amount: number | null }
+  | { kind: "adjustment"; id: number; yclid: string; orderId: string; conversionTitle: string | null; conversionedAt: Date; amount: number | null };
+
+/**
+ * 送信対象をプレビューする（データベースを更新せずに求める）場合のオプション
+ */
+export interface CsvPreviewOptions {
+  /** 保存していない振り分け先（planPendingRoutesの結果） */
+  routes: Map<number, PendingRoute>;
+}
+
+/**
+ * アカウントの価値の基準に応じて、コンバージョンの価値をショップ通貨で算出する
+ *
+ * 金額の内訳を保存していないコンバージョン（内訳の保存に対応する前に受信したもの）は、
+ * 基準にかかわらず合計金額を返します。
+ *
+ * @param record - コンバージョンレコード
+ * @param valueBasis - 価値の基準
+ * @returns コンバージョンの価値（ショップ通貨）
+ */
+export function conversionValue(record: YahooConversion, valueBasis: string): Prisma.Decimal | null {
+  switch (valueBasis) {
+    case VALUE_BASIS.SUBTOTAL:
+      return record.subtotalAmount ?? record.amount;
+    case VALUE_BASIS.SUBTOTAL_MINUS_DISCOUNTS:
+      return record.discountedSubtotalAmount ?? record.amount;
+    case VALUE_BASIS.EXCLUDING_TAX_SHIPPING:
+      return record.amount != null && record.taxAmount != null && record.shippingAmount != null ?
+        record.amount.minus(record.taxAmount).minus(record.shippingAmount) : record.amount;
+    default:
+      return record.amount;
+  }
+}
+
+/**
+ * ショップ通貨の金額を円に換算し、整数に丸める
+ * @param value - ショップ通貨の金額
+ * @param exchangeRate - ショップ通貨から円への為替レート
+ * @returns 円の金額
+ */
+function toCsvAmount(value: Prisma.Decimal | null, exchangeRate: Prisma.Decimal): number | null {
+  return value != null ? value.mul(exchangeRate).toDecimalPlaces(0).toNumber() : null;
+}
+
+/**
+ * コンバージョンレコードを送信対象に変換する
+ * @param record - コンバージョンレコード（為替レートが確定していること）
+ * @param valueBasis - 価値の基準
+ * @returns 送信対象
+ */
+export function fromConversion(record: YahooConversion & { exchangeRate: Prisma.Decimal }, valueBasis: string): ConversionCsvItem {
+  const amount = toCsvAmount(conversionValue(record, valueBasis), record.exchangeRate);
+  return { kind: "conversion", id: record.id, yclid: record.yclid, orderId: record.orderId, conversionTitle: record.conversionTitle, conversionedAt: record.conversionedAt, amount: amount };
+}
+
+/**
+ * 価値の調整レコードを送信対象に変換する
+ *
+ * 調整が発生した日時をコンバージョン発生日時として送信します。
+ * 調整額は注文の合計金額に対する減額なので、価値の基準に応じた金額との比率で按分し、
+ * 元のコンバージョンと同じ為替レートで円に換算します。
+ *
+ * @param record - 価値の調整レコード（為替レートが確定した元のコンバージョンを含む）
+ * @param valueBasis - 価値の基準
+ * @returns 送信対象
+ */
+export function fromAdjustment(
+  record: ConversionAdjustment & { conversion: YahooConversion & { exchangeRate: Prisma.Decimal } },
+  valueBasis: string
+): ConversionCsvItem {
+  const total = record.conversion.amount;
+  const value = conversionValue(record.conversion, valueBasis);
+  const adjustment = total && !total.isZero() && value != null ? record.amount.mul(value).div(total) : record.amount;
+  const amount = toCsvAmount(adjustment, record.conversion.exchangeRate);
+  return { kind: "adjustment", id: record.id, yclid: record.conversion.yclid, orderId: record.orderId, conversionTitle: record.conversion.conversionTitle, conversionedAt: record.adjustedAt, amount: amount };
+}
+
+/**
+ * 為替レートが未確定のコンバージョンについて、為替レート表から現在のレートを取得して保存する
+ *
+ * 受信時に為替レートが設定されていなかった通貨のコンバージョンは、レートが設定されるまで送信しません。
+ *
+ * @param records - コンバージョンレコード
+ * @param save - 取得した為替レートを保存する場合はtrue（プレビューではfalse）
+ * @returns 為替レートが確定したコンバージョンレコード
+ */
+async function resolveExchangeRates(records: YahooConversion[], save: boolean): Promise<(YahooConversion & { exchangeRate: Prisma.Decimal })[]> {
+  const resolved: (YahooConversion & { exchangeRate: Prisma.Decimal })[] = [];
+  const rates = new Map<string, Prisma.Decimal | null>();
+  for (const record of records) {
+    if (record.exchangeRate) {
+      resolved.push({ ...record, exchangeRate: record.exchangeRate });
+      continue;
+    }
+
+    // 通貨が不明なコンバージョンは円として扱う
+    const currency = record.currency ?? CSV_FORMAT.CURRENCY;
+    if (!rates.has(currency)) rates.set(currency, await getRateToCsvCurrency(record.shop, currency));
+    const exchangeRate = rates.get(currency);
+    if (!exchangeRate) {
+      console.error(`Exchange rate for ${currency} is not configured: ${record.yclid}`);
+      continue;
+    }
+
+    if (save) await db.yahooConversion.update({ where: { id: record.id }, data: { exchangeRate: exchangeRate } });
+    resolved.push({ ...record, exchangeRate: exchangeRate });
+  }
+  return resolved;
+}
+
+/**
+ * Yahoo広告アカウントにアップロードする未送信のコンバージョンレコードを取得する
+ *
+ * 以下の条件を満たすレコードを、コンバージョン発生日時の古い順に返します：
+ * - アカウントに振り分けられている（routePendingConversionsで振り分け済み）
+ * - クリック日時がアカウントの有効期間とYahoo広告の受付期間の両方に収まっている
+ * - 未送信（pending）である
+ * - コンバージョン発生からアカウントの保留期間（holdHours）が経過している
+ *
+ * プレビューの場合は、保存していない振り分け先がこのアカウントのコンバージョンも含めます。
+ *
+ * @param yahooAdAccount - アップロード先のYahoo広告アカウント
+ * @param now - 基準日時。デフォルトは現在日時
+ * @param preview - プレビューする場合のオプション
+ * @returns 未送信のコンバージョンレコード
+ */
+export async function findPendingConversions(yahooAdAccount: YahooAdAccount, now = new Date(), preview?: CsvPreviewOptions): Promise<YahooConversion[]> {
+  // 有効期限を計算（duration日分とYahoo広告の受付期間のうち短い方）
+  const durationDays = Math.min(yahooAdAccount.duration, UPLOAD.ACCEPTABLE_DAYS);
+  const expiredAt = new Date(now.getTime() - durationDays * 24 * 60 * 60 * 1000);
+  // 保留期間中のコンバージョンは対象外（キャンセルやテスト注文の判明を待つ）
+  const heldUntil = new Date(now.getTime() - yahooAdAccount.holdHours * 60 * 60 * 1000);
+
+  const routedIds = preview ?
+    [...preview.routes].filter(([, route]) => route.yahooAdAccountId === yahooAdAccount.id).map(([id]) => id) : [];
+
+  const records = await db.yahooConversion.findMany({
+    where: {
+      OR: [
+        { yahooAdAccountId: { equals: yahooAdAccount.id } },
+        ...(routedIds.length ? [{ id: { in: routedIds }, yahooAdAccountId: null }] : []),
+      ],
+      visitedAt: {
+        gte: expiredAt,
+        lt : now
+      },
+      status: {
+        equals: CONVERSION_STATUS.PENDING
+      },
+      conversionedAt: {
+        lt : heldUntil
+      }
+    },
+    orderBy: { conversionedAt: 'asc' }
+  });
+  return preview ?
+    records.map(record => record.yahooAdAccountId ? record : { ...record, conversionTitle: preview.routes.get(record.id)?.conversionTitle ?? null }) :
+    records;
+}
+
+/**
+ * Yahoo広告アカウントにアップロードする未送信の価値の調整を取得する
+ *
+ * 元のコンバージョンがこのアカウントに送信済みのものに限り、調整の発生日時の古い順に返します。
+ * 元のコンバージョンが未送信の場合は、そのコンバージョンの送信後に対象となります。
+ *
+ * @param yahooAdAccount - アップロード先のYahoo広告アカウント
+ * @returns 未送信の価値の調整
+ */
+export async function findPendingAdjustments(yahooAdAccount: YahooAdAccount): Promise<(ConversionAdjustment & { conversion: YahooConversion })[]> {
+  return db.conversionAdjustment.findMany({
+    where: {
+      status: {
+        equals: CONVERSION_STATUS.PENDING
+      },
+      conversion: {
+        yahooAdAccountId: yahooAdAccount.id,
+        status: { in: [CONVERSION_STATUS.UPLOADED, CONVERSION_STATUS.ACCEPTED] }
+      }
+    },
+    include: { conversion: true },
+    orderBy: { adjustedAt: 'asc' }
+  });
+}
+
+/**
+ * Yahoo広告アカウントにアップロードする送信対象（コンバージョンと価値の調整）を古い順に取得する
+ *
+ * 価値はアカウントの価値の基準（valueBasis）に応じて算出し、コンバージョンの為替レートで円に換算します。
+ * 為替レートが確定しないコンバージョン（とその調整）は含めません。
+ * プレビューの場合は、保存していない振り分けを反映し、取得した為替レートを保存しません。
+ *
+ * @param yahooAdAccount - アップロード先のYahoo広告アカウント
+ * @param preview - プレビューする場合のオプション
+ * @returns 送信対象
+ */
+export async function findPendingCsvItems(yahooAdAccount: YahooAdAccount, preview?: CsvPreviewOptions): Promise<ConversionCsvItem[]> {
+  const [conversions, adjustments] = await Promise.all([
+    findPendingConversions(yahooAdAccount, new Date(), preview),
+    findPendingAdjustments(yahooAdAccount),
+  ]);
+  const valueBasis = yahooAdAccount.valueBasis;
+  const resolved = await resolveExchangeRates(conversions, !preview);
+  return [
+    ...resolved.map(record => fromConversion(record, valueBasis)),
+    ...adjustments.flatMap(record => record.conversion.exchangeRate ?
+      [fromAdjustment({ ...record, conversion: { ...record.conversion, exchangeRate: record.conversion.exchangeRate } }, valueBasis)] : []),
+  ]
+    .sort((a, b) => a.conversionedAt.getTime() - b.conversionedAt.getTime());
+}
+
+/**
+ * 送信対象をYahoo広告のCSVフォーマットの行に変換する
+ *
+ * 検索広告の場合のみ通貨コードの列を付与します。
+ * コンバージョン名は振り分けで決まったものを使用し、未設定の場合はアカウントのコンバージョン名を使用します。
+ *
+ * @param yahooAdAccount - アップロード先のYahoo広告アカウント
+ * @param records - 送信対象
+ * @returns CSVの行
+ */
+export function toConversionCsvRows(yahooAdAccount: YahooAdAccount, records: ConversionCsvItem[]): ConversionCsvRow[] {
+  const conversionTitle = (record: ConversionCsvItem) => record.conversionTitle || yahooAdAccount.conversionTitle;
+
+  return yahooAdAccount.type === "search" ?
+  records.map(record => ({
+    "YCLID":                  record.yclid,
+    "コンバージョン名":          conversionTitle(record),
+    "コンバージョン発生日時":     formatInTimeZone(new Date(record.conversionedAt), 'Asia/Tokyo' , "yyyyMMdd HHmmss"),
+    "1コンバージョンあたりの価値": record.amount,
+    "通貨コード":               CSV_FORMAT.CURRENCY
+  }))
+  :
+  records.map(record => ({
+    "YCLID":                  record.yclid,
+    "コンバージョン名":          conversionTitle(record),
+    "コンバージョン発生日時":     formatInTimeZone(new Date(record.conversionedAt), 'Asia/Tokyo' , "yyyyMMdd HHmmss"),
+    "1コンバージョンあたりの価値": record.amount
+  }));
+}
+
+/**
+ * CSVの行をYahoo広告にアップロードするShift_JISのCSVファイルに変換する
+ *
+ * @param rows - CSVの行
+ * @returns Shift_JISでエンコードされたCSVファイルの内容
+ */
+export function encodeConversionCsv(rows: ConversionCsvRow[]): Uint8Array<ArrayBuffer> {
+  const csvUtf8 = stringify(rows, { header: true });
+  return new Uint8Array(iconv.encode(csvUtf8, 'Shift_JIS'));
+}
+
+/**
+ * 送信対象を、1ファイルあたりの行数とバイト数の上限に収まるように分割する
+ *
+ * 順序は保ったまま先頭から詰めていきます。1行だけで上限を超える場合は、その行を単独のファイルにします。
+ *
+ * @param yahooAdAccount - アップロード先のYahoo広告アカウント
+ * @param records - 送信対象
+ * @param limits - 1ファイルあたりの最大行数と最大バイト数。デフォルトはUPLOADの設定値
+ * @returns 分割された送信対象
+ */
+export function splitConversionsIntoChunks(
+  yahooAdAccount: YahooAdAccount,
+  records: ConversionCsvItem[],
+  limits = { maxRows: UPLOAD.MAX_ROWS_PER_FILE, maxBytes: UPLOAD.MAX_BYTES_PER_FILE }
+): ConversionCsvItem[][] {
+  const rows = toConversionCsvRows(yahooAdAccount, records);
+  if (!rows.length) return [];
+
+  const byteLength = (csvUtf8: string) => iconv.encode(csvUtf8, 'Shift_JIS').length;
+  const headerBytes = byteLength(stringify([], { header: true, columns: Object.keys(rows[0]) }));
+
+  const chunks: ConversionCsvItem[][] = [];
+  let chunk: ConversionCsvItem[] = [];
+  let chunkBytes = headerBytes;
+  rows.forEach((row, i) => {
+    const rowBytes = byteLength(stringify([row]));
+    if (chunk.length && (chunk.length >= limits.maxRows || chunkBytes + rowBytes > limits.maxBytes)) {
+      chunks.push(chunk);
+      chunk = [];
+      chunkBytes = headerBytes;
+    }
+    chunk.push(records[i]);
+    chunkBytes += rowBytes;
+  });
+  chunks.push(chunk);
+
+  return chunks;
+}
+
+/**
+ * アップロードするCSVファイル名を生成する
+ *
+ * @param type - 広告タイプ
+ * @param date - ファイル名に含める日時
+ * @param suffix - 日時の後ろに付与する文字列（分割番号など）
+ * @returns CSVファイル名
+ */
+export function createCsvFileName(type: string, date: Date, suffix = ""): string {
+  return "shopify_cv_" + type + "_" +
+    formatInTimeZone(date, 'Asia/Tokyo' , "yyyyMMdd_HHmmss") +
+    (suffix ? "_" + suffix : "") +
+    ".csv";
+}
@@ -0,0 +1,160 @@
+// SPDX-License-Identifier: MIT
+
+import { setTimeout as sleep } from "node:timers/promises";
+import { API_RETRY, YAHOO_API_ERROR_KIND, type YahooApiErrorKind } from "../constants";
+import { isShuttingDown, shutdownDeadlineSignal, shutdownSignal } from "./shutdown.server";
+
+/** 再認可しない限り解消しないエラー（OAuth 2.0のエラーコード） */
+const AUTH_ERROR_CODES = ["invalid_grant", "invalid_client", "unauthorized_client"];
+
+/**
+ * Yahoo広告API（トークンエンドポイントを含む）の呼び出しのエラー
+ *
+ * メッセージは `{APIのパス} [{HTTPステータスコード}] {レスポンスボディ}` の形式です。
+ */
+export class YahooApiError extends Error {
+  constructor(
+    /** 失敗した理由の分類 */
+    readonly kind: YahooApiErrorKind,
+    /** HTTPステータスコード（レスポンスを受け取れなかった場合は0） */
+    readonly status: number,
+    /** レスポンスボディ（レスポンスを受け取れなかった場合はエラーの内容） */
+    readonly body: string,
+    /** 呼び出したAPIのパス */
+    readonly path: string,
+    /** Retry-Afterで指定された待ち時間（ミリ秒） */
+    readonly retryAfterMs?: number,
+  ) {
+    super(`${path} [${status}] ${body}`);
+    this.name = "YahooApiError";
+  }
+}
+
+/**
+ * Yahoo広告APIの呼び出しのオプション
+ */
+export interface YahooRequestOptions {
+  /** 呼び出すAPIのパス（ログとエラーメッセージに使用） */
+  path: string;
+  /**
+   * 同じリクエストを再送しても問題がないかどうか
+   * falseの場合は、リクエストが処理されていないことが確実なエラー（429・503）のみ再試行する
+   */
+  idempotent: boolean;
+}
+
+/**
+ * HTTPステータスコードとレスポンスボディから、失敗した理由を分類する
+ *
+ * @param status - HTTPステータスコード（レスポンスを受け取れなかった場合は0）
+ * @param body - レスポンスボディ
+ */
+export function classifyYahooApiError(status: number, body: string): YahooApiErrorKind {
+  if (status === 401 || status === 403) return YAHOO_API_ERROR_KIND.AUTH;
+  if (status === 429) return YAHOO_API_ERROR_KIND.RATE_LIMIT;
+  if (status === 0 || status === 408 || status >= 500) return YAHOO_API_ERROR_KIND.TRANSIENT;
+  if (AUTH_ERROR_CODES.some(code => body.includes(`"${code}"`))) return YAHOO_API_ERROR_KIND.AUTH;
+  return YAHOO_API_ERROR_KIND.PERMANENT;
+}
+
+/**
+ * 失敗したリクエストが、Yahoo広告側で処理されていないことが確実かどうかを判定する
+ *
+ * 認証エラー・リクエストの内容の誤り（4xx）・リクエスト数の上限（429）・503は処理されていません。
+ * タイムアウト・ネットワークエラー・その他の5xxは、処理されたかどうか分かりません。
+ *
+ * @param error - 呼び出しのエラー
+ */
+export function isUnprocessedYahooApiError(error: YahooApiError): boolean {
+  return error.kind === YAHOO_API_ERROR_KIND.AUTH ||
+    error.kind === YAHOO_API_ERROR_KIND.PERMANENT ||
+    error.kind === YAHOO_API_ERROR_KIND.RATE_LIMIT ||
+    error.status === 503;
+}
+
+/**
+ * Retry-Afterヘッダー（秒数またはHTTP日付）を待ち時間（ミリ秒）に変換する
+ */
+function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) return undefined;
+  if (/^\d+$/.test(value.trim())) return Number(value) * 1000;
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * 指数バックオフの待ち時間を求める（フルジッター）
+ *
+ * @param attempt - 失敗した試行の回数（1始まり）
+ */
+function backoffDelay(attempt: number): number {
+  return Math.round(Math.random() * Math.min(API_RETRY.MAX_DELAY_MS, API_RETRY.BASE_DELAY_MS * 2 ** (attempt - 1)));
+}
+
+/**
+ * 再試行までの待ち時間を求める
+ *
+ * @returns 待ち時間（ミリ秒）。再試行しない場合はnull
+ */
+function retryDelay(error: YahooApiError, attempt: number, idempotent: boolean): number | null {
+  if (attempt >= API_RETRY.MAX_ATTEMPTS) return null;
+
+  if (error.kind === YAHOO_API_ERROR_KIND.RATE_LIMIT) {
+    if (error.retryAfterMs === undefined) return backoffDelay(attempt);
+    // 長く待つ必要がある場合は、次回の実行に持ち越す
+    return error.retryAfterMs <= API_RETRY.MAX_RETRY_AFTER_SECONDS * 1000 ? error.retryAfterMs : null;
+  }
+  if (error.kind !== YAHOO_API_ERROR_KIND.TRANSIENT) return null;
+  // 処理されたかどうか分からないリクエストは、重複しないように再送しない
+  if (!idempotent && !isUnprocessedYahooApiError(error)) return null;
+  return backoffDelay(attempt);
+}
+
+/**
+ * Yahoo広告APIを呼び出す
+ *
+ * 失敗した場合は理由を分類し、リクエスト数の上限と一時的なエラーは、
+ * Retry-Afterの秒数または指数バックオフ（ジッター付き）の待ち時間の後に再試行します。
+ * 最大試行回数に達した場合や、再試行しないエラーの場合は、YahooApiErrorを投げます。
+ * シャットダウン中は再試行せず（待機中の場合は待機をやめて）YahooApiErrorを投げ、
+ * 実行中のリクエストはシャットダウンの期限（shutdownDeadlineSignal）で打ち切ります。
+ *
+ * @param url - リクエストURL
+ * @param init - リクエストの内容
+ * @param options - 呼び出しのオプション
+ * @returns 成功（2xx）したレスポンス
+ * @throws {YahooApiError} 呼び出しに失敗した場合
+ *
+ * @example
+ * ```typescript
+ * const res = await requestYahoo(url, { method: "POST", headers, body }, { path: API.CSV_GET_PATH, idempotent: true });
+ * const body = await res.json();
+ * ```
+ */
+export async function requestYahoo(url: string, init: RequestInit, options: YahooRequestOptions): Promise<Response> {
+  for (let attempt = 1; ; attempt++) {
+    let error: YahooApiError;
+    try {
+      const signal = AbortSignal.any([AbortSignal.timeout(API_RETRY.TIMEOUT_MS), shutdownDeadlineSignal()]);
+      const res = await fetch(url, { ...init, signal });
+      if (res.ok) return res;
+
+      const body = await res.text();
+      error = new YahooApiError(
+        classifyYahooApiError(res.status, body),
+        res.status,
+        body,
+        options.path,
+        parseRetryAfter(res.headers.get("Retry-After")),
+      );
+    } catch (e) {
+      error = new YahooApiError(YAHOO_API_ERROR_KIND.TRANSIENT, 0, String(e), options.path);
+    }
+
+    const delay = retryDelay(error, attempt, options.idempotent);
+    // シャットダウン中は、再試行を次回の実行に持ち越す
+    if (delay === null || isShuttingDown()) throw error;
+    console.warn(`Yahoo API ${error.kind} error, retrying in ${delay}ms (${attempt}/${API_RETRY.MAX_ATTEMPTS}): ${error.message}`);
+    await sleep(delay, undefined, { signal: shutdownSignal() }).catch(() => { throw error; });
+  }
+}
@@ -21,28 +21,27 @@ register(({ analytics, browser, settings }) => {
     const DIFFICULTY = 10;
 
     /**
-     * ブラウザのクッキーから最新のYahoo広告クリックID（yclid）を取得する
+     * ブラウザのクッキーからYahoo広告クリックID（yclid）をすべて取得する
      * 
      * この関数は以下の処理を行います：
      * - ブラウザのクッキーを取得
      * - Yahoo広告関連のクッキー（_ycl_*_aw、_ycl_yjad）を解析
-     * - 複数のyclidが見つかった場合、タイムスタンプが最新のものを返す
+     * - 見つかったyclidを、タイムスタンプが新しい順に返す
+     *   （どのクリックをコンバージョンとするかは、サーバー側のアトリビューションモデルで決定する）
      * 
      * 対応するクッキー形式：
      * - _ycl_{数字}_aw: GCL.{timestamp}.{value} 形式
      * - _ycl_yjad: YJAD.{timestamp}.{value} 形式
      * 
-     * @returns Promise<{ yclid: string, ts: string } | null> - 最新のyclidとタイムスタンプ文字列、見つからない場合はnull
+     * @returns Promise<{ yclid: string, ts: string }[]> - yclidとタイムスタンプ文字列の一覧、見つからない場合は空配列
      * 
      * @example
      * ```typescript
-     * const latestYclid = await getLatestYclid();
-     * if (latestYclid) {
-     *   console.log(`YCLID: ${latestYclid.yclid}, Timestamp: ${latestYclid.ts}`);
-     * }
+     * const yclids = await getAllYclids();
+     * yclids.forEach(({ yclid, ts }) => console.log(`YCLID: ${yclid}, Timestamp: ${ts}`));
      * ```
      */
-    async function getLatestYclid(): Promise<{ yclid: string, ts: string } | null> {
+    async function getAllYclids(): Promise<{ yclid: string, ts: string }[]> {
       const pool: { yclid: string, ts: number }[] = [];
       const cookies = await browser.cookie.get();
       cookies.split(';').forEach(async (pair) => {
@@ -61,13 +60,11 @@ register(({ analytics, browser, settings }) => {
           pool.push({ yclid: value, ts: Number(seg[1]) });
         }
       });
-      if (!pool.length) return null;
       pool.sort((a, b) => b.ts - a.ts);
-      const latestYclid = {
-        yclid: pool[0].yclid,
-        ts: new Date(pool[0].ts * 1000).toString()
-      }
-      return latestYclid;
+      return pool.map(({ yclid, ts }) => ({
+        yclid: yclid,
+        ts: new Date(ts * 1000).toString()
+      }));
     }
 
     /**
@@ -112,8 +109,8 @@ register(({ analytics, browser, settings }) => {
       }
     }
 
-    const savedYclid = await getLatestYclid();
-    if (!savedYclid) return;
+    const savedYclids = await getAllYclids();
+    if (!savedYclids.length) return;
 
     const apiHost = settings.api_host;
     const apiPath = "/api/setConversion"
@@ -143,10 +140,8 @@ register(({ analytics, browser, settings }) => {
       
       /** APIに送信するコンバージョンデータ */
       const payload = {
-        yclid: savedYclid?.yclid,
-        visitedAt: savedYclid?.ts || null,
+        clicks: savedYclids.map(({ yclid, ts }) => ({ yclid: yclid, visitedAt: ts })),
         conversionedAt: new Date(event.timestamp).toString(),
-        amount: event.data.checkout.totalPrice?.amount,
         orderId: event.data.checkout.order!.id,
         nonce: crypto.randomUUID()
       }
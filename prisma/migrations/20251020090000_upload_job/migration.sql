@@ -0,0 +1,34 @@
+-- CreateTable
+CREATE TABLE "UploadJob" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "yahooAdAccountId" INTEGER,
+    "type" TEXT NOT NULL,
+    "childAccountId" TEXT NOT NULL,
+    "fileName" TEXT NOT NULL,
+    "rowCount" INTEGER NOT NULL,
+    "content" BLOB NOT NULL,
+    "httpStatus" INTEGER,
+    "errors" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "finishedAt" DATETIME,
+    CONSTRAINT "UploadJob_yahooAdAccountId_fkey" FOREIGN KEY ("yahooAdAccountId") REFERENCES "YahooAdAccount" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_YahooConversion" (
+    "yclid" TEXT NOT NULL PRIMARY KEY,
+    "amount" INTEGER,
+    "visitedAt" DATETIME,
+    "conversionedAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "isProcessed" BOOLEAN NOT NULL DEFAULT false,
+    "orderId" TEXT NOT NULL,
+    "uploadJobId" INTEGER,
+    CONSTRAINT "YahooConversion_uploadJobId_fkey" FOREIGN KEY ("uploadJobId") REFERENCES "UploadJob" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+INSERT INTO "new_YahooConversion" ("amount", "conversionedAt", "isProcessed", "orderId", "visitedAt", "yclid") SELECT "amount", "conversionedAt", "isProcessed", "orderId", "visitedAt", "yclid" FROM "YahooConversion";
+DROP TABLE "YahooConversion";
+ALTER TABLE "new_YahooConversion" RENAME TO "YahooConversion";
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
@@ -0,0 +1,24 @@
+-- AlterTable
+ALTER TABLE "UploadJob" ADD COLUMN "checkedAt" DATETIME;
+ALTER TABLE "UploadJob" ADD COLUMN "processStatus" TEXT;
+ALTER TABLE "UploadJob" ADD COLUMN "uploadId" TEXT;
+
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_YahooConversion" (
+    "yclid" TEXT NOT NULL PRIMARY KEY,
+    "amount" INTEGER,
+    "visitedAt" DATETIME,
+    "conversionedAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "status" TEXT NOT NULL DEFAULT 'pending',
+    "statusReason" TEXT,
+    "orderId" TEXT NOT NULL,
+    "uploadJobId" INTEGER,
+    CONSTRAINT "YahooConversion_uploadJobId_fkey" FOREIGN KEY ("uploadJobId") REFERENCES "UploadJob" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+INSERT INTO "new_YahooConversion" ("amount", "conversionedAt", "orderId", "status", "uploadJobId", "visitedAt", "yclid") SELECT "amount", "conversionedAt", "orderId", CASE WHEN "isProcessed" THEN 'uploaded' ELSE 'pending' END, "uploadJobId", "visitedAt", "yclid" FROM "YahooConversion";
+DROP TABLE "YahooConversion";
+ALTER TABLE "new_YahooConversion" RENAME TO "YahooConversion";
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
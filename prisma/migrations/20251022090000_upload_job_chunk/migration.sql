@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "UploadJob" ADD COLUMN "chunkCount" INTEGER NOT NULL DEFAULT 1;
+ALTER TABLE "UploadJob" ADD COLUMN "chunkIndex" INTEGER NOT NULL DEFAULT 1;
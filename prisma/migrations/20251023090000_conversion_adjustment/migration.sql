@@ -0,0 +1,19 @@
+-- CreateTable
+CREATE TABLE "ConversionAdjustment" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "yclid" TEXT NOT NULL,
+    "orderId" TEXT NOT NULL,
+    "kind" TEXT NOT NULL,
+    "sourceId" TEXT NOT NULL,
+    "amount" INTEGER NOT NULL,
+    "adjustedAt" DATETIME NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'pending',
+    "statusReason" TEXT,
+    "uploadJobId" INTEGER,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "ConversionAdjustment_yclid_fkey" FOREIGN KEY ("yclid") REFERENCES "YahooConversion" ("yclid") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "ConversionAdjustment_uploadJobId_fkey" FOREIGN KEY ("uploadJobId") REFERENCES "UploadJob" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ConversionAdjustment_yclid_kind_sourceId_key" ON "ConversionAdjustment"("yclid", "kind", "sourceId");
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "YahooAdAccount" ADD COLUMN "holdHours" INTEGER NOT NULL DEFAULT 0;
@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "YahooAdAccount" ADD COLUMN "valueBasis" TEXT NOT NULL DEFAULT 'total';
+
+-- AlterTable
+ALTER TABLE "YahooConversion" ADD COLUMN "discountedSubtotalAmount" INTEGER;
+ALTER TABLE "YahooConversion" ADD COLUMN "shippingAmount" INTEGER;
+ALTER TABLE "YahooConversion" ADD COLUMN "subtotalAmount" INTEGER;
+ALTER TABLE "YahooConversion" ADD COLUMN "taxAmount" INTEGER;
@@ -0,0 +1,54 @@
+-- CreateTable
+CREATE TABLE "ExchangeRate" (
+    "currency" TEXT NOT NULL PRIMARY KEY,
+    "rate" DECIMAL NOT NULL,
+    "updatedAt" DATETIME NOT NULL
+);
+
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_YahooConversion" (
+    "yclid" TEXT NOT NULL PRIMARY KEY,
+    "amount" DECIMAL,
+    "subtotalAmount" DECIMAL,
+    "discountedSubtotalAmount" DECIMAL,
+    "taxAmount" DECIMAL,
+    "shippingAmount" DECIMAL,
+    "currency" TEXT,
+    "presentmentCurrency" TEXT,
+    "presentmentAmount" DECIMAL,
+    "exchangeRate" DECIMAL,
+    "visitedAt" DATETIME,
+    "conversionedAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "status" TEXT NOT NULL DEFAULT 'pending',
+    "statusReason" TEXT,
+    "orderId" TEXT NOT NULL,
+    "uploadJobId" INTEGER,
+    CONSTRAINT "YahooConversion_uploadJobId_fkey" FOREIGN KEY ("uploadJobId") REFERENCES "UploadJob" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+-- 既存のコンバージョンは円として送信していたため、通貨をJPY、為替レートを1とする
+INSERT INTO "new_YahooConversion" ("amount", "conversionedAt", "currency", "discountedSubtotalAmount", "exchangeRate", "orderId", "shippingAmount", "status", "statusReason", "subtotalAmount", "taxAmount", "uploadJobId", "visitedAt", "yclid") SELECT "amount", "conversionedAt", 'JPY', "discountedSubtotalAmount", 1, "orderId", "shippingAmount", "status", "statusReason", "subtotalAmount", "taxAmount", "uploadJobId", "visitedAt", "yclid" FROM "YahooConversion";
+DROP TABLE "YahooConversion";
+ALTER TABLE "new_YahooConversion" RENAME TO "YahooConversion";
+CREATE TABLE "new_ConversionAdjustment" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "yclid" TEXT NOT NULL,
+    "orderId" TEXT NOT NULL,
+    "kind" TEXT NOT NULL,
+    "sourceId" TEXT NOT NULL,
+    "amount" DECIMAL NOT NULL,
+    "adjustedAt" DATETIME NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'pending',
+    "statusReason" TEXT,
+    "uploadJobId" INTEGER,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "ConversionAdjustment_yclid_fkey" FOREIGN KEY ("yclid") REFERENCES "YahooConversion" ("yclid") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "ConversionAdjustment_uploadJobId_fkey" FOREIGN KEY ("uploadJobId") REFERENCES "UploadJob" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+INSERT INTO "new_ConversionAdjustment" ("adjustedAt", "amount", "createdAt", "id", "kind", "orderId", "sourceId", "status", "statusReason", "uploadJobId", "yclid") SELECT "adjustedAt", "amount", "createdAt", "id", "kind", "orderId", "sourceId", "status", "statusReason", "uploadJobId", "yclid" FROM "ConversionAdjustment";
+DROP TABLE "ConversionAdjustment";
+ALTER TABLE "new_ConversionAdjustment" RENAME TO "ConversionAdjustment";
+CREATE UNIQUE INDEX "ConversionAdjustment_yclid_kind_sourceId_key" ON "ConversionAdjustment"("yclid", "kind", "sourceId");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
@@ -0,0 +1,68 @@
+-- CreateTable
+CREATE TABLE "ConversionRoutingRule" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "priority" INTEGER NOT NULL,
+    "type" TEXT NOT NULL,
+    "customerType" TEXT NOT NULL DEFAULT 'any',
+    "yahooAdAccountId" INTEGER NOT NULL,
+    "conversionTitle" TEXT,
+    CONSTRAINT "ConversionRoutingRule_yahooAdAccountId_fkey" FOREIGN KEY ("yahooAdAccountId") REFERENCES "YahooAdAccount" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_YahooAdAccount" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "type" TEXT NOT NULL,
+    "accountId" TEXT NOT NULL,
+    "childAccountId" TEXT NOT NULL,
+    "duration" INTEGER NOT NULL,
+    "conversionTitle" TEXT NOT NULL,
+    "holdHours" INTEGER NOT NULL DEFAULT 0,
+    "valueBasis" TEXT NOT NULL DEFAULT 'total'
+);
+INSERT INTO "new_YahooAdAccount" ("accountId", "childAccountId", "conversionTitle", "duration", "holdHours", "id", "type", "valueBasis") SELECT "accountId", "childAccountId", "conversionTitle", "duration", "holdHours", "id", "type", "valueBasis" FROM "YahooAdAccount";
+DROP TABLE "YahooAdAccount";
+ALTER TABLE "new_YahooAdAccount" RENAME TO "YahooAdAccount";
+CREATE TABLE "new_YahooConversion" (
+    "yclid" TEXT NOT NULL PRIMARY KEY,
+    "amount" DECIMAL,
+    "subtotalAmount" DECIMAL,
+    "discountedSubtotalAmount" DECIMAL,
+    "taxAmount" DECIMAL,
+    "shippingAmount" DECIMAL,
+    "currency" TEXT,
+    "presentmentCurrency" TEXT,
+    "presentmentAmount" DECIMAL,
+    "exchangeRate" DECIMAL,
+    "visitedAt" DATETIME,
+    "conversionedAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "status" TEXT NOT NULL DEFAULT 'pending',
+    "statusReason" TEXT,
+    "orderId" TEXT NOT NULL,
+    "isFirstOrder" BOOLEAN,
+    "yahooAdAccountId" INTEGER,
+    "conversionTitle" TEXT,
+    "uploadJobId" INTEGER,
+    CONSTRAINT "YahooConversion_yahooAdAccountId_fkey" FOREIGN KEY ("yahooAdAccountId") REFERENCES "YahooAdAccount" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "YahooConversion_uploadJobId_fkey" FOREIGN KEY ("uploadJobId") REFERENCES "UploadJob" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+INSERT INTO "new_YahooConversion" ("amount", "conversionedAt", "currency", "discountedSubtotalAmount", "exchangeRate", "orderId", "presentmentAmount", "presentmentCurrency", "shippingAmount", "status", "statusReason", "subtotalAmount", "taxAmount", "uploadJobId", "visitedAt", "yclid") SELECT "amount", "conversionedAt", "currency", "discountedSubtotalAmount", "exchangeRate", "orderId", "presentmentAmount", "presentmentCurrency", "shippingAmount", "status", "statusReason", "subtotalAmount", "taxAmount", "uploadJobId", "visitedAt", "yclid" FROM "YahooConversion";
+DROP TABLE "YahooConversion";
+ALTER TABLE "new_YahooConversion" RENAME TO "YahooConversion";
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
+
+-- 送信済みのコンバージョンは、送信先のアップロードジョブのアカウントに振り分け済みとする
+-- （価値の調整を同じアカウントに送信するため）
+UPDATE "YahooConversion" SET
+    "yahooAdAccountId" = (SELECT "yahooAdAccountId" FROM "UploadJob" WHERE "UploadJob"."id" = "YahooConversion"."uploadJobId"),
+    "conversionTitle"  = (SELECT "YahooAdAccount"."conversionTitle" FROM "UploadJob" JOIN "YahooAdAccount" ON "YahooAdAccount"."id" = "UploadJob"."yahooAdAccountId" WHERE "UploadJob"."id" = "YahooConversion"."uploadJobId")
+WHERE "status" <> 'pending' AND "uploadJobId" IS NOT NULL;
+
+-- アップロードジョブの記録がないものは、広告タイプの最初のアカウントに振り分け済みとする
+UPDATE "YahooConversion" SET
+    "yahooAdAccountId" = (SELECT "id" FROM "YahooAdAccount" WHERE "type" = CASE WHEN "YahooConversion"."yclid" LIKE 'YSS.%' THEN 'search' ELSE 'display' END ORDER BY "id" LIMIT 1),
+    "conversionTitle"  = (SELECT "conversionTitle" FROM "YahooAdAccount" WHERE "type" = CASE WHEN "YahooConversion"."yclid" LIKE 'YSS.%' THEN 'search' ELSE 'display' END ORDER BY "id" LIMIT 1)
+WHERE "status" <> 'pending' AND "yahooAdAccountId" IS NULL;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "YahooAdAccount" ADD COLUMN "yclCookieId" TEXT;
@@ -0,0 +1,59 @@
+-- CreateTable
+CREATE TABLE "StoreSetting" (
+    "shop" TEXT NOT NULL PRIMARY KEY,
+    "attributionModel" TEXT NOT NULL DEFAULT 'last_click'
+);
+
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_YahooConversion" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "yclid" TEXT NOT NULL,
+    "amount" DECIMAL,
+    "subtotalAmount" DECIMAL,
+    "discountedSubtotalAmount" DECIMAL,
+    "taxAmount" DECIMAL,
+    "shippingAmount" DECIMAL,
+    "currency" TEXT,
+    "presentmentCurrency" TEXT,
+    "presentmentAmount" DECIMAL,
+    "exchangeRate" DECIMAL,
+    "visitedAt" DATETIME,
+    "conversionedAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "status" TEXT NOT NULL DEFAULT 'pending',
+    "statusReason" TEXT,
+    "orderId" TEXT NOT NULL,
+    "isFirstOrder" BOOLEAN,
+    "yahooAdAccountId" INTEGER,
+    "conversionTitle" TEXT,
+    "uploadJobId" INTEGER,
+    CONSTRAINT "YahooConversion_yahooAdAccountId_fkey" FOREIGN KEY ("yahooAdAccountId") REFERENCES "YahooAdAccount" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "YahooConversion_uploadJobId_fkey" FOREIGN KEY ("uploadJobId") REFERENCES "UploadJob" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+INSERT INTO "new_YahooConversion" ("amount", "conversionTitle", "conversionedAt", "currency", "discountedSubtotalAmount", "exchangeRate", "isFirstOrder", "orderId", "presentmentAmount", "presentmentCurrency", "shippingAmount", "status", "statusReason", "subtotalAmount", "taxAmount", "uploadJobId", "visitedAt", "yahooAdAccountId", "yclid") SELECT "amount", "conversionTitle", "conversionedAt", "currency", "discountedSubtotalAmount", "exchangeRate", "isFirstOrder", "orderId", "presentmentAmount", "presentmentCurrency", "shippingAmount", "status", "statusReason", "subtotalAmount", "taxAmount", "uploadJobId", "visitedAt", "yahooAdAccountId", "yclid" FROM "YahooConversion" ORDER BY "conversionedAt";
+CREATE TABLE "new_ConversionAdjustment" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "conversionId" INTEGER NOT NULL,
+    "orderId" TEXT NOT NULL,
+    "kind" TEXT NOT NULL,
+    "sourceId" TEXT NOT NULL,
+    "amount" DECIMAL NOT NULL,
+    "adjustedAt" DATETIME NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'pending',
+    "statusReason" TEXT,
+    "uploadJobId" INTEGER,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "ConversionAdjustment_conversionId_fkey" FOREIGN KEY ("conversionId") REFERENCES "YahooConversion" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "ConversionAdjustment_uploadJobId_fkey" FOREIGN KEY ("uploadJobId") REFERENCES "UploadJob" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+-- 価値の調整は、YCLIDで紐付いていたコンバージョンのIDで紐付け直す
+INSERT INTO "new_ConversionAdjustment" ("adjustedAt", "amount", "conversionId", "createdAt", "id", "kind", "orderId", "sourceId", "status", "statusReason", "uploadJobId") SELECT a."adjustedAt", a."amount", c."id", a."createdAt", a."id", a."kind", a."orderId", a."sourceId", a."status", a."statusReason", a."uploadJobId" FROM "ConversionAdjustment" a JOIN "new_YahooConversion" c ON c."yclid" = a."yclid";
+DROP TABLE "ConversionAdjustment";
+ALTER TABLE "new_ConversionAdjustment" RENAME TO "ConversionAdjustment";
+CREATE UNIQUE INDEX "ConversionAdjustment_conversionId_kind_sourceId_key" ON "ConversionAdjustment"("conversionId", "kind", "sourceId");
+DROP TABLE "YahooConversion";
+ALTER TABLE "new_YahooConversion" RENAME TO "YahooConversion";
+CREATE UNIQUE INDEX "YahooConversion_orderId_yclid_key" ON "YahooConversion"("orderId", "yclid");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
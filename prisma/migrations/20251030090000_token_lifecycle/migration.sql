@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "YahooAdApplication" ADD COLUMN "accessTokenExpiresAt" DATETIME;
+ALTER TABLE "YahooAdApplication" ADD COLUMN "connectionStatus" TEXT NOT NULL DEFAULT 'not_connected';
+ALTER TABLE "YahooAdApplication" ADD COLUMN "lastTokenError" TEXT;
+ALTER TABLE "YahooAdApplication" ADD COLUMN "lastTokenErrorAt" DATETIME;
+ALTER TABLE "YahooAdApplication" ADD COLUMN "tokenRefreshLockedAt" DATETIME;
+
+-- 認可済みのアプリケーションは接続中とする（有効期限は不明のため、次回の実行で更新される）
+UPDATE "YahooAdApplication" SET "connectionStatus" = 'connected' WHERE "refreshToken" IS NOT NULL;
@@ -0,0 +1,34 @@
+-- CreateTable
+CREATE TABLE "YahooAuthorization" (
+    "state" TEXT NOT NULL PRIMARY KEY,
+    "shop" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "clientId" TEXT NOT NULL,
+    "codeVerifier" TEXT,
+    "expiresAt" DATETIME NOT NULL,
+    "usedAt" DATETIME,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_YahooAdApplication" (
+    "clientId" TEXT NOT NULL PRIMARY KEY,
+    "clientSecret" TEXT NOT NULL,
+    "redirectUri" TEXT NOT NULL,
+    "code" TEXT,
+    "accessToken" TEXT,
+    "refreshToken" TEXT,
+    "tokenCreatedAt" DATETIME,
+    "accessTokenExpiresAt" DATETIME,
+    "tokenRefreshLockedAt" DATETIME,
+    "connectionStatus" TEXT NOT NULL DEFAULT 'not_connected',
+    "lastTokenError" TEXT,
+    "lastTokenErrorAt" DATETIME
+);
+INSERT INTO "new_YahooAdApplication" ("accessToken", "accessTokenExpiresAt", "clientId", "clientSecret", "code", "connectionStatus", "lastTokenError", "lastTokenErrorAt", "redirectUri", "refreshToken", "tokenCreatedAt", "tokenRefreshLockedAt") SELECT "accessToken", "accessTokenExpiresAt", "clientId", "clientSecret", "code", "connectionStatus", "lastTokenError", "lastTokenErrorAt", "redirectUri", "refreshToken", "tokenCreatedAt", "tokenRefreshLockedAt" FROM "YahooAdApplication";
+DROP TABLE "YahooAdApplication";
+ALTER TABLE "new_YahooAdApplication" RENAME TO "YahooAdApplication";
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
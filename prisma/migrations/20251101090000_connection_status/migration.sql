@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "YahooAdApplication" ADD COLUMN "authorizedAt" DATETIME;
+ALTER TABLE "YahooAdApplication" ADD COLUMN "lastApiError" TEXT;
+ALTER TABLE "YahooAdApplication" ADD COLUMN "lastApiErrorAt" DATETIME;
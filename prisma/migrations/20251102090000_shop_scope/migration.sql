@@ -0,0 +1,134 @@
+-- 既存のデータは、インストール済みのショップ（1ショップのみの運用）のデータとして移行する
+
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_ApiKeyPair" (
+    "kid" TEXT NOT NULL PRIMARY KEY,
+    "shop" TEXT NOT NULL,
+    "publicKey" TEXT NOT NULL,
+    "privateKey" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL
+);
+INSERT INTO "new_ApiKeyPair" ("createdAt", "kid", "privateKey", "publicKey", "shop") SELECT "createdAt", "kid", "privateKey", "publicKey", COALESCE((SELECT "shop" FROM "Session" ORDER BY "isOnline" LIMIT 1), '') FROM "ApiKeyPair";
+DROP TABLE "ApiKeyPair";
+ALTER TABLE "new_ApiKeyPair" RENAME TO "ApiKeyPair";
+CREATE INDEX "ApiKeyPair_shop_idx" ON "ApiKeyPair"("shop");
+CREATE TABLE "new_YahooConversion" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "shop" TEXT NOT NULL,
+    "yclid" TEXT NOT NULL,
+    "amount" DECIMAL,
+    "subtotalAmount" DECIMAL,
+    "discountedSubtotalAmount" DECIMAL,
+    "taxAmount" DECIMAL,
+    "shippingAmount" DECIMAL,
+    "currency" TEXT,
+    "presentmentCurrency" TEXT,
+    "presentmentAmount" DECIMAL,
+    "exchangeRate" DECIMAL,
+    "visitedAt" DATETIME,
+    "conversionedAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "status" TEXT NOT NULL DEFAULT 'pending',
+    "statusReason" TEXT,
+    "orderId" TEXT NOT NULL,
+    "isFirstOrder" BOOLEAN,
+    "yahooAdAccountId" INTEGER,
+    "conversionTitle" TEXT,
+    "uploadJobId" INTEGER,
+    CONSTRAINT "YahooConversion_yahooAdAccountId_fkey" FOREIGN KEY ("yahooAdAccountId") REFERENCES "YahooAdAccount" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "YahooConversion_uploadJobId_fkey" FOREIGN KEY ("uploadJobId") REFERENCES "UploadJob" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+INSERT INTO "new_YahooConversion" ("amount", "conversionTitle", "conversionedAt", "currency", "discountedSubtotalAmount", "exchangeRate", "id", "isFirstOrder", "orderId", "presentmentAmount", "presentmentCurrency", "shippingAmount", "shop", "status", "statusReason", "subtotalAmount", "taxAmount", "uploadJobId", "visitedAt", "yahooAdAccountId", "yclid") SELECT "amount", "conversionTitle", "conversionedAt", "currency", "discountedSubtotalAmount", "exchangeRate", "id", "isFirstOrder", "orderId", "presentmentAmount", "presentmentCurrency", "shippingAmount", COALESCE((SELECT "shop" FROM "Session" ORDER BY "isOnline" LIMIT 1), ''), "status", "statusReason", "subtotalAmount", "taxAmount", "uploadJobId", "visitedAt", "yahooAdAccountId", "yclid" FROM "YahooConversion";
+DROP TABLE "YahooConversion";
+ALTER TABLE "new_YahooConversion" RENAME TO "YahooConversion";
+CREATE UNIQUE INDEX "YahooConversion_orderId_yclid_key" ON "YahooConversion"("orderId", "yclid");
+CREATE INDEX "YahooConversion_shop_status_idx" ON "YahooConversion"("shop", "status");
+CREATE TABLE "new_ExchangeRate" (
+    "shop" TEXT NOT NULL,
+    "currency" TEXT NOT NULL,
+    "rate" DECIMAL NOT NULL,
+    "updatedAt" DATETIME NOT NULL,
+
+    PRIMARY KEY ("shop", "currency")
+);
+INSERT INTO "new_ExchangeRate" ("currency", "rate", "shop", "updatedAt") SELECT "currency", "rate", COALESCE((SELECT "shop" FROM "Session" ORDER BY "isOnline" LIMIT 1), ''), "updatedAt" FROM "ExchangeRate";
+DROP TABLE "ExchangeRate";
+ALTER TABLE "new_ExchangeRate" RENAME TO "ExchangeRate";
+CREATE TABLE "new_YahooAdApplication" (
+    "shop" TEXT NOT NULL PRIMARY KEY,
+    "clientId" TEXT NOT NULL,
+    "clientSecret" TEXT NOT NULL,
+    "redirectUri" TEXT NOT NULL,
+    "code" TEXT,
+    "accessToken" TEXT,
+    "refreshToken" TEXT,
+    "tokenCreatedAt" DATETIME,
+    "accessTokenExpiresAt" DATETIME,
+    "tokenRefreshLockedAt" DATETIME,
+    "connectionStatus" TEXT NOT NULL DEFAULT 'not_connected',
+    "lastTokenError" TEXT,
+    "lastTokenErrorAt" DATETIME,
+    "authorizedAt" DATETIME,
+    "lastApiError" TEXT,
+    "lastApiErrorAt" DATETIME
+);
+INSERT INTO "new_YahooAdApplication" ("accessToken", "accessTokenExpiresAt", "authorizedAt", "clientId", "clientSecret", "code", "connectionStatus", "lastApiError", "lastApiErrorAt", "lastTokenError", "lastTokenErrorAt", "redirectUri", "refreshToken", "shop", "tokenCreatedAt", "tokenRefreshLockedAt") SELECT "accessToken", "accessTokenExpiresAt", "authorizedAt", "clientId", "clientSecret", "code", "connectionStatus", "lastApiError", "lastApiErrorAt", "lastTokenError", "lastTokenErrorAt", "redirectUri", "refreshToken", COALESCE((SELECT "shop" FROM "Session" ORDER BY "isOnline" LIMIT 1), ''), "tokenCreatedAt", "tokenRefreshLockedAt" FROM "YahooAdApplication";
+DROP TABLE "YahooAdApplication";
+ALTER TABLE "new_YahooAdApplication" RENAME TO "YahooAdApplication";
+CREATE TABLE "new_YahooAdAccount" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "shop" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "accountId" TEXT NOT NULL,
+    "childAccountId" TEXT NOT NULL,
+    "duration" INTEGER NOT NULL,
+    "conversionTitle" TEXT NOT NULL,
+    "holdHours" INTEGER NOT NULL DEFAULT 0,
+    "valueBasis" TEXT NOT NULL DEFAULT 'total',
+    "yclCookieId" TEXT
+);
+INSERT INTO "new_YahooAdAccount" ("accountId", "childAccountId", "conversionTitle", "duration", "holdHours", "id", "shop", "type", "valueBasis", "yclCookieId") SELECT "accountId", "childAccountId", "conversionTitle", "duration", "holdHours", "id", COALESCE((SELECT "shop" FROM "Session" ORDER BY "isOnline" LIMIT 1), ''), "type", "valueBasis", "yclCookieId" FROM "YahooAdAccount";
+DROP TABLE "YahooAdAccount";
+ALTER TABLE "new_YahooAdAccount" RENAME TO "YahooAdAccount";
+CREATE INDEX "YahooAdAccount_shop_idx" ON "YahooAdAccount"("shop");
+CREATE TABLE "new_ConversionRoutingRule" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "shop" TEXT NOT NULL,
+    "priority" INTEGER NOT NULL,
+    "type" TEXT NOT NULL,
+    "customerType" TEXT NOT NULL DEFAULT 'any',
+    "yahooAdAccountId" INTEGER NOT NULL,
+    "conversionTitle" TEXT,
+    CONSTRAINT "ConversionRoutingRule_yahooAdAccountId_fkey" FOREIGN KEY ("yahooAdAccountId") REFERENCES "YahooAdAccount" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+INSERT INTO "new_ConversionRoutingRule" ("conversionTitle", "customerType", "id", "priority", "shop", "type", "yahooAdAccountId") SELECT "conversionTitle", "customerType", "id", "priority", COALESCE((SELECT "shop" FROM "Session" ORDER BY "isOnline" LIMIT 1), ''), "type", "yahooAdAccountId" FROM "ConversionRoutingRule";
+DROP TABLE "ConversionRoutingRule";
+ALTER TABLE "new_ConversionRoutingRule" RENAME TO "ConversionRoutingRule";
+CREATE INDEX "ConversionRoutingRule_shop_idx" ON "ConversionRoutingRule"("shop");
+CREATE TABLE "new_UploadJob" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "shop" TEXT NOT NULL,
+    "yahooAdAccountId" INTEGER,
+    "type" TEXT NOT NULL,
+    "childAccountId" TEXT NOT NULL,
+    "fileName" TEXT NOT NULL,
+    "chunkIndex" INTEGER NOT NULL DEFAULT 1,
+    "chunkCount" INTEGER NOT NULL DEFAULT 1,
+    "rowCount" INTEGER NOT NULL,
+    "content" BLOB NOT NULL,
+    "httpStatus" INTEGER,
+    "errors" TEXT,
+    "uploadId" TEXT,
+    "processStatus" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "finishedAt" DATETIME,
+    "checkedAt" DATETIME,
+    CONSTRAINT "UploadJob_yahooAdAccountId_fkey" FOREIGN KEY ("yahooAdAccountId") REFERENCES "YahooAdAccount" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+INSERT INTO "new_UploadJob" ("checkedAt", "childAccountId", "chunkCount", "chunkIndex", "content", "createdAt", "errors", "fileName", "finishedAt", "httpStatus", "id", "processStatus", "rowCount", "shop", "type", "uploadId", "yahooAdAccountId") SELECT "checkedAt", "childAccountId", "chunkCount", "chunkIndex", "content", "createdAt", "errors", "fileName", "finishedAt", "httpStatus", "id", "processStatus", "rowCount", COALESCE((SELECT "shop" FROM "Session" ORDER BY "isOnline" LIMIT 1), ''), "type", "uploadId", "yahooAdAccountId" FROM "UploadJob";
+DROP TABLE "UploadJob";
+ALTER TABLE "new_UploadJob" RENAME TO "UploadJob";
+CREATE INDEX "UploadJob_shop_idx" ON "UploadJob"("shop");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
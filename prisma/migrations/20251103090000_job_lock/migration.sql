@@ -0,0 +1,8 @@
+-- CreateTable
+CREATE TABLE "JobLock" (
+    "name" TEXT NOT NULL PRIMARY KEY,
+    "owner" TEXT NOT NULL,
+    "lockedAt" DATETIME NOT NULL,
+    "heartbeatAt" DATETIME NOT NULL,
+    "expiresAt" DATETIME NOT NULL
+);
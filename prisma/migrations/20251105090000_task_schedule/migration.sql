@@ -0,0 +1,7 @@
+-- CreateTable
+CREATE TABLE "TaskSchedule" (
+    "name" TEXT NOT NULL PRIMARY KEY,
+    "cronExpression" TEXT NOT NULL,
+    "enabled" BOOLEAN NOT NULL DEFAULT true,
+    "updatedAt" DATETIME NOT NULL
+);
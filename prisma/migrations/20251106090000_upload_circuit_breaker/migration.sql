@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "YahooAdAccount" ADD COLUMN "uploadFailureCount" INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE "YahooAdAccount" ADD COLUMN "uploadPausedUntil" DATETIME;
+ALTER TABLE "YahooAdAccount" ADD COLUMN "uploadPauseReason" TEXT;
@@ -0,0 +1,65 @@
+// SPDX-License-Identifier: MIT
+
+/**
+ * データベースに保存されている秘密情報を暗号化し直す
+ *
+ * - `npm run secrets:encrypt`<br>
+ *   平文のまま保存されている値（暗号化の導入前に保存された値）を、現在のマスターキーで暗号化します。
+ * - `npm run secrets:rotate`<br>
+ *   現在のマスターキー以外で暗号化された値も含め、すべての値を現在のマスターキーで暗号化し直します。
+ *   新しいマスターキーをSECRETS_MASTER_KEYに、以前のマスターキーをSECRETS_PREVIOUS_MASTER_KEYSに設定して実行してください。
+ *
+ * 新しいマスターキーは `openssl rand -base64 32` などで生成できます。
+ */
+
+import { PrismaClient } from "@prisma/client";
+import { type EncryptedModel, reencryptSecretFields } from "../app/utils/secret_crypto.server";
+
+const command = process.argv[2];
+if (command !== "encrypt" && command !== "rotate") {
+  console.error("Usage: tsx scripts/secrets.ts <encrypt|rotate>");
+  process.exit(1);
+}
+
+// 起動時（docker-start）にも実行されるが、マスターキーの設定はアプリの起動時に確認するため、ここでは警告のみ出力する
+if (command === "encrypt" && !process.env.SECRETS_MASTER_KEY) {
+  console.warn("SECRETS_MASTER_KEY is not set, skipped encrypting secrets. Secrets cannot be saved until it is set.");
+  process.exit(0);
+}
+
+/**
+ * レコードのうち、暗号化し直す必要があるフィールドを現在のマスターキーで暗号化した値を返す
+ */
+const reencrypt = (model: EncryptedModel, record: Record<string, unknown>) =>
+  reencryptSecretFields(model, record, command);
+
+// 保存されている値をそのまま読み書きするため、暗号化の拡張を適用していないクライアントを使用する
+const prisma = new PrismaClient();
+
+try {
+  const [yahooAdApplications, apiKeyPairs, yahooAuthorizations] = await Promise.all([
+    prisma.yahooAdApplication.findMany(),
+    prisma.apiKeyPair.findMany(),
+    prisma.yahooAuthorization.findMany(),
+  ]);
+
+  const updates = [
+    ...yahooAdApplications.map(yaa => ({ key: yaa.shop, data: reencrypt("yahooAdApplication", yaa) }))
+      .filter(({ data }) => Object.keys(data).length)
+      .map(({ key, data }) => prisma.yahooAdApplication.update({ where: { shop: key }, data })),
+    ...apiKeyPairs.map(akp => ({ key: akp.kid, data: reencrypt("apiKeyPair", akp) }))
+      .filter(({ data }) => Object.keys(data).length)
+      .map(({ key, data }) => prisma.apiKeyPair.update({ where: { kid: key }, data })),
+    ...yahooAuthorizations.map(ya => ({ key: ya.state, data: reencrypt("yahooAuthorization", ya) }))
+      .filter(({ data }) => Object.keys(data).length)
+      .map(({ key, data }) => prisma.yahooAuthorization.update({ where: { state: key }, data })),
+  ];
+  await prisma.$transaction(updates);
+
+  console.log(`${command === "rotate" ? "Re-encrypted" : "Encrypted"} secrets in ${updates.length} records`);
+} catch (error) {
+  console.error("secrets error:", error);
+  process.exitCode = 1;
+} finally {
+  await prisma.$disconnect();
+}
@@ -0,0 +1,591 @@
+// SPDX-License-Identifier: MIT
+
+/**
+ * Yahoo!広告APIシミュレーターを使ったエンドツーエンドの動作確認
+ *
+ * シミュレーターをプロセス内で起動し、専用のSQLiteデータベース（prisma/e2e.sqlite）に対して
+ * OAuth認証（PKCEを含む認可リクエストの発行、receive.code、認可の完了）、CSVアップロード（createCsvAndImportToYahoo）、
+ * 処理結果の確認（checkUploadResults）を順に実行します。
+ *
+ * 使い方: `npm run e2e`
+ */
+
+import assert from "node:assert/strict";
+import { execSync } from "node:child_process";
+import { rmSync } from "node:fs";
+import { setTimeout as sleep } from "node:timers/promises";
+import { startYahooAdsSimulator } from "./yahooAdsSimulator";
+
+const sim = await startYahooAdsSimulator();
+
+// アプリケーションのモジュールを読み込む前に接続先を切り替える
+Object.assign(process.env, sim.env);
+process.env.DATABASE_URL = "file:./e2e.sqlite";
+process.env.SHOPIFY_APP_URL ??= "http://localhost:3000";
+process.env.YAHOO_UPLOAD_MAX_ROWS = "2";
+process.env.SHOPIFY_API_KEY ??= "e2e-api-key";
+process.env.SHOPIFY_API_SECRET ??= "e2e-api-secret";
+process.env.SECRETS_MASTER_KEY ??= Buffer.alloc(32, "e2e").toString("base64");
+process.env.YAHOO_OAUTH_PKCE = "true";
+// 再試行の待ち時間を短くする
+process.env.YAHOO_API_RETRY_BASE_MS = "10";
+// バッチはシナリオから直接呼び出すため、スケジューラーは起動しない
+globalThis.__CRON_STARTED__ = true;
+
+rmSync("prisma/e2e.sqlite", { force: true });
+execSync("npx prisma migrate deploy", { stdio: "ignore", env: process.env });
+
+const { default: db } = await import("../app/db.server");
+const { loader: receiveCode } = await import("../app/routes/receive.code");
+const { default: createCsvAndImportToYahoo } = await import("../app/batch/tasks/createCsvAndImportToYahoo");
+const { default: checkUploadResults } = await import("../app/batch/tasks/checkUploadResults");
+const { recordConversionAdjustment } = await import("../app/utils/conversion_adjustment.server");
+const { startYahooAuthorization, completeYahooAuthorization } = await import("../app/utils/yahoo_authorization.server");
+const { disconnectYahoo } = await import("../app/utils/yahoo_connection.server");
+const { getYahooAdsAccessToken, validateYahooAdAccountSettings } = await import("../app/utils/yahoo_ads_api.server");
+const { routePendingConversions, resetPendingRoutes } = await import("../app/utils/conversion_routing.server");
+const { withJobLock } = await import("../app/utils/job_lock.server");
+const { recordJobRun } = await import("../app/utils/job_run.server");
+const { validateCronExpression, isBatchOperator, canRunTaskNow } = await import("../app/utils/task_schedule.server");
+const { runTask, startTask } = await import("../app/batch/runner");
+const { drainRunningTasks } = await import("../app/utils/shutdown.server");
+const { CONVERSION_STATUS, ADJUSTMENT_KIND, EXCLUSION_REASON, CONNECTION_STATUS, AUTHORIZATION_ERROR, JOB_RUN_STATUS } = await import("../app/constants");
+
+const CLIENT_ID = "e2e-client";
+const SHOP = "e2e-shop.myshopify.com";
+const USER_ID = "1001";
+
+/** 実行するシナリオ */
+const scenarios: { name: string, run: () => Promise<void> }[] = [];
+
+/**
+ * シナリオを登録する（登録順に実行され、データベースの状態は引き継がれる）
+ */
+function scenario(name: string, run: () => Promise<void>) {
+  scenarios.push({ name, run });
+}
+
+/**
+ * receive.code のローダーを呼び出す
+ */
+function callReceiveCode(query: Record<string, string>) {
+  const request = new Request("http://localhost/receive/code?" + new URLSearchParams(query).toString());
+  return receiveCode({ request, params: {}, context: {} });
+}
+
+/**
+ * 認可リクエストを発行し、シミュレーターで認可コードを発行する（同意画面の操作の代わり）
+ */
+async function authorize() {
+  const yahooAdApplication = await db.yahooAdApplication.findUniqueOrThrow({ where: { shop: SHOP } });
+  const authorizeUrl = new URL(await startYahooAuthorization(yahooAdApplication, SHOP, USER_ID));
+  const state = authorizeUrl.searchParams.get("state")!;
+  const code = sim.issueAuthorizationCode(CLIENT_ID, authorizeUrl.searchParams.get("code_challenge")!);
+  return { state, code };
+}
+
+/**
+ * 認可を完了する（埋め込みアプリの設定画面の代わり）
+ */
+function complete(state: string, code: string, userId = USER_ID) {
+  return completeYahooAuthorization({ state, code, error: null, shop: SHOP, userId });
+}
+
+/**
+ * 未送信のコンバージョンを作成する
+ */
+function createConversion(yclid: string) {
+  return db.yahooConversion.create({
+    data: {
+      shop: SHOP,
+      yclid,
+      amount: 1000,
+      visitedAt: new Date(Date.now() - 24 * 60 * 60 * 1000),
+      conversionedAt: new Date(Date.now() - 60 * 1000),
+      orderId: crypto.randomUUID(),
+    },
+  });
+}
+
+scenario("OAuth: an unknown state is rejected", async () => {
+  await db.yahooAdApplication.create({
+    data: {
+      shop: SHOP,
+      clientId: CLIENT_ID,
+      clientSecret: "e2e-secret",
+      redirectUri: process.env.SHOPIFY_APP_URL + "/receive/code",
+    },
+  });
+  const res = await callReceiveCode({ state: "wrong", code: sim.issueAuthorizationCode(CLIENT_ID) });
+  assert.equal(res.status, 405);
+});
+
+scenario("OAuth: an expired state is rejected", async () => {
+  const { state, code } = await authorize();
+  await db.yahooAuthorization.update({ where: { state }, data: { expiresAt: new Date(Date.now() - 1000) } });
+
+  const res = await callReceiveCode({ state, code });
+  assert.equal(res.status, 405);
+  assert.equal(await complete(state, code), AUTHORIZATION_ERROR.EXPIRED);
+});
+
+scenario("OAuth: receive.code hands the code back to the embedded app of the shop", async () => {
+  const { state, code } = await authorize();
+
+  const res = await callReceiveCode({ state, code });
+  assert.equal(res.status, 302);
+  const location = new URL(res.headers.get("Location")!);
+  assert.equal(location.hostname, SHOP);
+  assert.ok(location.pathname.endsWith("/app/setting_yahoo_app"));
+  assert.equal(location.searchParams.get("state"), state);
+  assert.equal(location.searchParams.get("code"), code);
+});
+
+scenario("OAuth: only the user who started the authorization can complete it, and only once", async () => {
+  const { state, code } = await authorize();
+
+  assert.equal(await complete(state, code, "2002"), AUTHORIZATION_ERROR.USER_MISMATCH);
+  assert.equal(await complete(state, code), null);
+  assert.equal(await complete(state, code), AUTHORIZATION_ERROR.USED);
+  const res = await callReceiveCode({ state, code });
+  assert.equal(res.status, 405);
+
+  const authorization = await db.yahooAuthorization.findUniqueOrThrow({ where: { state } });
+  assert.ok(authorization.usedAt);
+  assert.ok(authorization.codeVerifier);
+  const app = await db.yahooAdApplication.findUniqueOrThrow({ where: { shop: SHOP } });
+  assert.ok(app.accessToken);
+  assert.ok(app.refreshToken);
+  assert.ok(app.accessTokenExpiresAt && app.accessTokenExpiresAt > new Date());
+  assert.equal(app.connectionStatus, CONNECTION_STATUS.CONNECTED);
+});
+
+scenario("Accounts: settings are checked against the accounts and offline conversions in Yahoo", async () => {
+  sim.linkAccounts("search", "100", [{ accountId: "101", accountName: "e2e検索広告" }]);
+  sim.linkAccounts("display", "200", [{ accountId: "201", accountName: "e2eディスプレイ広告" }]);
+  sim.addConversionTrackers("search", "101", [
+    { conversionTrackerName: "購入", conversionTrackerType: "IMPORT" },
+    { conversionTrackerName: "サイトでの購入", conversionTrackerType: "WEB_CONVERSION" },
+  ]);
+  sim.addConversionTrackers("display", "201", [{ conversionTrackerName: "購入", conversionTrackerType: "OFFLINE_CONVERSION" }]);
+
+  const { errors, unavailableReason } = await validateYahooAdAccountSettings(SHOP, [
+    { type: "search",  accountId: "100", childAccountId: "101", conversionTitle: "購入" },
+    { type: "display", accountId: "200", childAccountId: "201", conversionTitle: "購入" },
+    { type: "search",  accountId: "100", childAccountId: "102", conversionTitle: "購入" },
+    { type: "search",  accountId: "300", childAccountId: "301", conversionTitle: "購入" },
+    { type: "search",  accountId: "100", childAccountId: "101", conversionTitle: "サイトでの購入" },
+    { type: "search",  accountId: "100", childAccountId: "101", conversionTitle: "購入 " },
+  ], await getYahooAdsAccessToken(SHOP));
+
+  assert.deepEqual(errors.map(e => Object.keys(e)), [
+    [],
+    [],
+    ["childAccountId"],
+    ["accountId"],
+    ["conversionTitle"],
+    ["conversionTitle"],
+  ]);
+  assert.match(errors[4].conversionTitle ?? "", /オフラインコンバージョンではありません/);
+  assert.equal(unavailableReason, null);
+
+  // Yahoo広告APIを利用できない場合は、確認できなかった理由を返し、エラーにはしない
+  sim.failNext("conversionTracker", { status: 401 });
+  const unavailable = await validateYahooAdAccountSettings(SHOP, [
+    { type: "search", accountId: "100", childAccountId: "101", conversionTitle: "購入" },
+  ], await getYahooAdsAccessToken(SHOP));
+  assert.deepEqual(unavailable.errors, [{}]);
+  assert.ok(unavailable.unavailableReason);
+
+  const disconnected = await validateYahooAdAccountSettings(SHOP, [
+    { type: "search", accountId: "100", childAccountId: "101", conversionTitle: "購入" },
+  ], "");
+  assert.deepEqual(disconnected.errors, [{}]);
+  assert.equal(disconnected.unavailableReason, "Yahoo広告と接続されていません");
+});
+
+scenario("Upload: pending conversions are sent per account type", async () => {
+  await db.yahooAdAccount.createMany({
+    data: [
+      { id: 1, shop: SHOP, type: "search",  accountId: "100", childAccountId: "101", duration: 30, conversionTitle: "購入" },
+      { id: 2, shop: SHOP, type: "display", accountId: "200", childAccountId: "201", duration: 30, conversionTitle: "購入" },
+    ],
+  });
+  await createConversion("YSS.101.search-1");
+  await createConversion("YJAD.1700000000.display-1");
+
+  await createCsvAndImportToYahoo(SHOP);
+
+  assert.equal(sim.uploads.length, 2);
+  assert.deepEqual(sim.uploads.map(u => u.rows[0]["YCLID"]).sort(), ["YJAD.1700000000.display-1", "YSS.101.search-1"]);
+  assert.equal(sim.uploads.find(u => u.type === "search")?.rows[0]["コンバージョン名"], "購入");
+  const conversions = await db.yahooConversion.findMany();
+  assert.ok(conversions.every(c => c.status === CONVERSION_STATUS.UPLOADED && c.uploadJobId));
+  const jobs = await db.uploadJob.findMany();
+  assert.ok(jobs.every(j => j.httpStatus === 200 && j.uploadId));
+});
+
+scenario("Results: row errors are mapped back to conversions", async () => {
+  await createConversion("YSS.101.search-2");
+  await createConversion("YSS.101.search-3");
+  sim.rejectRows(["YSS.101.search-3"], "クリックの有効期限が切れています");
+
+  await createCsvAndImportToYahoo(SHOP);
+  // エラーファイルを取得できなかった場合は、処理ステータスを保存せずに次回の実行で確認し直す
+  sim.failNext("errorFile", { status: 400 });
+  await checkUploadResults(SHOP);
+
+  const unchecked = await db.yahooConversion.findFirstOrThrow({ where: { yclid: "YSS.101.search-3" }, include: { uploadJob: true } });
+  assert.equal(unchecked.status, CONVERSION_STATUS.UPLOADED);
+  assert.equal(unchecked.uploadJob?.processStatus, null);
+
+  await checkUploadResults(SHOP);
+
+  const rejected = await db.yahooConversion.findFirstOrThrow({ where: { yclid: "YSS.101.search-3" } });
+  assert.equal(rejected.status, CONVERSION_STATUS.REJECTED);
+  assert.equal(rejected.statusReason, "クリックの有効期限が切れています");
+  const accepted = await db.yahooConversion.findMany({ where: { yclid: { not: "YSS.101.search-3" } } });
+  assert.ok(accepted.every(c => c.status === CONVERSION_STATUS.ACCEPTED));
+});
+
+// アップロードは二重計上を避けるため、処理されたかどうか分からない失敗（500）では未送信に戻さず、
+// 次回の実行でアップロードの一覧と照合してから再送する
+for (const [status, expected] of [[401, CONVERSION_STATUS.PENDING], [400, CONVERSION_STATUS.PENDING], [500, CONVERSION_STATUS.UPLOADING]] as const) {
+  scenario(`Failures: ${status} on upload leaves conversions ${expected} until the next run`, async () => {
+    const { yclid } = await createConversion(`YSS.101.failure-${status}`);
+    sim.failNext("upload", { status });
+
+    await createCsvAndImportToYahoo(SHOP);
+
+    const conversion = await db.yahooConversion.findFirstOrThrow({ where: { yclid }, include: { uploadJob: true } });
+    assert.equal(conversion.status, expected);
+    assert.equal(!!conversion.uploadJob?.finishedAt, expected === CONVERSION_STATUS.PENDING);
+    assert.equal(conversion.uploadJob?.httpStatus, status);
+    const app = await db.yahooAdApplication.findUniqueOrThrow({ where: { shop: SHOP } });
+    assert.match(app.lastApiError ?? "", new RegExp(`\\[${status}\\]`));
+
+    // 一覧への反映の遅れを待つ時間が経過しても見つからないファイルは、受け付けられなかったものとする
+    await db.uploadJob.update({ where: { id: conversion.uploadJobId! }, data: { createdAt: new Date(Date.now() - 2 * 60 * 60 * 1000) } });
+    await createCsvAndImportToYahoo(SHOP);
+
+    const retried = await db.yahooConversion.findFirstOrThrow({ where: { yclid } });
+    assert.equal(retried.status, CONVERSION_STATUS.UPLOADED);
+  });
+}
+
+scenario("Chunks: only the rows of a failed file are left pending", async () => {
+  const yclids = ["YSS.101.chunk-1", "YSS.101.chunk-2", "YSS.101.chunk-3"];
+  for (const yclid of yclids) await createConversion(yclid);
+  sim.failNext("upload", { status: 400 });
+
+  await createCsvAndImportToYahoo(SHOP);
+
+  const conversions = await db.yahooConversion.findMany({ where: { yclid: { in: yclids } }, orderBy: { conversionedAt: "asc" } });
+  assert.deepEqual(conversions.map(c => c.status), [
+    CONVERSION_STATUS.PENDING,
+    CONVERSION_STATUS.PENDING,
+    CONVERSION_STATUS.UPLOADED,
+  ]);
+});
+
+scenario("Rejected upload: errors without an uploadId mark the rows rejected instead of uploaded", async () => {
+  const { yclid } = await createConversion("YSS.101.upload-errors");
+  sim.failNext("upload", { status: 200, body: { errors: [{ code: "210001", message: "invalid file" }], rval: null } });
+
+  await createCsvAndImportToYahoo(SHOP);
+
+  const conversion = await db.yahooConversion.findFirstOrThrow({ where: { yclid }, include: { uploadJob: true } });
+  assert.equal(conversion.status, CONVERSION_STATUS.REJECTED);
+  assert.equal(conversion.statusReason, "[210001] invalid file");
+  assert.equal(conversion.uploadJob?.uploadId, null);
+  assert.match(conversion.uploadJob?.errors ?? "", /invalid file/);
+});
+
+scenario("Retries: 429 and 503 on upload are retried within the same run", async () => {
+  const { yclid } = await createConversion("YSS.101.retry");
+  sim.failNext("upload", { status: 429, retryAfter: 1 });
+  sim.failNext("upload", { status: 503 });
+  const uploadCount = sim.uploads.length;
+
+  await createCsvAndImportToYahoo(SHOP);
+
+  assert.equal(sim.uploads.length, uploadCount + 1);
+  const conversion = await db.yahooConversion.findFirstOrThrow({ where: { yclid }, include: { uploadJob: true } });
+  assert.equal(conversion.status, CONVERSION_STATUS.UPLOADED);
+  assert.equal(conversion.uploadJob?.httpStatus, 200);
+});
+
+scenario("Circuit breaker: repeated upload failures pause the account until the pause expires", async () => {
+  const { yclid } = await createConversion("YSS.101.breaker");
+  sim.failNext("upload", { status: 400, times: 3 });
+
+  for (let i = 0; i < 3; i++) await createCsvAndImportToYahoo(SHOP);
+
+  const paused = await db.yahooAdAccount.findUniqueOrThrow({ where: { id: 1 } });
+  assert.equal(paused.uploadFailureCount, 3);
+  assert.ok(paused.uploadPausedUntil && paused.uploadPausedUntil > new Date());
+  assert.match(paused.uploadPauseReason ?? "", /\[400\]/);
+
+  // 一時停止中はアップロードしない
+  const uploadCount = sim.uploads.length;
+  const result = await createCsvAndImportToYahoo(SHOP);
+  assert.equal(sim.uploads.length, uploadCount);
+  assert.equal(result.status, JOB_RUN_STATUS.FAILED);
+  assert.match(result.error ?? "", /Uploads paused until/);
+
+  // 一時停止が明けると再開し、連続失敗回数を戻す
+  await db.yahooAdAccount.update({ where: { id: 1 }, data: { uploadPausedUntil: new Date(Date.now() - 1000) } });
+  await createCsvAndImportToYahoo(SHOP);
+
+  const conversion = await db.yahooConversion.findFirstOrThrow({ where: { yclid } });
+  assert.equal(conversion.status, CONVERSION_STATUS.UPLOADED);
+  const resumed = await db.yahooAdAccount.findUniqueOrThrow({ where: { id: 1 } });
+  assert.equal(resumed.uploadFailureCount, 0);
+  assert.equal(resumed.uploadPausedUntil, null);
+  assert.equal(resumed.uploadPauseReason, null);
+});
+
+scenario("Recovery: an upload interrupted by a shutdown is not sent twice", async () => {
+  const accepted = await createConversion("YSS.101.interrupted-accepted");
+  await createCsvAndImportToYahoo(SHOP);
+  const notAccepted = await createConversion("YSS.101.interrupted-lost");
+  await createCsvAndImportToYahoo(SHOP);
+
+  // アップロードの結果を記録する前にプロセスが終了した状態にする（2件目はYahoo広告に届かなかったものとする）
+  const [acceptedJob, lostJob] = await Promise.all([accepted, notAccepted].map(({ id }) =>
+    db.yahooConversion.findUniqueOrThrow({ where: { id } }).then(c => db.uploadJob.findUniqueOrThrow({ where: { id: c.uploadJobId! } }))
+  ));
+  await db.uploadJob.update({ where: { id: acceptedJob.id }, data: { uploadId: null, finishedAt: null } });
+  await db.uploadJob.update({ where: { id: lostJob.id }, data: { uploadId: null, finishedAt: null, fileName: "shopify_cv_search_lost.csv" } });
+  await db.yahooConversion.updateMany({ where: { id: { in: [accepted.id, notAccepted.id] } }, data: { status: CONVERSION_STATUS.UPLOADING } });
+  const uploadCount = sim.uploads.length;
+
+  // 一覧に見つからないファイルも、反映が遅れている可能性があるため、しばらくはアップロード中のままにする
+  await createCsvAndImportToYahoo(SHOP);
+
+  assert.equal(sim.uploads.length, uploadCount);
+  const waiting = await db.uploadJob.findUniqueOrThrow({ where: { id: lostJob.id } });
+  assert.equal(waiting.finishedAt, null);
+  assert.equal((await db.yahooConversion.findUniqueOrThrow({ where: { id: notAccepted.id } })).status, CONVERSION_STATUS.UPLOADING);
+
+  await db.uploadJob.update({ where: { id: lostJob.id }, data: { createdAt: new Date(Date.now() - 2 * 60 * 60 * 1000) } });
+  await createCsvAndImportToYahoo(SHOP);
+
+  // 受け付けられていたファイルは再送せず、届かなかったファイルの行のみ再送する
+  assert.deepEqual(sim.uploads.slice(uploadCount).flatMap(u => u.rows.map(r => r["YCLID"])), ["YSS.101.interrupted-lost"]);
+  const recovered = await db.uploadJob.findUniqueOrThrow({ where: { id: acceptedJob.id } });
+  assert.ok(recovered.uploadId && recovered.finishedAt);
+  const lost = await db.uploadJob.findUniqueOrThrow({ where: { id: lostJob.id } });
+  assert.match(lost.errors ?? "", /interrupted/);
+  const conversions = await db.yahooConversion.findMany({ where: { id: { in: [accepted.id, notAccepted.id] } } });
+  assert.ok(conversions.every(c => c.status === CONVERSION_STATUS.UPLOADED));
+  assert.notEqual(conversions.find(c => c.id === notAccepted.id)?.uploadJobId, lostJob.id);
+});
+
+scenario("Recovery: rows left uploading by a deleted account are sent again through the current accounts", async () => {
+  const orphaned = await createConversion("YSS.101.orphaned");
+  await createCsvAndImportToYahoo(SHOP);
+
+  // アップロードの結果を記録する前にプロセスが終了し、その後アカウントが削除された状態にする
+  const { uploadJobId } = await db.yahooConversion.findUniqueOrThrow({ where: { id: orphaned.id } });
+  await db.uploadJob.update({ where: { id: uploadJobId! }, data: { yahooAdAccountId: null, uploadId: null, finishedAt: null } });
+  await db.yahooConversion.update({ where: { id: orphaned.id }, data: { status: CONVERSION_STATUS.UPLOADING, yahooAdAccountId: null } });
+  const uploadCount = sim.uploads.length;
+
+  await createCsvAndImportToYahoo(SHOP);
+
+  assert.deepEqual(sim.uploads.slice(uploadCount).flatMap(u => u.rows.map(r => r["YCLID"])), ["YSS.101.orphaned"]);
+  const job = await db.uploadJob.findUniqueOrThrow({ where: { id: uploadJobId! } });
+  assert.ok(job.finishedAt);
+  assert.match(job.errors ?? "", /deleted/);
+  const resent = await db.yahooConversion.findUniqueOrThrow({ where: { id: orphaned.id } });
+  assert.equal(resent.status, CONVERSION_STATUS.UPLOADED);
+  assert.equal(resent.yahooAdAccountId, 1);
+});
+
+scenario("Adjustments: a refund of an uploaded conversion is sent as a negative value", async () => {
+  const { orderId } = await db.yahooConversion.findFirstOrThrow({ where: { yclid: "YSS.101.search-2" } });
+  const refund = { shop: SHOP, orderId, kind: ADJUSTMENT_KIND.REFUND, sourceId: "refund-1", amount: 300, adjustedAt: new Date() };
+  assert.equal(await recordConversionAdjustment(refund), 1);
+  // 同じ返金の再送は記録されない
+  assert.equal(await recordConversionAdjustment(refund), 0);
+  const uploadCount = sim.uploads.length;
+
+  await createCsvAndImportToYahoo(SHOP);
+  await checkUploadResults(SHOP);
+
+  const rows = sim.uploads.slice(uploadCount).flatMap(u => u.rows).filter(r => r["YCLID"] === "YSS.101.search-2");
+  assert.deepEqual(rows.map(r => r["1コンバージョンあたりの価値"]), ["-300"]);
+  const adjustment = await db.conversionAdjustment.findFirstOrThrow({ where: { orderId } });
+  assert.equal(adjustment.status, CONVERSION_STATUS.ACCEPTED);
+});
+
+scenario("Routing: a search click without a matching account is not uploaded", async () => {
+  await db.yahooAdAccount.update({ where: { id: 1 }, data: { yclCookieId: "101" } });
+  const { yclid, orderId } = await createConversion("YSS.999.unknown-account");
+  await recordConversionAdjustment({ shop: SHOP, orderId, kind: ADJUSTMENT_KIND.CANCEL, sourceId: "cancel-1", amount: null, adjustedAt: new Date() });
+  const uploadCount = sim.uploads.length;
+
+  await createCsvAndImportToYahoo(SHOP);
+
+  assert.ok(sim.uploads.slice(uploadCount).every(u => u.rows.every(r => r["YCLID"] !== yclid)));
+  const conversion = await db.yahooConversion.findFirstOrThrow({ where: { yclid } });
+  assert.equal(conversion.status, CONVERSION_STATUS.UNROUTABLE);
+  // 元のコンバージョンが送信されない価値の調整は、未送信のまま残さない
+  const excluded = await db.conversionAdjustment.findFirstOrThrow({ where: { orderId } });
+  assert.equal(excluded.status, CONVERSION_STATUS.EXCLUDED);
+  assert.equal(excluded.statusReason, EXCLUSION_REASON.CONVERSION_NOT_UPLOADED);
+
+  // クッキー番号が未設定のアカウント（設定項目の追加前に保存したもの）は、全ての検索広告のクリックを受け付ける
+  await db.yahooAdAccount.update({ where: { id: 1 }, data: { yclCookieId: null } });
+  await resetPendingRoutes(SHOP);
+  await routePendingConversions(SHOP);
+
+  const routed = await db.yahooConversion.findFirstOrThrow({ where: { yclid } });
+  assert.equal(routed.status, CONVERSION_STATUS.PENDING);
+  assert.equal(routed.yahooAdAccountId, 1);
+  const restored = await db.conversionAdjustment.findFirstOrThrow({ where: { orderId } });
+  assert.equal(restored.status, CONVERSION_STATUS.PENDING);
+  await db.yahooConversion.delete({ where: { id: routed.id } });
+});
+
+scenario("Token: an access token that is not about to expire is reused", async () => {
+  const before = await db.yahooAdApplication.findUniqueOrThrow({ where: { shop: SHOP } });
+
+  await createCsvAndImportToYahoo(SHOP);
+
+  const after = await db.yahooAdApplication.findUniqueOrThrow({ where: { shop: SHOP } });
+  assert.equal(after.accessToken, before.accessToken);
+  assert.equal(after.connectionStatus, CONNECTION_STATUS.CONNECTED);
+});
+
+scenario("Token: a revoked refresh token stops the batch without uploading", async () => {
+  const { yclid } = await createConversion("YSS.101.revoked");
+  sim.revokeRefreshTokens();
+  // アクセストークンの有効期限が近づき、更新が必要な状態にする
+  await db.yahooAdApplication.update({ where: { shop: SHOP }, data: { accessTokenExpiresAt: new Date() } });
+  const uploadCount = sim.uploads.length;
+
+  await createCsvAndImportToYahoo(SHOP);
+
+  assert.equal(sim.uploads.length, uploadCount);
+  const conversion = await db.yahooConversion.findFirstOrThrow({ where: { yclid } });
+  assert.equal(conversion.status, CONVERSION_STATUS.PENDING);
+  const app = await db.yahooAdApplication.findUniqueOrThrow({ where: { shop: SHOP } });
+  assert.equal(app.connectionStatus, CONNECTION_STATUS.BROKEN);
+  assert.match(app.lastTokenError ?? "", /invalid_grant/);
+  assert.equal(app.tokenRefreshLockedAt, null);
+});
+
+scenario("Disconnect: tokens are cleared but the app credentials are kept", async () => {
+  await disconnectYahoo(SHOP);
+
+  const app = await db.yahooAdApplication.findUniqueOrThrow({ where: { shop: SHOP } });
+  assert.equal(app.accessToken, null);
+  assert.equal(app.refreshToken, null);
+  assert.equal(app.code, null);
+  assert.equal(app.connectionStatus, CONNECTION_STATUS.NOT_CONNECTED);
+  assert.equal(app.clientSecret, "e2e-secret");
+});
+
+scenario("Job runs: each execution is recorded with its outcome and error", async () => {
+  // 接続を解除した後は送信できないため、失敗として記録される
+  await recordJobRun("createCsvAndImportToYahoo", SHOP, () => createCsvAndImportToYahoo(SHOP));
+  // Yahoo広告アプリケーションが設定されていないショップは、スキップとして記録される
+  await recordJobRun("createCsvAndImportToYahoo", "other-shop.myshopify.com", () => createCsvAndImportToYahoo("other-shop.myshopify.com"));
+
+  const jobRuns = await db.jobRun.findMany({ where: { name: "createCsvAndImportToYahoo" }, orderBy: { id: "asc" } });
+  assert.deepEqual(jobRuns.map(jr => [jr.shop, jr.status]), [
+    [SHOP, JOB_RUN_STATUS.FAILED],
+    ["other-shop.myshopify.com", JOB_RUN_STATUS.SKIPPED],
+  ]);
+  assert.match(jobRuns[0].error ?? "", /not connected/);
+  assert.ok(jobRuns.every(jr => jr.finishedAt));
+});
+
+scenario("Job lock: a job runs only once at a time and an expired lock is taken over", async () => {
+  let nested: boolean | undefined;
+  const ran = await withJobLock("e2e-job", async () => {
+    nested = await withJobLock("e2e-job", async () => {});
+  });
+  assert.equal(ran, true);
+  assert.equal(nested, false);
+  assert.equal(await db.jobLock.count({ where: { name: "e2e-job" } }), 0);
+
+  // 実行中にプロセスが終了したロックは、有効期限が切れれば取得できる
+  const now = new Date();
+  await db.jobLock.create({
+    data: { name: "e2e-job", owner: "crashed", lockedAt: now, heartbeatAt: now, expiresAt: new Date(now.getTime() + 60_000) },
+  });
+  assert.equal(await withJobLock("e2e-job", async () => {}), false);
+  await db.jobLock.update({ where: { name: "e2e-job" }, data: { expiresAt: new Date(now.getTime() - 1000) } });
+  assert.equal(await withJobLock("e2e-job", async () => {}), true);
+});
+
+scenario("Schedules: cron expressions are validated and a task can be run now for a shop", async () => {
+  assert.equal(validateCronExpression("*/5 * * * *"), undefined);
+  assert.ok(validateCronExpression("* * * * * *"));
+  assert.ok(validateCronExpression("61 * * * *"));
+
+  // スケジュールの変更と全ショップが対象のメンテナンスは、運用するショップのみ
+  process.env.BATCH_OPERATOR_SHOPS = "operator.myshopify.com, other-operator.myshopify.com";
+  assert.equal(isBatchOperator("other-operator.myshopify.com"), true);
+  assert.equal(isBatchOperator(SHOP), false);
+  assert.equal(canRunTaskNow("maintenance", SHOP), false);
+  assert.equal(canRunTaskNow("maintenance", "operator.myshopify.com"), true);
+  assert.equal(canRunTaskNow("createCsvAndImportToYahoo", SHOP), true);
+  delete process.env.BATCH_OPERATOR_SHOPS;
+
+  const before = await db.jobRun.count({ where: { name: "checkUploadResults", shop: SHOP } });
+  assert.equal(await runTask("checkUploadResults", SHOP), true);
+  assert.equal(await db.jobRun.count({ where: { name: "checkUploadResults", shop: SHOP } }), before + 1);
+
+  // スケジュールによる実行中は、今すぐ実行できない
+  await withJobLock("checkUploadResults", async () => {
+    assert.equal(await runTask("checkUploadResults", SHOP), false);
+    assert.equal(await startTask("checkUploadResults", SHOP), false);
+  });
+
+  // 管理画面からは、ロックを取得した時点で返し、終了を待たない
+  assert.equal(await startTask("checkUploadResults", SHOP), true);
+  while (await db.jobLock.count({ where: { name: "checkUploadResults" } })) await sleep(50);
+  assert.equal(await db.jobRun.count({ where: { name: "checkUploadResults", shop: SHOP } }), before + 2);
+});
+
+scenario("Shutdown: running tasks are drained and no new runs start", async () => {
+  const running = runTask("checkUploadResults", SHOP);
+  // 再試行を待っているアップロードは、待機をやめて次回の実行に持ち越す
+  const { yclid } = await createConversion("YSS.101.shutdown-retry");
+  sim.failNext("upload", { status: 429, retryAfter: 20 });
+  const uploading = runTask("createCsvAndImportToYahoo", SHOP);
+  await sleep(500);
+
+  const startedAt = Date.now();
+  assert.deepEqual(await drainRunningTasks(5_000, 4_000), []);
+  assert.ok(Date.now() - startedAt < 4_000);
+  assert.equal(await running, true);
+  assert.equal(await uploading, true);
+  const conversion = await db.yahooConversion.findFirstOrThrow({ where: { yclid } });
+  assert.equal(conversion.status, CONVERSION_STATUS.PENDING);
+  assert.equal(await runTask("checkUploadResults", SHOP), false);
+  assert.equal(await db.jobRun.count({ where: { status: JOB_RUN_STATUS.RUNNING } }), 0);
+  assert.equal(await db.jobLock.count({ where: { name: "checkUploadResults" } }), 0);
+});
+
+let failed = 0;
+for (const { name, run } of scenarios) {
+  try {
+    await run();
+    console.log(`✔ ${name}`);
+  } catch (error) {
+    failed++;
+    console.error(`✘ ${name}`);
+    console.error(error);
+  }
+}
+
+await db.$disconnect();
+await sim.close();
+
+console.log(`${scenarios.length - failed}/${scenarios.length} scenarios passed`);
+process.exit(failed ? 1 : 0);
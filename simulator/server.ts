@@ -0,0 +1,27 @@
+// SPDX-License-Identifier: MIT
+
+/**
+ * Yahoo!広告APIシミュレーターを単体で起動する
+ *
+ * 表示された環境変数を .env に設定して `npm run dev` を起動すると、
+ * アプリケーションはYahoo!広告の代わりにシミュレーターに接続します。
+ *
+ * 使い方: `npm run yahoo-simulator`（ポートは YAHOO_SIMULATOR_PORT で変更可能）
+ */
+
+import { startYahooAdsSimulator } from "./yahooAdsSimulator";
+
+const sim = await startYahooAdsSimulator({
+  port: Number(process.env.YAHOO_SIMULATOR_PORT || 4010),
+});
+
+console.log(`Yahoo Ads simulator listening on ${sim.url}`);
+console.log("Set the following environment variables to use it:");
+Object.entries(sim.env).forEach(([name, value]) => console.log(`${name}=${value}`));
+
+const shutdown = async () => {
+  await sim.close();
+  process.exit(0);
+};
+process.on("SIGINT", shutdown);
+process.on("SIGTERM", shutdown);
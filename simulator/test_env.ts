@@ -0,0 +1,87 @@
+// SPDX-License-Identifier: MIT
+
+/**
+ * データベースとYahoo広告に接続せずに実行するテスト（npm test）の共通設定
+ *
+ * アプリケーションのモジュールより先に読み込み、接続先の環境変数を設定します。
+ * データベースには接続しないため、テストで使用するクエリはstubQueriesで置き換えます。
+ */
+
+import { Prisma, type YahooAdAccount, type YahooConversion } from "@prisma/client";
+
+// アプリケーションのモジュールを読み込む前に環境変数を設定する（データベースには接続しない）
+process.env.DATABASE_URL = "file:./unit.sqlite";
+process.env.SHOPIFY_APP_URL ??= "http://localhost:3000";
+process.env.SHOPIFY_API_KEY ??= "unit-api-key";
+process.env.SHOPIFY_API_SECRET ??= "unit-api-secret";
+process.env.SECRETS_MASTER_KEY = Buffer.alloc(32, "unit").toString("base64");
+// スケジューラーは起動しない
+globalThis.__CRON_STARTED__ = true;
+
+const { default: db, sessionPrisma } = await import("../app/db.server");
+
+// PrismaSessionStorageが起動時にセッションテーブルを確認するため、接続せずに応答する
+Object.assign(sessionPrisma.session, { count: async () => 0 });
+
+export const SHOP = "unit-shop.myshopify.com";
+
+/** 書き込みのクエリ */
+const WRITE_QUERIES = ["create", "createMany", "update", "updateMany", "upsert", "delete", "deleteMany"];
+
+/** クエリの置き換え（モデル名ごとに、クエリ名と置き換える関数） */
+type QueryStubs = Partial<Record<Uncapitalize<Prisma.ModelName>, Record<string, (args: any) => Promise<unknown>>>>;
+
+/**
+ * Prismaのクエリを置き換える
+ *
+ * 指定したクエリを置き換え、書き込みのクエリは呼び出しを記録してエラーにします。
+ *
+ * @param stubs - 置き換えるクエリ
+ * @returns 呼び出された書き込みのクエリ（`{モデル名}.{クエリ名}`）
+ *
+ * @example
+ * ```typescript
+ * const writes = stubQueries({ yahooAdAccount: { findMany: async () => [account()] } });
+ * assert.deepEqual(writes, []);
+ * ```
+ */
+export function stubQueries(stubs: QueryStubs): string[] {
+  const writes: string[] = [];
+  for (const name of Object.values(Prisma.ModelName)) {
+    const model = (name.charAt(0).toLowerCase() + name.slice(1)) as Uncapitalize<Prisma.ModelName>;
+    const delegate = db[model] as unknown as Record<string, unknown>;
+    for (const query of WRITE_QUERIES) {
+      delegate[query] = async () => {
+        writes.push(`${model}.${query}`);
+        throw new Error(`Unexpected write: ${model}.${query}`);
+      };
+    }
+    Object.assign(delegate, stubs[model]);
+  }
+  return writes;
+}
+
+/**
+ * テスト用のYahoo広告アカウント
+ */
+export function account(values: Partial<YahooAdAccount> = {}): YahooAdAccount {
+  return {
+    id: 1, shop: SHOP, type: "search", accountId: "100", childAccountId: "101", duration: 30, conversionTitle: "購入",
+    holdHours: 0, valueBasis: "total", yclCookieId: null, uploadFailureCount: 0, uploadPausedUntil: null, uploadPauseReason: null,
+    ...values,
+  };
+}
+
+/**
+ * テスト用のコンバージョンレコード（金額の内訳はショップ通貨）
+ */
+export function conversion(values: Partial<YahooConversion> = {}): YahooConversion {
+  return {
+    id: 1, shop: SHOP, yclid: "YSS.101.unit", amount: new Prisma.Decimal(1000), subtotalAmount: null, discountedSubtotalAmount: null,
+    taxAmount: null, shippingAmount: null, currency: "JPY", presentmentCurrency: null, presentmentAmount: null, exchangeRate: null,
+    visitedAt: new Date(Date.now() - 24 * 60 * 60 * 1000), conversionedAt: new Date("2025-10-01T00:00:00Z"),
+    status: "pending", statusReason: null, orderId: "1001", isFirstOrder: null, yahooAdAccountId: null, conversionTitle: null,
+    uploadJobId: null,
+    ...values,
+  };
+}
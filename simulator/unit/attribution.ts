@@ -0,0 +1,45 @@
+// SPDX-License-Identifier: MIT
+
+import "../test_env";
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { selectAttributedClicks } from "../../app/utils/attribution.server";
+import { ATTRIBUTION_MODEL } from "../../app/constants";
+
+const clicks = [
+  { yclid: "YSS.101.first",         visitedAt: new Date("2025-10-01T00:00:00Z") },
+  { yclid: "YJAD.1727740800.ad",    visitedAt: new Date("2025-10-02T00:00:00Z") },
+  { yclid: "YSS.101.last",          visitedAt: new Date("2025-10-03T00:00:00Z") },
+];
+
+test("last_click selects the latest click", () => {
+  assert.deepEqual(selectAttributedClicks(clicks, ATTRIBUTION_MODEL.LAST_CLICK).map(c => c.yclid), ["YSS.101.last"]);
+});
+
+test("first_click selects the earliest click", () => {
+  assert.deepEqual(selectAttributedClicks(clicks, ATTRIBUTION_MODEL.FIRST_CLICK).map(c => c.yclid), ["YSS.101.first"]);
+});
+
+test("all_platforms selects the latest click of each ad type", () => {
+  assert.deepEqual(
+    selectAttributedClicks(clicks, ATTRIBUTION_MODEL.ALL_PLATFORMS).map(c => c.yclid),
+    ["YSS.101.last", "YJAD.1727740800.ad"],
+  );
+});
+
+test("an unknown attribution model falls back to last_click", () => {
+  assert.deepEqual(selectAttributedClicks(clicks, "unknown").map(c => c.yclid), ["YSS.101.last"]);
+});
+
+test("clicks of an unknown ad type, with an invalid date or a duplicate YCLID are ignored", () => {
+  const selected = selectAttributedClicks([
+    { yclid: "UNKNOWN.1.a",   visitedAt: new Date("2025-10-05T00:00:00Z") },
+    { yclid: "YSS.101.b",     visitedAt: new Date("invalid") },
+    { yclid: "YSS.101.first", visitedAt: new Date("2025-10-04T00:00:00Z") },
+    ...clicks,
+  ], ATTRIBUTION_MODEL.LAST_CLICK);
+
+  // 重複したYCLIDは最初のクリックを使う
+  assert.deepEqual(selected, [{ yclid: "YSS.101.first", visitedAt: new Date("2025-10-04T00:00:00Z") }]);
+  assert.deepEqual(selectAttributedClicks([], ATTRIBUTION_MODEL.LAST_CLICK), []);
+});
@@ -0,0 +1,110 @@
+// SPDX-License-Identifier: MIT
+
+import { SHOP, stubQueries, account, conversion } from "../test_env";
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import iconv from "iconv-lite";
+import { Prisma, type ConversionAdjustment } from "@prisma/client";
+import { getRateToCsvCurrency } from "../../app/utils/exchange_rate.server";
+import {
+  conversionValue,
+  fromConversion,
+  fromAdjustment,
+  toConversionCsvRows,
+  encodeConversionCsv,
+} from "../../app/utils/yahoo_conversion_csv.server";
+import { VALUE_BASIS } from "../../app/constants";
+
+/** 内訳を保存したコンバージョン（合計1,210 = 小計1,100 - 割引100 + 税110 + 送料100） */
+const detailed = conversion({
+  amount:                   new Prisma.Decimal(1210),
+  subtotalAmount:           new Prisma.Decimal(1100),
+  discountedSubtotalAmount: new Prisma.Decimal(1000),
+  taxAmount:                new Prisma.Decimal(110),
+  shippingAmount:           new Prisma.Decimal(100),
+});
+
+test("the conversion value follows the value basis of the account", () => {
+  const value = (valueBasis: string) => conversionValue(detailed, valueBasis)?.toNumber();
+
+  assert.equal(value(VALUE_BASIS.TOTAL), 1210);
+  assert.equal(value(VALUE_BASIS.SUBTOTAL), 1100);
+  assert.equal(value(VALUE_BASIS.SUBTOTAL_MINUS_DISCOUNTS), 1000);
+  assert.equal(value(VALUE_BASIS.EXCLUDING_TAX_SHIPPING), 1000);
+});
+
+test("conversions saved without the breakdown are valued at the total", () => {
+  const legacy = conversion({ amount: new Prisma.Decimal(1210) });
+
+  for (const valueBasis of Object.values(VALUE_BASIS)) {
+    assert.equal(conversionValue(legacy, valueBasis)?.toNumber(), 1210);
+  }
+  assert.equal(conversionValue(conversion({ amount: null }), VALUE_BASIS.TOTAL), null);
+});
+
+test("the value is converted to yen with the exchange rate of the conversion and rounded", () => {
+  const usd = conversion({ amount: new Prisma.Decimal("12.34"), subtotalAmount: new Prisma.Decimal("10.01"), currency: "USD" });
+
+  const item = fromConversion({ ...usd, exchangeRate: new Prisma.Decimal("150.5") }, VALUE_BASIS.TOTAL);
+  assert.equal(item.amount, 1857); // 12.34 × 150.5 = 1857.17
+  assert.equal(fromConversion({ ...usd, exchangeRate: new Prisma.Decimal("150.5") }, VALUE_BASIS.SUBTOTAL).amount, 1507);
+});
+
+test("an adjustment is prorated to the value basis and converted with the rate of its conversion", () => {
+  const adjustment: ConversionAdjustment = {
+    id: 1, conversionId: detailed.id, orderId: detailed.orderId, kind: "refund", sourceId: "refund-1",
+    amount: new Prisma.Decimal(-605), adjustedAt: new Date("2025-10-05T00:00:00Z"),
+    status: "pending", statusReason: null, uploadJobId: null, createdAt: new Date(),
+  };
+  const withRate = (exchangeRate: number) =>
+    ({ ...adjustment, conversion: { ...detailed, exchangeRate: new Prisma.Decimal(exchangeRate) } });
+
+  // 合計1,210のうち605（半額）の返金は、小計（割引後）1,000の半額
+  const item = fromAdjustment(withRate(1), VALUE_BASIS.SUBTOTAL_MINUS_DISCOUNTS);
+  assert.equal(item.kind, "adjustment");
+  assert.equal(item.amount, -500);
+  assert.deepEqual(item.conversionedAt, adjustment.adjustedAt);
+  assert.equal(fromAdjustment(withRate(2), VALUE_BASIS.TOTAL).amount, -1210);
+});
+
+test("yen needs no exchange rate and other currencies use the rate table of the shop", async () => {
+  const queried: unknown[] = [];
+  stubQueries({
+    exchangeRate: {
+      findUnique: async (args) => {
+        queried.push(args.where);
+        return args.where.shop_currency.currency === "USD" ? { shop: SHOP, currency: "USD", rate: new Prisma.Decimal("150.5") } : null;
+      },
+    },
+  });
+
+  assert.equal((await getRateToCsvCurrency(SHOP, "JPY"))?.toNumber(), 1);
+  assert.equal((await getRateToCsvCurrency(SHOP, "USD"))?.toString(), "150.5");
+  assert.equal(await getRateToCsvCurrency(SHOP, "EUR"), null);
+  assert.deepEqual(queried, [
+    { shop_currency: { shop: SHOP, currency: "USD" } },
+    { shop_currency: { shop: SHOP, currency: "EUR" } },
+  ]);
+});
+
+test("only search ad rows have the currency column, and the routed conversion title is used", () => {
+  const items = [
+    fromConversion({ ...conversion({ conversionTitle: "初回購入" }), exchangeRate: new Prisma.Decimal(1) }, VALUE_BASIS.TOTAL),
+    fromConversion({ ...conversion({ id: 2, yclid: "YSS.101.other" }), exchangeRate: new Prisma.Decimal(1) }, VALUE_BASIS.TOTAL),
+  ];
+
+  const search = toConversionCsvRows(account(), items);
+  assert.deepEqual(search[0], {
+    "YCLID":                  "YSS.101.unit",
+    "コンバージョン名":          "初回購入",
+    "コンバージョン発生日時":     "20251001 090000",
+    "1コンバージョンあたりの価値": 1000,
+    "通貨コード":               "JPY",
+  });
+  assert.equal(search[1]["コンバージョン名"], "購入");
+  assert.ok(!("通貨コード" in toConversionCsvRows(account({ type: "display" }), items)[0]));
+
+  // Shift_JISでエンコードする
+  const csv = iconv.decode(Buffer.from(encodeConversionCsv(search)), "Shift_JIS");
+  assert.equal(csv.split("\n")[0], "YCLID,コンバージョン名,コンバージョン発生日時,1コンバージョンあたりの価値,通貨コード");
+});
@@ -0,0 +1,82 @@
+// SPDX-License-Identifier: MIT
+
+import { SHOP, stubQueries, account, conversion } from "../test_env";
+import { test, beforeEach } from "node:test";
+import assert from "node:assert/strict";
+import iconv from "iconv-lite";
+import { Prisma, type YahooConversion } from "@prisma/client";
+import { CUSTOMER_TYPE } from "../../app/constants";
+
+// セッションテーブルの確認を置き換えた後に、Shopifyの設定を読み込む
+const { authenticate } = await import("../../app/shopify.server");
+const { loader, action } = await import("../../app/routes/app.csv_preview");
+
+const search = account({ id: 1 });
+const display = account({ id: 2, type: "display", accountId: "200", childAccountId: "201" });
+
+/** 振り分け済みのコンバージョンと、振り分け先が決まっていないコンバージョン */
+const conversions = [
+  conversion({ id: 1, yclid: "YSS.101.routed", yahooAdAccountId: 1, conversionTitle: "購入", exchangeRate: new Prisma.Decimal(1) }),
+  conversion({ id: 2, yclid: "YSS.101.first-order", isFirstOrder: true, amount: new Prisma.Decimal(10), currency: "USD",
+    conversionedAt: new Date("2025-10-02T00:00:00Z") }),
+  conversion({ id: 3, yclid: "YJAD.1727740800.display" }),
+];
+
+/**
+ * 未送信のコンバージョンの取得（振り分け先の計画と、アカウントの送信対象の取得）を、条件に従って応答する
+ */
+async function findConversions(args: { where: any }): Promise<YahooConversion[]> {
+  const [routed, planned] = args.where.OR ?? [];
+  if (!routed) return conversions.filter(c => c.yahooAdAccountId === null);
+  return conversions.filter(c =>
+    c.yahooAdAccountId === routed.yahooAdAccountId.equals ||
+    (planned?.id.in.includes(c.id) && c.yahooAdAccountId === null)
+  );
+}
+
+let writes: string[];
+
+beforeEach(() => {
+  Object.assign(authenticate, { admin: async () => ({ session: { shop: SHOP } }) });
+  writes = stubQueries({
+    yahooAdAccount:        { findMany: async () => [search, display] },
+    conversionRoutingRule: {
+      findMany: async () => [{
+        id: 1, shop: SHOP, priority: 1, type: "search", customerType: CUSTOMER_TYPE.FIRST,
+        yahooAdAccountId: 1, conversionTitle: "初回購入", yahooAdAccount: search,
+      }],
+    },
+    yahooConversion:       { findMany: findConversions },
+    conversionAdjustment:  { findMany: async () => [] },
+    exchangeRate:          { findUnique: async () => ({ shop: SHOP, currency: "USD", rate: new Prisma.Decimal(150) }) },
+  });
+});
+
+test("the preview applies the unsaved routes and exchange rates without writing them", async () => {
+  const res = await loader({ request: new Request("http://localhost/app/csv_preview"), params: {}, context: {} });
+  const previews = await res.json();
+
+  assert.deepEqual(previews.map((p: any) => [p.id, p.rowCount]), [[1, 2], [2, 1]]);
+  assert.deepEqual(previews[0].rows.map((row: unknown[]) => [row[0], row[1], row[3]]), [
+    ["YSS.101.routed", "購入", 1000],
+    // ルールで振り分けたコンバージョン名と、為替レート表で円に換算した金額
+    ["YSS.101.first-order", "初回購入", 1500],
+  ]);
+  assert.equal(previews[1].rows[0][0], "YJAD.1727740800.display");
+  assert.deepEqual(writes, []);
+});
+
+test("the downloaded CSV has the same rows as the preview", async () => {
+  const body = new FormData();
+  body.append("id", "1");
+  const res = await action({ request: new Request("http://localhost/app/csv_preview", { method: "POST", body }), params: {}, context: {} });
+  const { fileName, content } = await res.json();
+
+  assert.match(fileName, /^shopify_cv_search_\d{8}_\d{6}_preview\.csv$/);
+  const lines = iconv.decode(Buffer.from(content, "base64"), "Shift_JIS").trim().split("\n");
+  assert.deepEqual(lines.slice(1).map(line => line.split(",").slice(0, 2)), [
+    ["YSS.101.routed", "購入"],
+    ["YSS.101.first-order", "初回購入"],
+  ]);
+  assert.deepEqual(writes, []);
+});
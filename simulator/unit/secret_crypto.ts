@@ -0,0 +1,82 @@
+// SPDX-License-Identifier: MIT
+
+import "../test_env";
+import { test, afterEach } from "node:test";
+import assert from "node:assert/strict";
+import {
+  assertMasterKeys,
+  encryptSecret,
+  decryptSecret,
+  isEncryptedSecret,
+  isEncryptedWithCurrentKey,
+  reencryptSecretFields,
+} from "../../app/utils/secret_crypto.server";
+
+const OLD_KEY = Buffer.alloc(32, "old").toString("base64");
+const NEW_KEY = Buffer.alloc(32, "new").toString("base64");
+const { SECRETS_MASTER_KEY } = process.env;
+
+afterEach(() => {
+  process.env.SECRETS_MASTER_KEY = SECRETS_MASTER_KEY;
+  delete process.env.SECRETS_PREVIOUS_MASTER_KEYS;
+});
+
+test("a secret is encrypted with a new data key each time and decrypted back", () => {
+  const encrypted = encryptSecret("refresh-token");
+
+  assert.ok(isEncryptedSecret(encrypted));
+  assert.ok(!encrypted.includes("refresh-token"));
+  assert.notEqual(encryptSecret("refresh-token"), encrypted);
+  assert.equal(decryptSecret(encrypted), "refresh-token");
+  // 暗号化の導入前に保存された平文は、そのまま返す
+  assert.equal(decryptSecret("plain-token"), "plain-token");
+});
+
+test("a tampered secret is not decrypted", () => {
+  const encrypted = encryptSecret("refresh-token");
+  const tampered = encrypted.slice(0, -2) + (encrypted.endsWith("AA") ? "BB" : "AA");
+
+  assert.throws(() => decryptSecret(tampered));
+});
+
+test("encrypt only encrypts the plaintext fields of a record", () => {
+  const encrypted = encryptSecret("access-token");
+  const data = reencryptSecretFields("yahooAdApplication", {
+    shop: "unit-shop.myshopify.com", clientSecret: "client-secret", accessToken: encrypted, refreshToken: null,
+  }, "encrypt");
+
+  assert.deepEqual(Object.keys(data), ["clientSecret"]);
+  assert.equal(decryptSecret(data.clientSecret), "client-secret");
+});
+
+test("rotate re-encrypts the secrets of the previous master key with the current one", () => {
+  process.env.SECRETS_MASTER_KEY = OLD_KEY;
+  const record = { kid: "kid-1", privateKey: encryptSecret("private-key") };
+
+  process.env.SECRETS_MASTER_KEY = NEW_KEY;
+  process.env.SECRETS_PREVIOUS_MASTER_KEYS = OLD_KEY;
+  assert.ok(!isEncryptedWithCurrentKey(record.privateKey));
+  // 暗号化済みの値は、encryptでは暗号化し直さない
+  assert.deepEqual(reencryptSecretFields("apiKeyPair", record, "encrypt"), {});
+
+  const data = reencryptSecretFields("apiKeyPair", record, "rotate");
+  assert.ok(isEncryptedWithCurrentKey(data.privateKey));
+  assert.deepEqual(reencryptSecretFields("apiKeyPair", { ...record, ...data }, "rotate"), {});
+
+  // 以前の鍵を削除しても、新しい鍵で暗号化し直した値は復号できる
+  delete process.env.SECRETS_PREVIOUS_MASTER_KEYS;
+  assert.equal(decryptSecret(data.privateKey), "private-key");
+  assert.throws(() => decryptSecret(record.privateKey), /is not available/);
+});
+
+test("a missing or malformed master key is reported at startup", () => {
+  delete process.env.SECRETS_MASTER_KEY;
+  assert.throws(() => assertMasterKeys(), /SECRETS_MASTER_KEY is not set/);
+
+  process.env.SECRETS_MASTER_KEY = Buffer.alloc(16).toString("base64");
+  assert.throws(() => assertMasterKeys(), /must be 32 bytes/);
+
+  process.env.SECRETS_MASTER_KEY = NEW_KEY;
+  process.env.SECRETS_PREVIOUS_MASTER_KEYS = "not-a-key";
+  assert.throws(() => assertMasterKeys(), /SECRETS_PREVIOUS_MASTER_KEYS/);
+});
@@ -0,0 +1,480 @@
+// SPDX-License-Identifier: MIT
+
+/**
+ * Yahoo!広告APIシミュレーター
+ *
+ * biz-oauth.yahoo.co.jp と ads-*.yahooapis.jp の代わりにローカルで動作する
+ * 簡易的なYahoo!広告APIサーバーです。以下のエンドポイントを提供します：
+ * - OAuth認可（/oauth/v1/authorize）とトークン発行（/oauth/v1/token）
+ * - OfflineConversionService の upload / get / getUploadErrorFile
+ * - AccountLinkService / ConversionTrackerService の get
+ *
+ * 失敗の注入（401、429、5xxなど）や行単位のエラーを設定でき、
+ * バッチ処理やOAuthフローをYahoo!広告に接続せずに確認できます。
+ *
+ * @module yahooAdsSimulator
+ */
+
+import http from "node:http";
+import type { AddressInfo } from "node:net";
+import crypto from "node:crypto";
+import iconv from "iconv-lite";
+import { parse } from "csv-parse/sync";
+import { stringify } from "csv-stringify/sync";
+
+/**
+ * 失敗を注入できるエンドポイント
+ */
+export type SimulatedEndpoint = "token" | "upload" | "get" | "errorFile" | "accountLink" | "conversionTracker";
+
+/**
+ * 注入する失敗の内容
+ */
+export interface SimulatedFailure {
+  /** HTTPステータスコード */
+  status: number;
+  /** レスポンスボディ（省略時はYahoo!広告API形式のエラー） */
+  body?: unknown;
+  /** Retry-Afterヘッダーの秒数 */
+  retryAfter?: number;
+  /** 失敗させる回数（デフォルト1回） */
+  times?: number;
+}
+
+/**
+ * シミュレーターが受け付けたアップロード
+ */
+export interface SimulatedUpload {
+  /** アップロードID */
+  uploadId: number;
+  /** 広告タイプ */
+  type: "search" | "display";
+  /** アカウントID */
+  accountId: string;
+  /** x-z-base-account-idヘッダーの値 */
+  baseAccountId: string;
+  /** アップロードファイル名 */
+  uploadFileName: string;
+  /** CSVの各行（ヘッダーをキーとするオブジェクト） */
+  rows: Record<string, string>[];
+  /** 処理ステータス */
+  processStatus: string;
+  /** 処理中として応答する残り回数 */
+  pendingPolls: number;
+}
+
+/**
+ * シミュレーターに登録するベースアカウントの配下のアカウント
+ */
+export interface SimulatedAccount {
+  /** アカウントID */
+  accountId: string;
+  /** アカウント名 */
+  accountName: string;
+}
+
+/**
+ * シミュレーターに登録するコンバージョン設定
+ */
+export interface SimulatedConversionTracker {
+  /** コンバージョン名 */
+  conversionTrackerName: string;
+  /** コンバージョンの種別（IMPORT、OFFLINE_CONVERSION、WEB_CONVERSIONなど） */
+  conversionTrackerType: string;
+}
+
+/**
+ * シミュレーターの起動オプション
+ */
+export interface YahooAdsSimulatorOptions {
+  /** 待ち受けポート（0の場合は空いているポート） */
+  port?: number;
+  /** 処理完了までに IN_PROGRESS を返す get の回数 */
+  processingPolls?: number;
+  /** アクセストークンの有効期限（秒） */
+  accessTokenExpiresIn?: number;
+}
+
+/**
+ * 起動したシミュレーターの操作用インターフェース
+ */
+export interface YahooAdsSimulator {
+  /** シミュレーターのURL */
+  url: string;
+  /** 上書き用の環境変数（YAHOO_AUTH_ENDPOINTなど） */
+  env: Record<string, string>;
+  /** 受け付けたアップロード */
+  uploads: SimulatedUpload[];
+  /** 認可コードを発行する（/authorize を経由しない場合に使用。PKCEの場合はコードチャレンジを指定） */
+  issueAuthorizationCode(clientId: string, codeChallenge?: string): string;
+  /** ベースアカウントの配下にアカウントを登録する（AccountLinkService/getで返却される） */
+  linkAccounts(type: "search" | "display", baseAccountId: string, accounts: SimulatedAccount[]): void;
+  /** アカウントにコンバージョン設定を登録する（ConversionTrackerService/getで返却される） */
+  addConversionTrackers(type: "search" | "display", accountId: string, conversionTrackers: SimulatedConversionTracker[]): void;
+  /** 次のリクエストを失敗させる */
+  failNext(endpoint: SimulatedEndpoint, failure: SimulatedFailure): void;
+  /** 指定したYCLIDの行を取り込みエラーにする */
+  rejectRows(yclids: string[], reason: string): void;
+  /** 発行済みのアクセストークンを全て失効させる */
+  expireAccessTokens(): void;
+  /** 発行済みのリフレッシュトークンを全て失効させる */
+  revokeRefreshTokens(): void;
+  /** 状態を初期化する */
+  reset(): void;
+  /** シミュレーターを停止する */
+  close(): Promise<void>;
+}
+
+/**
+ * Yahoo!広告API形式のエラーレスポンスを生成する
+ * @param code - エラーコード
+ * @param message - エラーメッセージ
+ * @returns エラーレスポンスのボディ
+ */
+function apiError(code: string, message: string) {
+  return { errors: [{ code, message, details: null }], rval: null };
+}
+
+/**
+ * リクエストボディを読み込む
+ * @param req - リクエスト
+ * @returns リクエストボディ
+ */
+async function readBody(req: http.IncomingMessage): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) chunks.push(chunk as Buffer);
+  return Buffer.concat(chunks);
+}
+
+/**
+ * Yahoo!広告APIシミュレーターを起動する
+ *
+ * @param options - 起動オプション
+ * @returns シミュレーターの操作用インターフェース
+ *
+ * @example
+ * ```typescript
+ * const sim = await startYahooAdsSimulator();
+ * Object.assign(process.env, sim.env);
+ * sim.failNext("upload", { status: 429, retryAfter: 1 });
+ * await sim.close();
+ * ```
+ */
+export async function startYahooAdsSimulator(options: YahooAdsSimulatorOptions = {}): Promise<YahooAdsSimulator> {
+  const processingPolls = options.processingPolls ?? 0;
+  const accessTokenExpiresIn = options.accessTokenExpiresIn ?? 3600;
+
+  let authorizationCodes = new Map<string, { clientId: string, codeChallenge?: string }>();
+  let accessTokens = new Set<string>();
+  let refreshTokens = new Map<string, string>();
+  let failures = new Map<SimulatedEndpoint, SimulatedFailure[]>();
+  let rejectedRows = new Map<string, string>();
+  let accountLinks = new Map<string, SimulatedAccount[]>();
+  let conversionTrackers = new Map<string, (SimulatedConversionTracker & { conversionTrackerId: number })[]>();
+  let nextConversionTrackerId = 1;
+  const uploads: SimulatedUpload[] = [];
+  let nextUploadId = 1;
+
+  /**
+   * 注入された失敗があれば取り出す
+   */
+  function takeFailure(endpoint: SimulatedEndpoint): SimulatedFailure | null {
+    const queue = failures.get(endpoint);
+    if (!queue?.length) return null;
+    const failure = queue[0];
+    failure.times = (failure.times ?? 1) - 1;
+    if (failure.times <= 0) queue.shift();
+    return failure;
+  }
+
+  function issueAuthorizationCode(clientId: string, codeChallenge?: string) {
+    const code = crypto.randomBytes(16).toString("hex");
+    authorizationCodes.set(code, { clientId, codeChallenge });
+    return code;
+  }
+
+  function issueTokens(clientId: string) {
+    const accessToken = crypto.randomBytes(24).toString("hex");
+    const refreshToken = crypto.randomBytes(24).toString("hex");
+    accessTokens.add(accessToken);
+    refreshTokens.set(refreshToken, clientId);
+    return {
+      access_token: accessToken,
+      refresh_token: refreshToken,
+      expires_in: accessTokenExpiresIn,
+      token_type: "Bearer",
+    };
+  }
+
+  function send(res: http.ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) {
+    if (body instanceof Uint8Array) {
+      res.writeHead(status, { "Content-Type": "text/csv", ...headers });
+      res.end(body);
+      return;
+    }
+    res.writeHead(status, { "Content-Type": "application/json", ...headers });
+    res.end(JSON.stringify(body));
+  }
+
+  function sendFailure(res: http.ServerResponse, failure: SimulatedFailure) {
+    const headers: Record<string, string> = failure.retryAfter !== undefined ? { "Retry-After": String(failure.retryAfter) } : {};
+    send(res, failure.status, failure.body ?? apiError(String(failure.status), "simulated failure"), headers);
+  }
+
+  /**
+   * OAuthのエンドポイントを処理する
+   */
+  async function handleOAuth(url: URL, res: http.ServerResponse) {
+    if (url.pathname.endsWith("/authorize")) {
+      // 同意画面を省略し、即座にリダイレクトする
+      const redirectUri = url.searchParams.get("redirect_uri");
+      const clientId = url.searchParams.get("client_id");
+      if (!redirectUri || !clientId) return send(res, 400, { error: "invalid_request" });
+      const redirect = new URL(redirectUri);
+      redirect.searchParams.set("code", issueAuthorizationCode(clientId, url.searchParams.get("code_challenge") ?? undefined));
+      const state = url.searchParams.get("state");
+      if (state) redirect.searchParams.set("state", state);
+      res.writeHead(302, { Location: redirect.toString() });
+      res.end();
+      return;
+    }
+
+    if (url.pathname.endsWith("/token")) {
+      const failure = takeFailure("token");
+      if (failure) return sendFailure(res, failure);
+
+      const clientId = url.searchParams.get("client_id") ?? "";
+      const grantType = url.searchParams.get("grant_type");
+      if (grantType === "authorization_code") {
+        const code = url.searchParams.get("code") ?? "";
+        const issued = authorizationCodes.get(code);
+        if (issued?.clientId !== clientId) return send(res, 400, { error: "invalid_grant" });
+        // PKCE（S256）の場合は、コード検証値のハッシュがコードチャレンジと一致することを確認する
+        const codeVerifier = url.searchParams.get("code_verifier") ?? "";
+        if (issued.codeChallenge && crypto.createHash("sha256").update(codeVerifier).digest("base64url") !== issued.codeChallenge) {
+          return send(res, 400, { error: "invalid_grant" });
+        }
+        authorizationCodes.delete(code);
+        return send(res, 200, issueTokens(clientId));
+      }
+      if (grantType === "refresh_token") {
+        const refreshToken = url.searchParams.get("refresh_token") ?? "";
+        if (refreshTokens.get(refreshToken) !== clientId) return send(res, 400, { error: "invalid_grant" });
+        // リフレッシュ時は新しいアクセストークンのみを発行する
+        const { access_token, expires_in, token_type } = issueTokens(clientId);
+        return send(res, 200, { access_token, refresh_token: refreshToken, expires_in, token_type });
+      }
+      return send(res, 400, { error: "unsupported_grant_type" });
+    }
+
+    send(res, 404, { error: "not_found" });
+  }
+
+  /**
+   * OfflineConversionServiceのエンドポイントを処理する
+   */
+  async function handleOfflineConversion(
+    type: "search" | "display",
+    operation: string,
+    url: URL,
+    req: http.IncomingMessage,
+    res: http.ServerResponse
+  ) {
+    const endpointKey: SimulatedEndpoint =
+      operation === "upload" ? "upload" : operation === "get" ? "get" : "errorFile";
+    const failure = takeFailure(endpointKey);
+    if (failure) return sendFailure(res, failure);
+
+    const token = (req.headers.authorization ?? "").replace(/^Bearer /, "");
+    if (!accessTokens.has(token)) return send(res, 401, apiError("401", "invalid access token"));
+
+    const body = await readBody(req);
+
+    if (operation === "upload") {
+      const form = await new Response(new Uint8Array(body), {
+        headers: { "Content-Type": req.headers["content-type"] ?? "" },
+      }).formData();
+      const file = form.get("file");
+      if (!(file instanceof Blob)) return send(res, 400, apiError("400", "file is required"));
+
+      const csvUtf8 = iconv.decode(Buffer.from(await file.arrayBuffer()), "Shift_JIS");
+      const rows: Record<string, string>[] = parse(csvUtf8, { columns: true, skip_empty_lines: true });
+      const upload: SimulatedUpload = {
+        uploadId: nextUploadId++,
+        type,
+        accountId: url.searchParams.get("accountId") ?? "",
+        baseAccountId: String(req.headers["x-z-base-account-id"] ?? ""),
+        uploadFileName: url.searchParams.get("uploadFileName") ?? "",
+        rows,
+        processStatus: "IN_PROGRESS",
+        pendingPolls: processingPolls,
+      };
+      uploads.push(upload);
+      return send(res, 200, {
+        errors: null,
+        rval: {
+          values: [{
+            operationSucceeded: true,
+            offlineConversion: {
+              accountId: Number(upload.accountId),
+              uploadId: upload.uploadId,
+              uploadFileName: upload.uploadFileName,
+              processStatus: upload.processStatus,
+            },
+          }],
+        },
+      });
+    }
+
+    const payload = body.length ? JSON.parse(body.toString("utf8")) : {};
+
+    if (operation === "get") {
+      const uploadIds: number[] = payload.uploadIds ?? [];
+      const values = uploads
+        .filter(upload => upload.type === type && upload.accountId === String(payload.accountId))
+        .filter(upload => !uploadIds.length || uploadIds.includes(upload.uploadId))
+        .map(upload => {
+          if (upload.processStatus === "IN_PROGRESS") {
+            if (upload.pendingPolls > 0) {
+              upload.pendingPolls--;
+            } else {
+              const hasError = upload.rows.some(row => rejectedRows.has(row["YCLID"]));
+              upload.processStatus = hasError ? "COMPLETED_WITH_ERROR" : "COMPLETED";
+            }
+          }
+          return {
+            operationSucceeded: true,
+            offlineConversion: {
+              accountId: Number(upload.accountId),
+              uploadId: upload.uploadId,
+              uploadFileName: upload.uploadFileName,
+              processStatus: upload.processStatus,
+            },
+          };
+        });
+      return send(res, 200, { errors: null, rval: { totalNumEntries: values.length, values } });
+    }
+
+    if (operation === "getUploadErrorFile") {
+      const upload = uploads.find(u => u.type === type && u.uploadId === Number(payload.uploadId));
+      if (!upload) return send(res, 400, apiError("400", "upload not found"));
+      const errorRows = upload.rows
+        .filter(row => rejectedRows.has(row["YCLID"]))
+        .map(row => ({ ...row, "エラー内容": rejectedRows.get(row["YCLID"]) }));
+      const csv = stringify(errorRows, { header: true, columns: [...Object.keys(upload.rows[0] ?? {}), "エラー内容"] });
+      return send(res, 200, new Uint8Array(iconv.encode(csv, "Shift_JIS")));
+    }
+
+    send(res, 404, apiError("404", "not found"));
+  }
+
+  /**
+   * AccountLinkService・ConversionTrackerServiceのgetを処理する
+   *
+   * ConversionTrackerServiceは、x-z-base-account-idのアカウント自身か、その配下のアカウントのみ取得できる
+   */
+  async function handleAccountService(
+    type: "search" | "display",
+    service: string,
+    req: http.IncomingMessage,
+    res: http.ServerResponse
+  ) {
+    const failure = takeFailure(service === "AccountLinkService" ? "accountLink" : "conversionTracker");
+    if (failure) return sendFailure(res, failure);
+
+    const token = (req.headers.authorization ?? "").replace(/^Bearer /, "");
+    if (!accessTokens.has(token)) return send(res, 401, apiError("401", "invalid access token"));
+
+    const body = await readBody(req);
+    const payload = body.length ? JSON.parse(body.toString("utf8")) : {};
+    const baseAccountId = String(req.headers["x-z-base-account-id"] ?? "");
+    const accountId = String(payload.accountId ?? "");
+    const linked = accountLinks.get(`${type}:${baseAccountId}`);
+
+    let values: Record<string, unknown>[];
+    if (service === "AccountLinkService") {
+      if (!linked || accountId !== baseAccountId) return send(res, 400, apiError("400", "account is not accessible"));
+      values = linked.map(account => ({ operationSucceeded: true, accountLink: { ...account, accountId: Number(account.accountId) } }));
+    } else {
+      const accessible = accountId === baseAccountId || !!linked?.some(account => account.accountId === accountId);
+      if (!accessible) return send(res, 400, apiError("400", "account is not accessible"));
+      values = (conversionTrackers.get(`${type}:${accountId}`) ?? []).map(ct => ({
+        operationSucceeded: true,
+        conversionTracker: { ...ct, accountId: Number(accountId) },
+      }));
+    }
+
+    const startIndex = Number(payload.startIndex ?? 1);
+    const numberResults = Number(payload.numberResults ?? values.length);
+    return send(res, 200, {
+      errors: null,
+      rval: { totalNumEntries: values.length, values: values.slice(startIndex - 1, startIndex - 1 + numberResults) },
+    });
+  }
+
+  const server = http.createServer(async (req, res) => {
+    try {
+      const url = new URL(req.url ?? "/", "http://localhost");
+      if (url.pathname.startsWith("/oauth/")) return await handleOAuth(url, res);
+
+      const match = url.pathname.match(/^\/(search|display)\/api\/[^/]+\/OfflineConversionService\/(\w+)$/);
+      if (match) return await handleOfflineConversion(match[1] as "search" | "display", match[2], url, req, res);
+
+      const accountMatch = url.pathname.match(/^\/(search|display)\/api\/[^/]+\/(AccountLinkService|ConversionTrackerService)\/get$/);
+      if (accountMatch) return await handleAccountService(accountMatch[1] as "search" | "display", accountMatch[2], req, res);
+
+      send(res, 404, apiError("404", "not found"));
+    } catch (error) {
+      send(res, 500, apiError("500", String(error)));
+    }
+  });
+
+  await new Promise<void>(resolve => server.listen(options.port ?? 0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+  const baseUrl = `http://127.0.0.1:${port}`;
+
+  return {
+    url: baseUrl,
+    env: {
+      YAHOO_AUTH_ENDPOINT: `${baseUrl}/oauth/`,
+      YAHOO_ADS_SEARCH_ENDPOINT: `${baseUrl}/search/api/`,
+      YAHOO_ADS_DISPLAY_ENDPOINT: `${baseUrl}/display/api/`,
+    },
+    uploads,
+    issueAuthorizationCode,
+    linkAccounts(type, baseAccountId, accounts) {
+      accountLinks.set(`${type}:${baseAccountId}`, [...(accountLinks.get(`${type}:${baseAccountId}`) ?? []), ...accounts]);
+    },
+    addConversionTrackers(type, accountId, trackers) {
+      conversionTrackers.set(`${type}:${accountId}`, [
+        ...(conversionTrackers.get(`${type}:${accountId}`) ?? []),
+        ...trackers.map(ct => ({ ...ct, conversionTrackerId: nextConversionTrackerId++ })),
+      ]);
+    },
+    failNext(endpoint, failure) {
+      failures.set(endpoint, [...(failures.get(endpoint) ?? []), { ...failure }]);
+    },
+    rejectRows(yclids, reason) {
+      yclids.forEach(yclid => rejectedRows.set(yclid, reason));
+    },
+    expireAccessTokens() {
+      accessTokens = new Set();
+    },
+    revokeRefreshTokens() {
+      refreshTokens = new Map();
+    },
+    reset() {
+      authorizationCodes = new Map();
+      accessTokens = new Set();
+      refreshTokens = new Map();
+      failures = new Map();
+      rejectedRows = new Map();
+      accountLinks = new Map();
+      conversionTrackers = new Map();
+      uploads.length = 0;
+    },
+    close() {
+      return new Promise<void>((resolve, reject) => server.close(error => error ? reject(error) : resolve()));
+    },
+  };
+}